@@ -12,10 +12,50 @@ export const configSchema = z.object({
   QUERY_TIMEOUT_MS: z.coerce.number().int().min(1000).default(30000),
   MAX_ROWS_PER_QUERY: z.coerce.number().int().min(1).default(1000),
   MAX_QUERY_LENGTH: z.coerce.number().int().min(1).default(50000),
+  QUERY_CURSOR_TTL_MS: z.coerce.number().int().min(1000).default(15 * 60 * 1000),
   ENFORCE_READ_ONLY_QUERIES: z.coerce.boolean().default(true),
+  QUERY_COST_GUARD: z.enum(['off', 'warn', 'reject']).default('off'),
+  QUERY_MAX_COST: z.coerce.number().int().min(1).default(100000),
+  QUERY_MAX_CARDINALITY: z.coerce.number().int().min(1).default(10000000),
+  NUMBER_AS_STRING: z.enum(['auto', 'always', 'never']).default('auto'),
+  TEMPORAL_FORMAT: z.enum(['local', 'iso']).default('local'),
+  LOB_MAX_BYTES: z.coerce.number().int().min(0).default(4096),
+  BLOB_PREFIX_BYTES: z.coerce.number().int().min(0).max(65536).default(0),
+  BLOB_HASH_MAX_BYTES: z.coerce.number().int().min(0).default(10 * 1024 * 1024),
+  ACCESS_POLICY_FILE: z.string().optional(),
+  REDACTION_HASH_KEY: z.string().min(16).optional(),
+  EXPORT_DIR: z.string().optional(),
+  EXPORT_MAX_ROWS: z.coerce.number().int().min(1).default(1000000),
+  EXPORT_MAX_BYTES: z.coerce.number().int().min(1).default(1024 * 1024 * 1024),
   MCP_MAX_RESPONSE_CHARS: z.coerce.number().int().min(500).default(50000),
   MCP_MAX_ROWS_IN_RESPONSE: z.coerce.number().int().min(1).default(100),
   MCP_MAX_STRING_LENGTH: z.coerce.number().int().min(50).default(300),
+  MCP_RESPONSE_ENCODING: z.enum(['json', 'columnar', 'csv', 'markdown']).default('json'),
+  MCP_MAX_RESPONSE_TOKENS: z.coerce.number().int().min(100).optional(),
+  // Per-tool token budgets, e.g. "query_database=8000,listTables=2000"
+  MCP_TOOL_TOKEN_BUDGETS: z
+    .string()
+    .default('')
+    .transform((value, ctx) => {
+      const budgets: Record<string, number> = {};
+      for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+        const match = /^([\w/.-]+)\s*=\s*(\d+)$/.exec(entry);
+        if (!match || Number(match[2]) < 100) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `MCP_TOOL_TOKEN_BUDGETS entry "${entry}" must look like tool_name=8000 (at least 100 tokens)`,
+          });
+          return z.NEVER;
+        }
+        budgets[match[1]] = Number(match[2]);
+      }
+      return budgets;
+    }),
+  MCP_TOKEN_ESTIMATOR: z.enum(['heuristic', 'chars']).default('heuristic'),
+  RESULT_RESOURCE_TTL_MS: z.coerce.number().int().min(1000).default(10 * 60 * 1000),
+  RESULT_RESOURCE_MAX: z.coerce.number().int().min(0).default(20),
+  // How often user_objects.last_ddl_time is polled for schema resource changes; 0 turns it off
+  SCHEMA_WATCH_INTERVAL_MS: z.coerce.number().int().min(0).default(60 * 1000),
   LOG_LEVEL: z.string().default('info'),
   ENABLE_AUDIT_LOGGING: z.coerce.boolean().default(true),
   ORACLE_TIMEZONE: z
@@ -32,7 +72,20 @@ export const configSchema = z.object({
       },
       { message: 'ORACLE_TIMEZONE must be a valid IANA timezone (e.g. America/New_York, UTC, Asia/Shanghai)' }
     ),
-  MCP_TRANSPORT: z.string().default('stdio'),
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  MCP_HTTP_HOST: z.string().default('127.0.0.1'),
+  MCP_HTTP_PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  MCP_HTTP_PATH: z.string().startsWith('/').default('/mcp'),
+  // HTTP sessions without a request or open stream for this long are closed
+  MCP_HTTP_SESSION_IDLE_TTL_MS: z.coerce.number().int().min(1000).default(30 * 60 * 1000),
+  // Bearer token HTTP clients must send; unset leaves the endpoint open to anyone who can reach it
+  MCP_HTTP_AUTH_TOKEN: z.string().min(16).optional(),
+  // Host header values accepted over HTTP, e.g. "mcp.example.com,mcp.example.com:8443"; empty accepts loopback names only
+  MCP_HTTP_ALLOWED_HOSTS: z
+    .string()
+    .default('')
+    .transform((value) => value.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean)),
+  MCP_HTTP_DNS_REBINDING_PROTECTION: z.enum(['on', 'off']).default('on'),
   SERVER_NAME: z.string().default('oracle-mcp-server'),
   SERVER_VERSION: z.string().default('1.0.0'),
 });
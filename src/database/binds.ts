@@ -0,0 +1,96 @@
+/**
+ * Bind variable helpers for executeQuery
+ *
+ * Oracle SQL placeholders are `:name` or `:1`. For SQL statements (not PL/SQL)
+ * positional binds match placeholder occurrences in order, so a repeated
+ * `:id` needs one array entry per occurrence; named binds need one key per
+ * distinct name.
+ */
+
+import { tokenizeSql } from './sqlLexer.js';
+
+export type BindValue = string | number | Date | null;
+export type BindParameters = BindValue[] | Record<string, BindValue>;
+
+export interface BindPlaceholder {
+  /** Placeholder name as written, without the leading colon */
+  name: string;
+  /** Character offset of the colon in the SQL text */
+  offset: number;
+}
+
+/**
+ * Find bind placeholders in SQL text, skipping string literals, quoted
+ * identifiers and comments.
+ */
+export function extractBindPlaceholders(sql: string): BindPlaceholder[] {
+  return tokenizeSql(sql)
+    .filter((token) => token.type === 'bind')
+    .map((token) => ({ name: token.text.slice(1), offset: token.start }));
+}
+
+/**
+ * Check that the supplied binds line up with the placeholders in `sql`.
+ * Throws with a message naming the missing or unexpected binds.
+ */
+export function validateBinds(sql: string, binds: BindParameters = []): void {
+  const placeholders = extractBindPlaceholders(sql);
+
+  if (Array.isArray(binds)) {
+    if (binds.length !== placeholders.length) {
+      const names = placeholders.map((p) => `:${p.name}`).join(', ') || 'none';
+      throw new Error(
+        `Expected ${placeholders.length} positional bind value(s) for placeholders (${names}) but received ${binds.length}`
+      );
+    }
+    return;
+  }
+
+  const expected = new Set(placeholders.map((p) => p.name.toUpperCase()));
+  const provided = new Set(Object.keys(binds).map((key) => key.replace(/^:/, '').toUpperCase()));
+
+  const missing = [...expected].filter((name) => !provided.has(name));
+  const unexpected = [...provided].filter((name) => !expected.has(name));
+
+  if (missing.length > 0 || unexpected.length > 0) {
+    const details = [
+      missing.length > 0 ? `missing value(s) for ${missing.map((n) => `:${n}`).join(', ')}` : '',
+      unexpected.length > 0 ? `no placeholder(s) for ${unexpected.map((n) => `:${n}`).join(', ')}` : '',
+    ].filter(Boolean).join('; ');
+    throw new Error(`Bind variables do not match query placeholders: ${details}`);
+  }
+}
+
+/**
+ * Normalize named bind keys (strip a leading colon) for node-oracledb
+ */
+export function toOracleBinds(binds: BindParameters = []): BindParameters {
+  if (Array.isArray(binds)) {
+    return binds;
+  }
+
+  const normalized: Record<string, BindValue> = {};
+  for (const [key, value] of Object.entries(binds)) {
+    normalized[key.replace(/^:/, '')] = value;
+  }
+  return normalized;
+}
+
+/**
+ * Compact, log-safe representation of bind values for the audit trail
+ */
+export function summarizeBinds(binds: BindParameters = [], maxValueLength = 100): unknown {
+  const summarize = (value: BindValue): unknown => {
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'string' && value.length > maxValueLength) {
+      return `${value.slice(0, maxValueLength)}... [${value.length} chars]`;
+    }
+    return value;
+  };
+
+  if (Array.isArray(binds)) {
+    return binds.map(summarize);
+  }
+
+  return Object.fromEntries(Object.entries(binds).map(([key, value]) => [key, summarize(value)]));
+}
@@ -0,0 +1,78 @@
+import logger, { audit } from '../utils/logger.js';
+import { QueryCancelledError } from './errors.js';
+import type { OracleConnection } from './types.js';
+
+/**
+ * Identifies the MCP request a database call runs on behalf of.
+ * `signal` is aborted when the client sends notifications/cancelled.
+ */
+export interface ExecutionContext {
+  requestId?: string | number;
+  sessionId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Throw QueryCancelledError if the request has already been cancelled
+ */
+export function throwIfCancelled(context: ExecutionContext | undefined, operation: string): void {
+  if (context?.signal?.aborted) {
+    throw new QueryCancelledError(operation);
+  }
+}
+
+/**
+ * True when the error (or the request it belongs to) is a cancellation
+ */
+export function isCancellation(context: ExecutionContext | undefined, err: unknown): boolean {
+  return err instanceof QueryCancelledError || context?.signal?.aborted === true;
+}
+
+/**
+ * Watch the request in `context` while `connection` runs `operation`.
+ * Throws QueryCancelledError if the request was already cancelled. If the
+ * request is cancelled later, the in-progress Oracle call is broken with
+ * `connection.break()`; the caller's finally block still releases the
+ * connection. Returns the function that stops watching.
+ */
+export function trackExecution(
+  context: ExecutionContext | undefined,
+  connection: OracleConnection,
+  operation: string
+): () => void {
+  throwIfCancelled(context, operation);
+
+  const signal = context?.signal;
+  if (!signal) {
+    return () => {};
+  }
+
+  const startTime = Date.now();
+  const onAbort = () => {
+    const elapsedMs = Date.now() - startTime;
+
+    logger.info('Cancelling in-flight Oracle call', {
+      requestId: context?.requestId,
+      operation,
+      elapsedMs,
+    });
+
+    audit('Query cancelled by client', {
+      requestId: context?.requestId,
+      sessionId: context?.sessionId,
+      operation,
+      elapsedMs,
+      reason: signal.reason instanceof Error ? signal.reason.message : signal.reason,
+    });
+
+    connection.break().catch((err: any) => {
+      logger.error('Error breaking cancelled Oracle call', { operation, error: err?.message ?? err });
+    });
+  };
+
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  return () => {
+    signal.removeEventListener('abort', onAbort);
+  };
+}
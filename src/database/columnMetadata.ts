@@ -0,0 +1,58 @@
+import { TEMPORAL_TYPE_NAMES } from './temporal.js';
+import type { ColumnConversion, ColumnMetadata, LobColumnSummary } from './types.js';
+
+/** Column fields node-oracledb reports in `result.metaData` */
+export interface DriverColumnInfo {
+  name: string;
+  dbTypeName?: string;
+  nullable?: boolean;
+  precision?: number;
+  scale?: number;
+  byteSize?: number;
+}
+
+// The driver reports unconstrained NUMBER / FLOAT with these placeholders
+const NO_PRECISION = 0;
+const NO_SCALE = -127;
+
+function conversionFor(
+  column: DriverColumnInfo,
+  stringifiedColumns: string[],
+  lobColumns: Record<string, LobColumnSummary> | undefined
+): ColumnConversion | undefined {
+  const type = column.dbTypeName ?? '';
+  // Fetched through executeQuery's fetchTypeHandler as formatted strings
+  if (TEMPORAL_TYPE_NAMES.has(type)) return type.startsWith('INTERVAL') ? 'interval-duration' : 'datetime-string';
+  if (type === 'NUMBER' && stringifiedColumns.includes(column.name)) return 'number-string';
+
+  const lob = lobColumns?.[column.name];
+  if (lob) return lob.unit === 'bytes' ? 'binary-summary' : 'text-preview';
+  return undefined;
+}
+
+/**
+ * Describe each result column from the driver's metadata, including how
+ * executeQuery changed its values on the way out.
+ */
+export function describeColumns(
+  metaData: DriverColumnInfo[] | undefined,
+  stringifiedColumns: string[] = [],
+  lobColumns?: Record<string, LobColumnSummary>
+): ColumnMetadata[] {
+  return (metaData ?? []).map((column) => {
+    const described: ColumnMetadata = {
+      name: column.name,
+      type: column.dbTypeName ?? 'UNKNOWN',
+    };
+
+    if (column.nullable !== undefined) described.nullable = column.nullable;
+    if (column.precision !== undefined && column.precision !== NO_PRECISION) described.precision = column.precision;
+    if (column.scale !== undefined && column.scale !== NO_SCALE) described.scale = column.scale;
+    if (column.byteSize !== undefined) described.byteSize = column.byteSize;
+
+    const conversion = conversionFor(column, stringifiedColumns, lobColumns);
+    if (conversion) described.conversion = conversion;
+
+    return described;
+  });
+}
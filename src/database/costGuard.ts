@@ -0,0 +1,125 @@
+import getConfig from '../config.js';
+import logger, { audit } from '../utils/logger.js';
+import { isCancellation, type ExecutionContext } from './cancellation.js';
+import { QueryCostExceededError } from './errors.js';
+import { readExecutionPlan } from './explainPlan.js';
+import type { CostEstimate, OracleConnection, PlanLineSummary, PlanNode } from './types.js';
+
+const config = getConfig();
+
+const MAX_REPORTED_LINES = 3;
+
+function flattenPlan(node: PlanNode): PlanNode[] {
+  return [node, ...node.children.flatMap(flattenPlan)];
+}
+
+function describeLine(line: PlanLineSummary): string {
+  const target = line.object ? ` ${line.object}` : '';
+  const rows = line.cardinality !== undefined ? `, ~${line.cardinality} rows` : '';
+  return `#${line.id} ${line.operation}${target} (cost ${line.selfCost}${rows})`;
+}
+
+/**
+ * The plan lines that contribute most to the total cost.
+ *
+ * Plan costs are cumulative, so each line is ranked by its own share: its
+ * cost minus its children's. Cartesian joins are always reported.
+ */
+export function findCostliestLines(plan: PlanNode, limit = MAX_REPORTED_LINES): PlanLineSummary[] {
+  const lines = flattenPlan(plan).map((node) => {
+    const childCost = node.children.reduce((sum, child) => sum + (child.cost ?? 0), 0);
+    const summary: PlanLineSummary = {
+      id: node.id,
+      operation: [node.operation, node.options].filter(Boolean).join(' '),
+      selfCost: Math.max(0, (node.cost ?? 0) - childCost),
+    };
+    if (node.objectName) summary.object = node.objectOwner ? `${node.objectOwner}.${node.objectName}` : node.objectName;
+    if (node.cost !== undefined) summary.cost = node.cost;
+    if (node.cardinality !== undefined) summary.cardinality = node.cardinality;
+    return summary;
+  });
+
+  const cartesian = lines.filter((line) => line.operation.includes('CARTESIAN'));
+  const ranked = lines
+    .filter((line) => line.selfCost > 0 && !cartesian.includes(line))
+    .sort((a, b) => b.selfCost - a.selfCost);
+
+  return [...cartesian, ...ranked].slice(0, Math.max(limit, cartesian.length));
+}
+
+/**
+ * Compare a plan's estimates with QUERY_MAX_COST / QUERY_MAX_CARDINALITY.
+ * Returns undefined when the plan is within both thresholds.
+ */
+export function assessPlanCost(plan: PlanNode): CostEstimate | undefined {
+  const problems: string[] = [];
+
+  if (plan.cost !== undefined && plan.cost > config.QUERY_MAX_COST) {
+    problems.push(`estimated cost ${plan.cost} exceeds QUERY_MAX_COST (${config.QUERY_MAX_COST})`);
+  }
+  if (plan.cardinality !== undefined && plan.cardinality > config.QUERY_MAX_CARDINALITY) {
+    problems.push(`estimated ${plan.cardinality} rows exceeds QUERY_MAX_CARDINALITY (${config.QUERY_MAX_CARDINALITY})`);
+  }
+
+  if (problems.length === 0) {
+    return undefined;
+  }
+
+  const costliestLines = findCostliestLines(plan);
+  const lineText = costliestLines.length > 0 ? ` Costliest plan lines: ${costliestLines.map(describeLine).join('; ')}.` : '';
+
+  return {
+    message: `Query plan is too expensive: ${problems.join('; ')}.${lineText}`,
+    cost: plan.cost,
+    cardinality: plan.cardinality,
+    maxCost: config.QUERY_MAX_COST,
+    maxCardinality: config.QUERY_MAX_CARDINALITY,
+    costliestLines,
+  };
+}
+
+/**
+ * Pre-execution cost guard (QUERY_COST_GUARD).
+ *
+ * Reads the optimizer's plan on `connection` and compares it with the
+ * thresholds. In `reject` mode an expensive plan throws
+ * QueryCostExceededError; in `warn` mode the estimate is returned so it can
+ * be attached to the result. If the plan cannot be read the query is allowed
+ * to run: the guard protects shared capacity, it is not an access control.
+ */
+export async function checkQueryCost(
+  connection: OracleConnection,
+  query: string,
+  context?: ExecutionContext
+): Promise<CostEstimate | undefined> {
+  if (config.QUERY_COST_GUARD === 'off') {
+    return undefined;
+  }
+
+  let plan: PlanNode;
+  try {
+    plan = (await readExecutionPlan(connection, query, context)).plan;
+  } catch (err: any) {
+    if (isCancellation(context, err)) throw err;
+    logger.warn('Cost guard could not read the execution plan; running query unchecked', { error: err.message });
+    return undefined;
+  }
+
+  const estimate = assessPlanCost(plan);
+  if (!estimate) {
+    return undefined;
+  }
+
+  if (config.QUERY_COST_GUARD === 'reject') {
+    audit('Query rejected by cost guard', {
+      query: query.substring(0, 500),
+      cost: estimate.cost,
+      cardinality: estimate.cardinality,
+      costliestLines: estimate.costliestLines,
+    });
+    throw new QueryCostExceededError(estimate);
+  }
+
+  logger.warn('Query exceeds cost guard thresholds', { cost: estimate.cost, cardinality: estimate.cardinality });
+  return estimate;
+}
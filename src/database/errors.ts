@@ -0,0 +1,49 @@
+/**
+ * Error types raised by the database layer that tools surface as structured results
+ */
+
+import type { CostEstimate, PlanLineSummary } from './types.js';
+
+/**
+ * The statement was stopped because it ran longer than its timeout
+ */
+export class QueryTimeoutError extends Error {
+  constructor(
+    public readonly timeoutMs: number,
+    public readonly elapsedMs: number
+  ) {
+    super(`Query timed out after ${elapsedMs} ms (timeout: ${timeoutMs} ms)`);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+/**
+ * The MCP client cancelled the request while the statement was running
+ */
+export class QueryCancelledError extends Error {
+  constructor(public readonly operation: string) {
+    super(`${operation} was cancelled by the client`);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+/**
+ * QUERY_COST_GUARD=reject and the optimizer's estimates exceeded a threshold
+ */
+export class QueryCostExceededError extends Error {
+  public readonly cost?: number;
+  public readonly cardinality?: number;
+  public readonly maxCost: number;
+  public readonly maxCardinality: number;
+  public readonly costliestLines: PlanLineSummary[];
+
+  constructor(estimate: CostEstimate) {
+    super(estimate.message);
+    this.name = 'QueryCostExceededError';
+    this.cost = estimate.cost;
+    this.cardinality = estimate.cardinality;
+    this.maxCost = estimate.maxCost;
+    this.maxCardinality = estimate.maxCardinality;
+    this.costliestLines = estimate.costliestLines;
+  }
+}
@@ -0,0 +1,271 @@
+import { randomUUID } from 'node:crypto';
+import oracledb from 'oracledb';
+import getConfig from '../config.js';
+import logger, { audit } from '../utils/logger.js';
+import { isCancellation, throwIfCancelled, trackExecution, type ExecutionContext } from './cancellation.js';
+import { QueryCancelledError } from './errors.js';
+import { getConnection } from './oracleConnection.js';
+import { ensureReadOnlyQuery } from './readOnlyGuard.js';
+import { stripTrailingSeparator } from './sqlLexer.js';
+import type { ExplainPlanResult, OracleConnection, PlanNode } from './types.js';
+
+const config = getConfig();
+
+// EXPLAIN PLAN could not write PLAN_TABLE: missing table, no privilege, read-only database or transaction
+const PLAN_TABLE_UNAVAILABLE_PATTERN = /\bORA-(00942|01031|01456|16000)\b/;
+
+// Columns shared by PLAN_TABLE and V$SQL_PLAN
+const PLAN_COLUMNS = `
+  id, parent_id, operation, options, object_owner, object_name, object_type,
+  cost, cardinality, bytes, time, access_predicates, filter_predicates
+`;
+
+interface PlanRow {
+  ID: number;
+  PARENT_ID: number | null;
+  OPERATION: string;
+  OPTIONS: string | null;
+  OBJECT_OWNER: string | null;
+  OBJECT_NAME: string | null;
+  OBJECT_TYPE: string | null;
+  COST: number | null;
+  CARDINALITY: number | null;
+  BYTES: number | null;
+  TIME: number | null;
+  ACCESS_PREDICATES: string | null;
+  FILTER_PREDICATES: string | null;
+}
+
+interface PlanSource {
+  source: ExplainPlanResult['source'];
+  rows: PlanRow[];
+  text?: string[];
+}
+
+/**
+ * Assemble plan rows into a tree rooted at the statement operation (id 0)
+ */
+export function buildPlanTree(rows: PlanRow[]): PlanNode {
+  const nodes = new Map<number, PlanNode>();
+
+  for (const row of rows) {
+    const node: PlanNode = { id: row.ID, operation: row.OPERATION, children: [] };
+    if (row.OPTIONS) node.options = row.OPTIONS;
+    if (row.OBJECT_OWNER) node.objectOwner = row.OBJECT_OWNER;
+    if (row.OBJECT_NAME) node.objectName = row.OBJECT_NAME;
+    if (row.OBJECT_TYPE) node.objectType = row.OBJECT_TYPE;
+    if (row.COST !== null) node.cost = row.COST;
+    if (row.CARDINALITY !== null) node.cardinality = row.CARDINALITY;
+    if (row.BYTES !== null) node.bytes = row.BYTES;
+    if (row.TIME !== null) node.time = row.TIME;
+    if (row.ACCESS_PREDICATES) node.accessPredicates = row.ACCESS_PREDICATES;
+    if (row.FILTER_PREDICATES) node.filterPredicates = row.FILTER_PREDICATES;
+    nodes.set(row.ID, node);
+  }
+
+  let root: PlanNode | undefined;
+  for (const row of rows) {
+    const node = nodes.get(row.ID)!;
+    const parent = row.PARENT_ID === null ? undefined : nodes.get(row.PARENT_ID);
+    if (parent) {
+      parent.children.push(node);
+    } else if (!root) {
+      root = node;
+    }
+  }
+
+  if (!root) {
+    throw new Error('Execution plan is empty');
+  }
+  return root;
+}
+
+async function readPlanText(connection: OracleConnection, sql: string, binds: Record<string, unknown>): Promise<string[] | undefined> {
+  try {
+    const result = await connection.execute(sql, binds, { outFormat: oracledb.OUT_FORMAT_OBJECT, maxRows: 1000 });
+    return (result.rows as Array<{ PLAN_TABLE_OUTPUT: string | null }>).map((row) => row.PLAN_TABLE_OUTPUT ?? '');
+  } catch (err: any) {
+    // The structured plan is what callers rely on; the text is a convenience
+    logger.warn('Could not read DBMS_XPLAN output', { error: err.message });
+    return undefined;
+  }
+}
+
+/**
+ * EXPLAIN PLAN into PLAN_TABLE under a unique statement ID, read it back and
+ * roll back so the plan rows never persist.
+ */
+async function explainWithPlanTable(
+  connection: OracleConnection,
+  query: string,
+  context: ExecutionContext | undefined
+): Promise<PlanSource> {
+  // Hex only, so it is safe to inline (STATEMENT_ID cannot be bound); PLAN_TABLE allows 30 chars
+  const statementId = `MCP_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+
+  try {
+    await connection.execute(`EXPLAIN PLAN SET STATEMENT_ID = '${statementId}' FOR\n${query}`);
+
+    throwIfCancelled(context, 'Explain plan');
+    const result = await connection.execute(
+      `SELECT ${PLAN_COLUMNS} FROM plan_table WHERE statement_id = :statementId ORDER BY id`,
+      { statementId },
+      { outFormat: oracledb.OUT_FORMAT_OBJECT, maxRows: 10000 }
+    );
+
+    throwIfCancelled(context, 'Explain plan');
+    const text = await readPlanText(
+      connection,
+      `SELECT plan_table_output FROM TABLE(DBMS_XPLAN.DISPLAY('PLAN_TABLE', :statementId, 'TYPICAL'))`,
+      { statementId }
+    );
+
+    return { source: 'PLAN_TABLE', rows: result.rows as PlanRow[], text };
+  } finally {
+    await connection.rollback().catch((err: any) => {
+      logger.error('Error rolling back EXPLAIN PLAN rows', { error: err?.message ?? err });
+    });
+  }
+}
+
+/**
+ * Parse the statement without executing it, then read the plan of the
+ * resulting cursor from V$SQL_PLAN. Needs SELECT on V$SQL and V$SQL_PLAN.
+ */
+async function explainWithCursorCache(
+  connection: OracleConnection,
+  query: string,
+  context: ExecutionContext | undefined
+): Promise<PlanSource> {
+  // A unique leading comment makes the parsed cursor easy to find in V$SQL
+  const tag = `/* mcp-explain:${randomUUID()} */`;
+  await connection.getStatementInfo(`${tag}\n${query}`);
+
+  throwIfCancelled(context, 'Explain plan');
+  const cursorResult = await connection.execute(
+    `SELECT sql_id, child_number FROM v$sql WHERE sql_text LIKE :pattern ORDER BY last_load_time DESC FETCH FIRST 1 ROWS ONLY`,
+    { pattern: `${tag}%` },
+    { outFormat: oracledb.OUT_FORMAT_OBJECT }
+  );
+
+  const cursor = (cursorResult.rows as Array<{ SQL_ID: string; CHILD_NUMBER: number }>)[0];
+  if (!cursor) {
+    throw new Error('The statement was parsed but its cursor was not found in V$SQL');
+  }
+
+  const binds = { sqlId: cursor.SQL_ID, childNumber: cursor.CHILD_NUMBER };
+
+  throwIfCancelled(context, 'Explain plan');
+  const result = await connection.execute(
+    `SELECT ${PLAN_COLUMNS} FROM v$sql_plan WHERE sql_id = :sqlId AND child_number = :childNumber ORDER BY id`,
+    binds,
+    { outFormat: oracledb.OUT_FORMAT_OBJECT, maxRows: 10000 }
+  );
+
+  throwIfCancelled(context, 'Explain plan');
+  const text = await readPlanText(
+    connection,
+    `SELECT plan_table_output FROM TABLE(DBMS_XPLAN.DISPLAY_CURSOR(:sqlId, :childNumber, 'TYPICAL'))`,
+    binds
+  );
+
+  return { source: 'V$SQL_PLAN', rows: result.rows as PlanRow[], text };
+}
+
+/**
+ * Read the optimizer's plan for `query` on an already-open connection.
+ *
+ * Uses EXPLAIN PLAN + DBMS_XPLAN.DISPLAY, and falls back to parsing the
+ * statement and reading V$SQL_PLAN when PLAN_TABLE cannot be written (no
+ * privilege, read-only standby). Bind placeholders need no values: the
+ * optimizer plans them as unknown VARCHAR2 binds. The caller is responsible
+ * for the read-only check.
+ */
+export async function readExecutionPlan(
+  connection: OracleConnection,
+  query: string,
+  context?: ExecutionContext
+): Promise<Omit<ExplainPlanResult, 'executionTime'>> {
+  const statement = stripTrailingSeparator(query.trim());
+
+  let planSource: PlanSource;
+  try {
+    planSource = await explainWithPlanTable(connection, statement, context);
+  } catch (planErr: any) {
+    if (isCancellation(context, planErr) || !PLAN_TABLE_UNAVAILABLE_PATTERN.test(planErr.message ?? '')) {
+      throw planErr;
+    }
+
+    logger.info('EXPLAIN PLAN unavailable, falling back to V$SQL_PLAN', { error: planErr.message });
+    try {
+      planSource = await explainWithCursorCache(connection, statement, context);
+    } catch (cursorErr: any) {
+      if (isCancellation(context, cursorErr)) throw cursorErr;
+      throw new Error(`EXPLAIN PLAN failed (${planErr.message}) and the V$SQL_PLAN fallback failed (${cursorErr.message})`);
+    }
+  }
+
+  const plan = buildPlanTree(planSource.rows);
+  const result: Omit<ExplainPlanResult, 'executionTime'> = {
+    source: planSource.source,
+    cost: plan.cost,
+    cardinality: plan.cardinality,
+    plan,
+    lineCount: planSource.rows.length,
+  };
+  if (planSource.text) result.text = planSource.text;
+  return result;
+}
+
+/**
+ * Get the optimizer's execution plan for a read-only query without running it
+ */
+export async function explainPlan(query: string, options: { context?: ExecutionContext } = {}): Promise<ExplainPlanResult> {
+  const startTime = Date.now();
+
+  if (query.length > config.MAX_QUERY_LENGTH) {
+    throw new Error(`Query exceeds maximum length of ${config.MAX_QUERY_LENGTH} characters`);
+  }
+
+  ensureReadOnlyQuery(query);
+
+  let connection;
+  let untrack: (() => void) | undefined;
+
+  try {
+    connection = await getConnection();
+    untrack = trackExecution(options.context, connection, 'Explain plan');
+
+    const explained = await readExecutionPlan(connection, query, options.context);
+    const executionTime = Date.now() - startTime;
+
+    audit('Query explained', {
+      query: query.substring(0, 500),
+      source: explained.source,
+      cost: explained.cost,
+      cardinality: explained.cardinality,
+      executionTime,
+    });
+
+    return { ...explained, executionTime };
+  } catch (err: any) {
+    if (isCancellation(options.context, err)) {
+      throw err instanceof QueryCancelledError ? err : new QueryCancelledError('Explain plan');
+    }
+
+    logger.error('Explain plan failed', { error: err.message });
+    audit('Explain plan failed', { error: err.message, query: query.substring(0, 500) });
+    throw new Error(`Explain plan failed: ${err.message}`);
+  } finally {
+    untrack?.();
+
+    // Always release connection back to pool
+    if (connection) {
+      try {
+        await connection.close();
+      } catch (err) {
+        logger.error('Error releasing connection', { error: err });
+      }
+    }
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Size-aware reading of CLOB, NCLOB, BLOB, LONG and LONG RAW values
+ *
+ * The driver returns LOB columns as Lob objects that are only readable while
+ * the connection is open. Each one is replaced in the row, before the
+ * connection is released, by:
+ *
+ *   CLOB / NCLOB / LONG  the text, cut to LOB_MAX_BYTES (UTF-8)
+ *   BLOB / LONG RAW      { size, sha256, base64Prefix } where sha256 is
+ *                        omitted above BLOB_HASH_MAX_BYTES and base64Prefix
+ *                        holds the first BLOB_PREFIX_BYTES bytes
+ *
+ * Only the needed part of a CLOB is fetched. LONG and LONG RAW cannot be read
+ * in pieces, so they are cut after the driver has fetched them.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Lob } from 'oracledb';
+import getConfig from '../config.js';
+import type { BinaryValueSummary, LobColumnSummary } from './types.js';
+
+const config = getConfig();
+
+const TEXT_TYPES = new Set(['CLOB', 'NCLOB', 'LONG']);
+const BINARY_TYPES = new Set(['BLOB', 'LONG RAW']);
+
+function isLob(value: unknown): value is Lob {
+  return typeof value === 'object' && value !== null && typeof (value as Lob).getData === 'function';
+}
+
+/**
+ * Longest prefix of `text` that fits in `maxBytes` of UTF-8, without splitting a character
+ */
+export function clipUtf8(text: string, maxBytes: number): string {
+  if (Buffer.byteLength(text, 'utf8') <= maxBytes) return text;
+
+  let end = Math.min(text.length, maxBytes);
+  while (end > 0 && Buffer.byteLength(text.slice(0, end), 'utf8') > maxBytes) {
+    end -= 1;
+  }
+  // Do not end on the first half of a surrogate pair
+  const last = text.charCodeAt(end - 1);
+  if (last >= 0xd800 && last <= 0xdbff) end -= 1;
+  return text.slice(0, end);
+}
+
+async function readText(value: unknown): Promise<{ text: string; length: number }> {
+  if (!isLob(value)) {
+    const text = String(value);
+    return { text: clipUtf8(text, config.LOB_MAX_BYTES), length: text.length };
+  }
+
+  try {
+    const length = value.length;
+    // CLOB offsets and amounts count characters, and a character takes at least one byte
+    const amount = Math.min(length, config.LOB_MAX_BYTES);
+    const data = amount > 0 ? String(await value.getData(1, amount)) : '';
+    return { text: clipUtf8(data, config.LOB_MAX_BYTES), length };
+  } finally {
+    value.destroy();
+  }
+}
+
+async function readBinary(value: unknown): Promise<BinaryValueSummary> {
+  let data: Buffer | undefined;
+  let size: number;
+
+  if (isLob(value)) {
+    try {
+      size = value.length;
+      const needed = size <= config.BLOB_HASH_MAX_BYTES ? size : Math.min(size, config.BLOB_PREFIX_BYTES);
+      data = needed > 0 ? ((await value.getData(1, needed)) as Buffer) : Buffer.alloc(0);
+    } finally {
+      value.destroy();
+    }
+  } else {
+    data = Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+    size = data.length;
+  }
+
+  const summary: BinaryValueSummary = { size };
+  if (size <= config.BLOB_HASH_MAX_BYTES) {
+    summary.sha256 = createHash('sha256').update(data).digest('hex');
+  }
+  if (config.BLOB_PREFIX_BYTES > 0 && size > 0) {
+    summary.base64Prefix = data.subarray(0, config.BLOB_PREFIX_BYTES).toString('base64');
+  }
+  return summary;
+}
+
+/**
+ * Replace LOB and LONG values in `rows` (in place) and summarize what was left out.
+ *
+ * Must run before the connection that produced the rows is closed.
+ * Returns undefined when the result has no such columns.
+ */
+export async function readLobValues(
+  rows: Record<string, any>[],
+  metaData: Array<{ name: string; dbTypeName?: string }> | undefined
+): Promise<Record<string, LobColumnSummary> | undefined> {
+  const lobColumns = (metaData ?? []).filter(
+    (column) => TEXT_TYPES.has(column.dbTypeName ?? '') || BINARY_TYPES.has(column.dbTypeName ?? '')
+  );
+  if (lobColumns.length === 0) return undefined;
+
+  const summaries: Record<string, LobColumnSummary> = {};
+
+  for (const column of lobColumns) {
+    const binary = BINARY_TYPES.has(column.dbTypeName!);
+    const summary: LobColumnSummary = {
+      type: column.dbTypeName!,
+      values: 0,
+      truncatedValues: 0,
+      omitted: 0,
+      unit: binary ? 'bytes' : 'chars',
+    };
+
+    for (const row of rows) {
+      const value = row[column.name];
+      if (value === null || value === undefined) continue;
+      summary.values += 1;
+
+      if (binary) {
+        const binarySummary = await readBinary(value);
+        row[column.name] = binarySummary;
+        const returned = binarySummary.base64Prefix ? Math.min(binarySummary.size, config.BLOB_PREFIX_BYTES) : 0;
+        summary.omitted += binarySummary.size - returned;
+        if (returned < binarySummary.size) summary.truncatedValues += 1;
+      } else {
+        const { text, length } = await readText(value);
+        row[column.name] = text;
+        summary.omitted += length - text.length;
+        if (text.length < length) summary.truncatedValues += 1;
+      }
+    }
+
+    summaries[column.name] = summary;
+  }
+
+  return summaries;
+}
+
+/**
+ * Add one batch's LOB summaries to the running totals of a streamed result
+ */
+export function mergeLobSummaries(
+  totals: Record<string, LobColumnSummary> | undefined,
+  batch: Record<string, LobColumnSummary> | undefined
+): Record<string, LobColumnSummary> | undefined {
+  if (!batch) return totals;
+  if (!totals) return batch;
+
+  for (const [column, summary] of Object.entries(batch)) {
+    const total = totals[column];
+    total.values += summary.values;
+    total.truncatedValues += summary.truncatedValues;
+    total.omitted += summary.omitted;
+  }
+  return totals;
+}
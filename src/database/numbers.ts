@@ -0,0 +1,83 @@
+/**
+ * Lossless handling of Oracle NUMBER values (NUMBER_AS_STRING)
+ *
+ * NUMBER holds up to 38 significant digits; a JavaScript number holds about
+ * 15-17 and integers only up to 2^53. executeQuery fetches NUMBER columns as
+ * text and this module decides per column what to return:
+ *
+ *   auto    numbers, unless some value in the column would lose precision,
+ *           in which case the whole column stays text
+ *   always  every NUMBER column stays text
+ *   never   the driver's own conversion (may round)
+ *
+ * Deciding per column keeps a column's values one type across rows.
+ */
+
+import getConfig from '../config.js';
+
+const config = getConfig();
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// Sign, significant digits and exponent, so "1.50", "15E-1" and "1.5" compare equal
+function canonicalDecimal(text: string): string | undefined {
+  const match = DECIMAL_PATTERN.exec(text.trim());
+  if (!match || (match[2] === '' && (match[3] ?? '') === '')) return undefined;
+
+  const [, sign, integer, fraction = '', exponent = '0'] = match;
+  let digits = (integer + fraction).replace(/^0+/, '');
+  let scale = Number(exponent) - fraction.length;
+  if (digits === '') return '0';
+
+  const trailingZeros = digits.length - digits.replace(/0+$/, '').length;
+  digits = digits.slice(0, digits.length - trailingZeros);
+  scale += trailingZeros;
+
+  return `${sign === '-' ? '-' : ''}${digits}e${scale}`;
+}
+
+/**
+ * True when `text` survives conversion to a JavaScript number unchanged
+ */
+export function isLosslessNumber(text: string): boolean {
+  const value = Number(text);
+  if (!Number.isFinite(value)) return false;
+
+  const original = canonicalDecimal(text);
+  return original !== undefined && original === canonicalDecimal(String(value));
+}
+
+/**
+ * NUMBER columns executeQuery fetches as text (none when NUMBER_AS_STRING=never)
+ */
+export function textNumberColumns(metaData: Array<{ name: string; dbTypeName?: string }> | undefined): string[] {
+  if (config.NUMBER_AS_STRING === 'never') return [];
+  return (metaData ?? []).filter((column) => column.dbTypeName === 'NUMBER').map((column) => column.name);
+}
+
+/**
+ * Convert NUMBER columns fetched as text according to NUMBER_AS_STRING.
+ * Columns in `keepAsText` stay strings in auto mode whatever their values.
+ * Rows are updated in place; returns the columns left as strings.
+ */
+export function convertNumberColumns(
+  rows: Record<string, any>[],
+  metaData: Array<{ name: string; dbTypeName?: string }> | undefined,
+  keepAsText: string[] = []
+): string[] {
+  const numberColumns = textNumberColumns(metaData);
+  if (config.NUMBER_AS_STRING === 'always') return numberColumns;
+
+  const stringified: string[] = [];
+  for (const column of numberColumns) {
+    const lossless = rows.every((row) => typeof row[column] !== 'string' || isLosslessNumber(row[column]));
+    if (!lossless || keepAsText.includes(column)) {
+      stringified.push(column);
+      continue;
+    }
+    for (const row of rows) {
+      if (typeof row[column] === 'string') row[column] = Number(row[column]);
+    }
+  }
+  return stringified;
+}
@@ -43,11 +43,14 @@ export async function getOrCreatePool(): Promise<OraclePool> {
 }
 
 /**
- * Get a connection from the pool
+ * Get a connection from the pool.
+ * Each round trip is bounded by QUERY_TIMEOUT_MS unless the caller overrides callTimeout.
  */
 export async function getConnection() {
   const currentPool = await getOrCreatePool();
-  return currentPool.getConnection();
+  const connection = await currentPool.getConnection();
+  connection.callTimeout = config.QUERY_TIMEOUT_MS;
+  return connection;
 }
 
 /**
@@ -70,15 +73,3 @@ export async function closePool(): Promise<void> {
   }
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('Received SIGINT, shutting down gracefully');
-  await closePool();
-  process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-  logger.info('Received SIGTERM, shutting down gracefully');
-  await closePool();
-  process.exit(0);
-});
@@ -1,72 +1,85 @@
 import oracledb from 'oracledb';
 import getConfig from '../config.js';
 import logger, { audit } from '../utils/logger.js';
+import { summarizeBinds, toOracleBinds, validateBinds, type BindParameters } from './binds.js';
+import { isCancellation, trackExecution, type ExecutionContext } from './cancellation.js';
+import { describeColumns } from './columnMetadata.js';
+import { checkQueryCost } from './costGuard.js';
+import { QueryCancelledError, QueryCostExceededError, QueryTimeoutError } from './errors.js';
+import { mergeLobSummaries, readLobValues } from './lobs.js';
+import { convertNumberColumns, textNumberColumns } from './numbers.js';
 import { getConnection } from './oracleConnection.js';
-import type { QueryResult } from './types.js';
+import { ensureReadOnlyQuery } from './readOnlyGuard.js';
+import { applyIsoTimestampFormats, temporalFetchType } from './temporal.js';
+import type { LobColumnSummary, QueryResult, QueryRowSink } from './types.js';
 
-const config = getConfig();
-
-const WRITE_LOCK_PATTERN = /\bFOR\s+UPDATE\b/i;
-
-export function stripLeadingCommentsAndWhitespace(query: string): string {
-  let remaining = query;
-
-  while (true) {
-    const trimmed = remaining.trimStart();
-
-    if (trimmed.startsWith('--')) {
-      const newlineIndex = trimmed.indexOf('\n');
-      remaining = newlineIndex === -1 ? '' : trimmed.slice(newlineIndex + 1);
-      continue;
-    }
-
-    if (trimmed.startsWith('/*')) {
-      const blockEnd = trimmed.indexOf('*/');
-      if (blockEnd === -1) {
-        return '';
-      }
-      remaining = trimmed.slice(blockEnd + 2);
-      continue;
-    }
+export { ensureReadOnlyQuery, stripLeadingCommentsAndWhitespace } from './readOnlyGuard.js';
 
-    return trimmed;
-  }
-}
-
-export function ensureReadOnlyQuery(query: string): void {
-  if (!config.ENFORCE_READ_ONLY_QUERIES) {
-    return;
-  }
+const config = getConfig();
 
-  const normalized = stripLeadingCommentsAndWhitespace(query);
-  if (!normalized) {
-    throw new Error('Query cannot be empty after removing comments');
-  }
+// Driver errors meaning the statement was interrupted: call timeout (thin/thick) or user cancel
+const TIMEOUT_ERROR_PATTERN = /\b(NJS-123|DPI-1067|ORA-01013)\b/;
 
-  if (!/^SELECT\b/i.test(normalized)) {
-    throw new Error(
-      'Only SELECT statements are allowed when ENFORCE_READ_ONLY_QUERIES=true'
-    );
-  }
+// Rows fetched per round trip and handed to a sink at a time
+const STREAM_BATCH_ROWS = 1000;
 
-  if (WRITE_LOCK_PATTERN.test(normalized)) {
-    throw new Error(
-      'SELECT ... FOR UPDATE is not allowed when ENFORCE_READ_ONLY_QUERIES=true'
-    );
-  }
+/**
+ * Effective timeout for a call: the requested value, capped at QUERY_TIMEOUT_MS
+ */
+export function resolveQueryTimeout(requested?: number): number {
+  return Math.min(requested ?? config.QUERY_TIMEOUT_MS, config.QUERY_TIMEOUT_MS);
 }
 
 /**
- * Execute a read-only SELECT query with timeout and row limits
+ * Execute a read-only SELECT query with timeout and row limits.
+ *
+ * The timeout is enforced twice: `callTimeout` bounds every round trip inside
+ * the driver, and a deadline timer calls `connection.break()` so a fetch that
+ * spans several round trips cannot outlive it either. Either path surfaces
+ * as a QueryTimeoutError.
+ *
+ * When `context` carries the MCP request's abort signal, a client
+ * cancellation breaks the statement and surfaces as a QueryCancelledError.
+ *
+ * With `costGuard: true` the optimizer's plan is checked against
+ * QUERY_COST_GUARD thresholds first (see costGuard.ts).
+ *
+ * LOB and LONG values are read within the same deadline and replaced by
+ * size-limited previews (see lobs.ts). NUMBER values are fetched as text and
+ * only converted to JavaScript numbers when that is lossless (see numbers.ts);
+ * columns in `stringifiedColumns` stay text, so later pages of a query keep
+ * the types of earlier ones. Dates, timestamps and intervals follow
+ * TEMPORAL_FORMAT (see temporal.ts); in iso mode the session's timestamp
+ * formats are changed for the call and restored before release, and a
+ * connection whose formats cannot be restored is dropped from the pool.
+ *
+ * With a `sink`, rows are read through a result set and handed over in
+ * batches instead of being collected in `rows`; up to `maxRows` are read.
+ * NUMBER columns then stay text, since no column can be checked in full
+ * before its first values are passed on.
  */
 export async function executeQuery(
   query: string,
-  options: { maxRows?: number; timeout?: number; binds?: unknown[] } = {}
+  options: {
+    maxRows?: number;
+    timeout?: number;
+    binds?: BindParameters;
+    context?: ExecutionContext;
+    costGuard?: boolean;
+    stringifiedColumns?: string[];
+    sink?: QueryRowSink;
+  } = {}
 ): Promise<QueryResult> {
   const maxRows = options.maxRows || config.MAX_ROWS_PER_QUERY;
+  const timeoutMs = resolveQueryTimeout(options.timeout);
   const startTime = Date.now();
 
   let connection;
+  let previousCallTimeout: number | undefined;
+  let restoreTimestampFormats: (() => Promise<void>) | undefined;
+  let untrack: (() => void) | undefined;
+  let deadline: NodeJS.Timeout | undefined;
+  let deadlineReached = false;
 
   try {
     // Validate query length
@@ -77,58 +90,100 @@ export async function executeQuery(
     // Defense-in-depth guard in case DB credentials are accidentally over-privileged.
     ensureReadOnlyQuery(query);
 
+    // Fail fast with a readable message instead of ORA-01008 / ORA-01036
+    validateBinds(query, options.binds);
+
     // Get connection from pool
     connection = await getConnection();
+    previousCallTimeout = connection.callTimeout;
+    connection.callTimeout = timeoutMs;
+    untrack = trackExecution(options.context, connection, 'Query');
+
+    // The deadline covers the cost check's EXPLAIN PLAN as well as the query
+    const activeConnection = connection;
+    deadline = setTimeout(() => {
+      deadlineReached = true;
+      activeConnection.break().catch((err: any) => {
+        logger.error('Error breaking timed-out query', { error: err?.message ?? err });
+      });
+    }, timeoutMs);
+
+    const costWarning = options.costGuard ? await checkQueryCost(connection, query, options.context) : undefined;
+    // The cost check lets the query run when it cannot read the plan, including when the deadline broke it
+    if (deadlineReached) {
+      throw new QueryTimeoutError(timeoutMs, Date.now() - startTime);
+    }
+
+    restoreTimestampFormats = await applyIsoTimestampFormats(connection);
 
     // Execute query with timeout and row limit
     const db = oracledb as any;
-    const result = await connection.execute(query, (options.binds ?? []) as any[], {
+    const result = await connection.execute(query, toOracleBinds(options.binds), {
       outFormat: oracledb.OUT_FORMAT_OBJECT,
-      maxRows,
+      ...(options.sink ? { resultSet: true, fetchArraySize: STREAM_BATCH_ROWS } : { maxRows }),
       extendedMetaData: true,
       fetchTypeHandler: (meta: any) => {
-        if (
-          meta.dbType === db.DB_TYPE_DATE ||
-          meta.dbType === db.DB_TYPE_TIMESTAMP ||
-          meta.dbType === db.DB_TYPE_TIMESTAMP_TZ ||
-          meta.dbType === db.DB_TYPE_TIMESTAMP_LTZ
-        ) {
-          return {
-            type: db.DB_TYPE_VARCHAR,
-            converter: (val: any) => {
-              if (val === null || val === undefined) return null;
-              const d = val instanceof Date ? val : new Date(val as string);
-              const parts = new Intl.DateTimeFormat('en-CA', {
-                timeZone: config.ORACLE_TIMEZONE,
-                year: 'numeric', month: '2-digit', day: '2-digit',
-                hour: '2-digit', minute: '2-digit', second: '2-digit',
-                hour12: false,
-              }).formatToParts(d);
-              const get = (type: string) =>
-                parts.find((p: Intl.DateTimeFormatPart) => p.type === type)?.value ?? '00';
-              return `${get('year')}-${get('month')}-${get('day')} ${get('hour')}:${get('minute')}:${get('second')}`;
-            },
-          };
+        const temporal = temporalFetchType(meta);
+        if (temporal) return temporal;
+        // Converted back to numbers afterwards when no precision is lost
+        if (meta.dbType === db.DB_TYPE_NUMBER && config.NUMBER_AS_STRING !== 'never') {
+          return { type: db.DB_TYPE_VARCHAR };
         }
         return undefined;
       },
     } as any);
 
+    let rows = (result.rows as Record<string, any>[]) || [];
+    let rowCount = rows.length;
+    let lobColumns: Record<string, LobColumnSummary> | undefined;
+    let stringifiedColumns: string[];
+    let truncated: boolean | undefined;
+
+    if (options.sink && result.resultSet) {
+      stringifiedColumns = textNumberColumns(result.metaData);
+      ({ rowCount, lobColumns, truncated } = await streamResultSet(
+        result.resultSet,
+        result.metaData,
+        stringifiedColumns,
+        options.sink,
+        maxRows
+      ));
+      rows = [];
+    } else {
+      lobColumns = await readLobValues(rows, result.metaData);
+      stringifiedColumns = convertNumberColumns(rows, result.metaData, options.stringifiedColumns);
+    }
+
+    clearTimeout(deadline);
     const executionTime = Date.now() - startTime;
 
     // Extract column names from metadata
     const columns = result.metaData?.map((col: { name: string }) => col.name) || [];
 
     const queryResult: QueryResult = {
-      rows: (result.rows as Record<string, any>[]) || [],
-      rowCount: result.rows?.length || 0,
+      rows,
+      rowCount,
       columns,
+      columnMetadata: describeColumns(result.metaData, stringifiedColumns, lobColumns),
       executionTime,
     };
+    if (costWarning) {
+      queryResult.costWarning = costWarning;
+    }
+    if (stringifiedColumns.length > 0) {
+      queryResult.stringifiedColumns = stringifiedColumns;
+    }
+    if (lobColumns) {
+      queryResult.lobColumns = lobColumns;
+    }
+    if (truncated) {
+      queryResult.truncated = true;
+    }
 
     // Audit log the query
     audit('Query executed successfully', {
       query: query.substring(0, 500), // First 500 chars
+      binds: summarizeBinds(options.binds),
       rowCount: queryResult.rowCount,
       executionTime,
     });
@@ -141,8 +196,41 @@ export async function executeQuery(
 
     return queryResult;
   } catch (err: any) {
+    clearTimeout(deadline);
     const executionTime = Date.now() - startTime;
 
+    if (isCancellation(options.context, err)) {
+      logger.info('Query cancelled', {
+        query: query.substring(0, 200),
+        requestId: options.context?.requestId,
+        executionTime,
+      });
+
+      throw err instanceof QueryCancelledError ? err : new QueryCancelledError('Query');
+    }
+
+    if (err instanceof QueryCostExceededError) {
+      // Already audited by the cost guard
+      throw err;
+    }
+
+    if (deadlineReached || TIMEOUT_ERROR_PATTERN.test(err?.message ?? '')) {
+      logger.warn('Query timed out', {
+        query: query.substring(0, 200),
+        timeoutMs,
+        executionTime,
+      });
+
+      audit('Query timed out', {
+        query: query.substring(0, 500),
+        binds: summarizeBinds(options.binds),
+        timeoutMs,
+        executionTime,
+      });
+
+      throw new QueryTimeoutError(timeoutMs, executionTime);
+    }
+
     logger.error('Query execution failed', {
       error: err.message,
       query: query.substring(0, 200),
@@ -152,15 +240,31 @@ export async function executeQuery(
     audit('Query execution failed', {
       error: err.message,
       query: query.substring(0, 500),
+      binds: summarizeBinds(options.binds),
       executionTime,
     });
 
     throw new Error(`Query failed: ${err.message}`);
   } finally {
+    untrack?.();
+
     // Always release connection back to pool
     if (connection) {
       try {
-        await connection.close();
+        // The pool hands this connection out again; its next borrower must not
+        // inherit this query's timeout or timestamp formats
+        let drop = false;
+        if (restoreTimestampFormats) {
+          drop = await restoreTimestampFormats().then(
+            () => false,
+            (err: any) => {
+              logger.error('Error restoring session timestamp formats', { error: err?.message ?? err });
+              return true;
+            }
+          );
+        }
+        if (previousCallTimeout !== undefined) connection.callTimeout = previousCallTimeout;
+        await connection.close(drop ? { drop: true } : undefined);
       } catch (err) {
         logger.error('Error releasing connection', { error: err });
       }
@@ -168,10 +272,45 @@ export async function executeQuery(
   }
 }
 
+/**
+ * Hand a result set to `sink` in batches of STREAM_BATCH_ROWS, reading at
+ * most `maxRows`. LOB values are read per batch while the connection is open.
+ */
+async function streamResultSet(
+  resultSet: oracledb.ResultSet<Record<string, any>>,
+  metaData: oracledb.Metadata[] | undefined,
+  stringifiedColumns: string[],
+  sink: QueryRowSink,
+  maxRows: number
+): Promise<{ rowCount: number; lobColumns?: Record<string, LobColumnSummary>; truncated: boolean }> {
+  let rowCount = 0;
+  let lobColumns: Record<string, LobColumnSummary> | undefined;
+
+  try {
+    await sink.start(describeColumns(metaData, stringifiedColumns));
+
+    while (rowCount < maxRows) {
+      const batch = await resultSet.getRows(Math.min(STREAM_BATCH_ROWS, maxRows - rowCount));
+      if (batch.length === 0) break;
+
+      lobColumns = mergeLobSummaries(lobColumns, await readLobValues(batch, metaData));
+      await sink.write(batch);
+      rowCount += batch.length;
+    }
+
+    const truncated = rowCount >= maxRows && (await resultSet.getRows(1)).length > 0;
+    return { rowCount, lobColumns, truncated };
+  } finally {
+    await resultSet.close().catch((err: any) => {
+      logger.error('Error closing result set', { error: err?.message ?? err });
+    });
+  }
+}
+
 /**
  * Get database schema information
  */
-export async function getSchema(tableName?: string): Promise<any> {
+export async function getSchema(tableName?: string, context?: ExecutionContext): Promise<any> {
   let query: string;
 
   if (tableName) {
@@ -197,5 +336,5 @@ export async function getSchema(tableName?: string): Promise<any> {
     `;
   }
 
-  return executeQuery(query, { maxRows: 1000, binds: tableName ? [tableName] : [] });
+  return executeQuery(query, { maxRows: 1000, binds: tableName ? [tableName] : [], context });
 }
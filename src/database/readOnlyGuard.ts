@@ -0,0 +1,76 @@
+/**
+ * Read-only enforcement for ENFORCE_READ_ONLY_QUERIES=true
+ */
+
+import getConfig from '../config.js';
+import { hasKeywordSequence, isSignificant, keywordOf, splitStatements, tokenizeSql } from './sqlLexer.js';
+
+const config = getConfig();
+
+// Statements that run procedural code rather than a query
+const PLSQL_KEYWORDS = new Set(['BEGIN', 'DECLARE', 'CALL', 'EXEC', 'EXECUTE']);
+
+export function stripLeadingCommentsAndWhitespace(query: string): string {
+  const first = tokenizeSql(query).find(isSignificant);
+  return first ? query.slice(first.start) : '';
+}
+
+/**
+ * Reject anything but a single SELECT (or WITH ... SELECT) statement.
+ *
+ * The query is tokenized, so keywords inside string literals, quoted
+ * identifiers and comments are ignored, and a semicolon inside a literal
+ * does not count as a statement separator.
+ */
+export function ensureReadOnlyQuery(query: string): void {
+  if (!config.ENFORCE_READ_ONLY_QUERIES) {
+    return;
+  }
+
+  const tokens = tokenizeSql(query);
+  const statements = splitStatements(tokens);
+  if (statements.length === 0) {
+    throw new Error('Query cannot be empty after removing comments');
+  }
+
+  if (tokens.some((token) => token.unterminated)) {
+    throw new Error('Query contains an unterminated string literal, quoted identifier or comment');
+  }
+
+  const statement = statements[0];
+  // Set operations may wrap each branch in parentheses: (SELECT ...) UNION (SELECT ...)
+  const leadIndex = statement.findIndex((token) => token.text !== '(');
+  const leadKeyword = keywordOf(statement[leadIndex]);
+
+  if (leadKeyword && PLSQL_KEYWORDS.has(leadKeyword)) {
+    throw new Error(
+      'PL/SQL blocks and procedure calls are not allowed when ENFORCE_READ_ONLY_QUERIES=true'
+    );
+  }
+
+  // WITH FUNCTION / WITH PROCEDURE declares PL/SQL inline (Oracle 12c+)
+  const withDeclaration = keywordOf(statement[leadIndex + 1]);
+  if (leadKeyword === 'WITH' && (withDeclaration === 'FUNCTION' || withDeclaration === 'PROCEDURE')) {
+    throw new Error(
+      'PL/SQL blocks and procedure calls are not allowed when ENFORCE_READ_ONLY_QUERIES=true'
+    );
+  }
+
+  if (leadKeyword !== 'SELECT' && leadKeyword !== 'WITH') {
+    throw new Error(
+      'Only SELECT statements are allowed when ENFORCE_READ_ONLY_QUERIES=true'
+    );
+  }
+
+  if (statements.length > 1) {
+    throw new Error(
+      'Multiple SQL statements are not allowed when ENFORCE_READ_ONLY_QUERIES=true'
+    );
+  }
+
+  if (hasKeywordSequence(statement, ['FOR', 'UPDATE'])) {
+    throw new Error(
+      'SELECT ... FOR UPDATE is not allowed when ENFORCE_READ_ONLY_QUERIES=true'
+    );
+  }
+}
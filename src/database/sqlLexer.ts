@@ -0,0 +1,233 @@
+/**
+ * Minimal Oracle SQL lexer
+ *
+ * Understands just enough of Oracle's lexical rules to find statement
+ * boundaries and keywords reliably:
+ * - '...' literals with '' escapes, N'...' national literals
+ * - q'[...]' / nq'{...}' alternative quoting with any delimiter
+ * - "..." quoted identifiers
+ * - -- line comments and block comments. Oracle block comments do not nest:
+ *   the first star-slash closes the comment, exactly as the server parses it,
+ *   so an inner opener cannot hide the text that follows.
+ * - :name / :1 bind placeholders
+ * - ; separators and SQL*Plus style '/' lines
+ */
+
+export type SqlTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'string'
+  | 'quoted_identifier'
+  | 'word'
+  | 'number'
+  | 'bind'
+  | 'separator'
+  | 'punct';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Source text of the token */
+  text: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** True for a string, quoted identifier or block comment that never closes */
+  unterminated?: boolean;
+}
+
+const WORD_START = /[\p{L}_]/u;
+const WORD_PART = /[\p{L}\p{N}_$#]/u;
+const DIGIT = /[0-9]/;
+const Q_QUOTE_CLOSERS: Record<string, string> = { '[': ']', '{': '}', '<': '>', '(': ')' };
+
+/**
+ * Split SQL text into tokens. Never throws: malformed input yields tokens
+ * flagged `unterminated` so callers can decide how strict to be.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number, unterminated = false) => {
+    const token: SqlToken = { type, text: sql.slice(i, end), start: i };
+    if (unterminated) token.unterminated = true;
+    tokens.push(token);
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && /\s/.test(sql[end])) end += 1;
+      push('whitespace', end);
+      continue;
+    }
+
+    if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i + 2);
+      push('comment', newline === -1 ? sql.length : newline);
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      if (close === -1) {
+        push('comment', sql.length, true);
+      } else {
+        push('comment', close + 2);
+      }
+      continue;
+    }
+
+    // Alternative quoting: q'X...X', nq'X...X' (case-insensitive prefixes)
+    const qPrefixLength = /^[nN]?[qQ]'/.exec(sql.slice(i, i + 3))?.[0].length ?? 0;
+    if (qPrefixLength > 0 && i + qPrefixLength < sql.length) {
+      const open = sql[i + qPrefixLength];
+      const close = Q_QUOTE_CLOSERS[open] ?? open;
+      const end = sql.indexOf(`${close}'`, i + qPrefixLength + 1);
+      if (end === -1) {
+        push('string', sql.length, true);
+      } else {
+        push('string', end + 2);
+      }
+      continue;
+    }
+
+    // Ordinary and national character literals
+    if (ch === "'" || ((ch === 'n' || ch === 'N') && next === "'")) {
+      let end = ch === "'" ? i + 1 : i + 2;
+      let closed = false;
+      while (end < sql.length) {
+        if (sql[end] === "'" && sql[end + 1] === "'") {
+          end += 2;
+        } else if (sql[end] === "'") {
+          end += 1;
+          closed = true;
+          break;
+        } else {
+          end += 1;
+        }
+      }
+      push('string', end, !closed);
+      continue;
+    }
+
+    if (ch === '"') {
+      const close = sql.indexOf('"', i + 1);
+      if (close === -1) {
+        push('quoted_identifier', sql.length, true);
+      } else {
+        push('quoted_identifier', close + 1);
+      }
+      continue;
+    }
+
+    if (ch === ':' && next !== undefined && (WORD_START.test(next) || DIGIT.test(next))) {
+      const pattern = DIGIT.test(next) ? DIGIT : WORD_PART;
+      let end = i + 1;
+      while (end < sql.length && pattern.test(sql[end])) end += 1;
+      push('bind', end);
+      continue;
+    }
+
+    if (WORD_START.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && WORD_PART.test(sql[end])) end += 1;
+      push('word', end);
+      continue;
+    }
+
+    if (DIGIT.test(ch) || (ch === '.' && next !== undefined && DIGIT.test(next))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?[fFdD]?/.exec(sql.slice(i));
+      push('number', i + (match ? match[0].length : 1));
+      continue;
+    }
+
+    if (ch === ';') {
+      push('separator', i + 1);
+      continue;
+    }
+
+    if (ch === '/' && isAloneOnLine(sql, i)) {
+      push('separator', i + 1);
+      continue;
+    }
+
+    push('punct', i + 1);
+  }
+
+  return tokens;
+}
+
+// SQL*Plus treats a '/' on a line of its own as "run the buffer"
+function isAloneOnLine(sql: string, index: number): boolean {
+  const lineStart = sql.lastIndexOf('\n', index - 1) + 1;
+  const lineEnd = sql.indexOf('\n', index);
+  const line = sql.slice(lineStart, lineEnd === -1 ? sql.length : lineEnd);
+  return line.trim() === '/';
+}
+
+/**
+ * True for tokens that carry meaning (not whitespace or comments)
+ */
+export function isSignificant(token: SqlToken): boolean {
+  return token.type !== 'whitespace' && token.type !== 'comment';
+}
+
+/**
+ * Group significant tokens into statements at top-level separators.
+ * Empty statements (e.g. from a trailing semicolon) are dropped.
+ */
+export function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+
+  for (const token of tokens) {
+    if (token.type === 'separator') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+      continue;
+    }
+    if (isSignificant(token)) {
+      current.push(token);
+    }
+  }
+
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
+
+/**
+ * Remove a statement separator that ends the text (ignoring trailing
+ * whitespace and comments), so the statement can be embedded or prefixed
+ */
+export function stripTrailingSeparator(sql: string): string {
+  const last = tokenizeSql(sql).filter(isSignificant).at(-1);
+  if (last?.type !== 'separator') return sql;
+  return `${sql.slice(0, last.start)}${sql.slice(last.start + 1)}`.trim();
+}
+
+/**
+ * Uppercased keyword text for word tokens, undefined otherwise
+ */
+export function keywordOf(token: SqlToken | undefined): string | undefined {
+  return token?.type === 'word' ? token.text.toUpperCase() : undefined;
+}
+
+/**
+ * True when `keywords` appear as consecutive significant tokens.
+ * Each entry lists the accepted keywords at that position; '*' matches any token.
+ */
+export function hasKeywordSequence(tokens: SqlToken[], keywords: Array<string | string[]>): boolean {
+  const significant = tokens.filter(isSignificant);
+  const matches = (token: SqlToken | undefined, expected: string | string[]) => {
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    if (accepted.includes('*')) return token !== undefined;
+    const keyword = keywordOf(token);
+    return keyword !== undefined && accepted.includes(keyword);
+  };
+
+  return significant.some((_, start) => keywords.every((expected, offset) => matches(significant[start + offset], expected)));
+}
@@ -0,0 +1,252 @@
+/**
+ * Find the tables, views and identifiers a SELECT statement refers to
+ *
+ * Works on sqlLexer tokens, so names inside literals and comments are
+ * ignored. This is a best-effort structural scan, not a full parser: it
+ * recognizes FROM / JOIN / APPLY sources (including comma-separated lists,
+ * parenthesized references and subqueries) and WITH clause names, which is
+ * what access checks need. Sources it cannot name, and calls that run SQL
+ * passed as text (DBMS_XMLGEN.GETXML('SELECT ...') and the like), are
+ * reported through `unresolved`, so callers can refuse the statement instead
+ * of guessing.
+ */
+
+import { isSignificant, keywordOf, tokenizeSql, type SqlToken } from './sqlLexer.js';
+
+export interface ObjectReference {
+  owner?: string;
+  name: string;
+  dbLink?: string;
+}
+
+export interface SqlReferences {
+  /** Objects named as row sources after FROM, JOIN or APPLY (WITH clause names excluded) */
+  objects: ObjectReference[];
+  /** Names defined by the WITH clause */
+  cteNames: string[];
+  /** Every identifier in the statement, normalized (column names, aliases, table names) */
+  identifiers: string[];
+  /** True when the statement uses * or alias.* for columns, in the select list or as a function argument */
+  selectsStar: boolean;
+  /** True when * is an argument to a function other than COUNT, e.g. JSON_OBJECT(*), folding every column into one value */
+  wrapsStar: boolean;
+  /** True when some row source is neither a named object nor a subquery, or SQL text is run, so `objects` may be incomplete */
+  unresolved: boolean;
+}
+
+// Keywords that end a FROM / JOIN source list
+const SOURCE_LIST_END = new Set([
+  'WHERE', 'GROUP', 'ORDER', 'HAVING', 'CONNECT', 'START', 'UNION', 'INTERSECT', 'MINUS', 'EXCEPT',
+  'FETCH', 'OFFSET', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'OUTER', 'APPLY', 'MODEL',
+  'WINDOW', 'FOR',
+]);
+
+// Sources built from expressions; the tables they read appear in nested subqueries
+const EXPRESSION_SOURCES = new Set(['TABLE', 'LATERAL', 'JSON_TABLE', 'XMLTABLE']);
+
+// Functions whose arguments use FROM without naming a row source
+const FROM_IN_ARGUMENTS = new Set(['EXTRACT', 'TRIM', 'SUBSTRING']);
+
+const STAR_PREDECESSORS = new Set(['SELECT', 'DISTINCT', 'UNIQUE', 'ALL']);
+
+// Packages whose functions run a query given as a string, e.g. DBMS_XMLGEN.GETXML('SELECT ...')
+const DYNAMIC_SQL_PACKAGES = new Set(['DBMS_XMLGEN', 'DBMS_XMLQUERY', 'DBMS_SQL', 'DBMS_XMLSTORE']);
+
+// Functions that open a cursor or read tables through a path: CURSOR(...), DBURITYPE('/HR/SALARIES')
+const DYNAMIC_SQL_FUNCTIONS = new Set(['CURSOR', 'DBURITYPE', 'XDBURITYPE']);
+
+/**
+ * Oracle folds unquoted identifiers to uppercase; quoted ones are exact
+ */
+export function normalizeIdentifier(token: SqlToken): string | undefined {
+  if (token.type === 'word') return token.text.toUpperCase();
+  if (token.type === 'quoted_identifier') return token.text.slice(1, -1);
+  return undefined;
+}
+
+function isName(token: SqlToken | undefined): token is SqlToken {
+  return token !== undefined && (token.type === 'word' || token.type === 'quoted_identifier');
+}
+
+// Index just past the parenthesis that closes the one at `open`
+function skipParentheses(tokens: SqlToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].text === '(') depth += 1;
+    if (tokens[i].text === ')') {
+      depth -= 1;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return tokens.length;
+}
+
+// Read `a.b.c@link` starting at `start`; returns the parts and the index after the name
+function readDottedName(tokens: SqlToken[], start: number): { parts: string[]; dbLink?: string; end: number } {
+  const parts: string[] = [normalizeIdentifier(tokens[start])!];
+  let i = start + 1;
+
+  while (tokens[i]?.text === '.' && isName(tokens[i + 1])) {
+    parts.push(normalizeIdentifier(tokens[i + 1])!);
+    i += 2;
+  }
+
+  let dbLink: string | undefined;
+  if (tokens[i]?.text === '@' && isName(tokens[i + 1])) {
+    const link = readDottedName(tokens, i + 1);
+    dbLink = link.parts.join('.');
+    i = link.end;
+  }
+
+  return { parts, dbLink, end: i };
+}
+
+// Read the named source at `start` into `objects`; returns the index after
+// the name, or undefined when the source cannot be named
+function readNamedSource(tokens: SqlToken[], start: number, objects: ObjectReference[]): number | undefined {
+  let i = start;
+
+  // (t), ((t)) and ONLY (t) wrap a table reference; (SELECT ...) is a subquery,
+  // whose own FROM is read when the scan reaches it
+  if (keywordOf(tokens[i]) === 'ONLY' && tokens[i + 1]?.text === '(') i += 1;
+  if (tokens[i]?.text === '(') {
+    while (tokens[i]?.text === '(') i += 1;
+    const first = keywordOf(tokens[i]);
+    if (first === 'SELECT' || first === 'WITH') return start;
+    return readNamedSource(tokens, i, objects) === undefined ? undefined : start;
+  }
+
+  if (!isName(tokens[i])) return undefined;
+  if (EXPRESSION_SOURCES.has(keywordOf(tokens[i]) ?? '') && tokens[i + 1]?.text === '(') return i + 1;
+
+  const { parts, dbLink, end } = readDottedName(tokens, i);
+  // Any other name followed by '(' is a table function or CONTAINERS(...), which may read anything
+  if (tokens[end]?.text === '(') return undefined;
+
+  const name = parts[parts.length - 1];
+  const owner = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  const reference: ObjectReference = { name };
+  if (owner) reference.owner = owner;
+  if (dbLink) reference.dbLink = dbLink;
+  objects.push(reference);
+  return end;
+}
+
+// Read a comma-separated source list; returns false when a source could not be named
+function readSourceList(tokens: SqlToken[], start: number, objects: ObjectReference[]): boolean {
+  let i = start;
+  let resolved = true;
+
+  while (i < tokens.length) {
+    const end = readNamedSource(tokens, i, objects);
+    if (end === undefined) resolved = false;
+    else i = end;
+
+    // Skip alias, join condition, PIVOT, flashback clauses ... up to the next source
+    let depth = 0;
+    for (; i < tokens.length; i++) {
+      const text = tokens[i].text;
+      if (text === '(') depth += 1;
+      else if (text === ')') {
+        if (depth === 0) return resolved;
+        depth -= 1;
+      } else if (depth === 0 && text === ',') {
+        break;
+      } else if (depth === 0 && SOURCE_LIST_END.has(keywordOf(tokens[i]) ?? '')) {
+        return resolved;
+      }
+    }
+
+    // Past the comma to the next source
+    i += 1;
+  }
+
+  return resolved;
+}
+
+function readCteNames(tokens: SqlToken[], start: number, names: string[]): void {
+  let i = start;
+  while (isName(tokens[i])) {
+    names.push(normalizeIdentifier(tokens[i])!);
+    i += 1;
+    if (tokens[i]?.text === '(') i = skipParentheses(tokens, i);
+    if (keywordOf(tokens[i]) !== 'AS') return;
+    i += 1;
+    if (tokens[i]?.text !== '(') return;
+    i = skipParentheses(tokens, i);
+    if (tokens[i]?.text !== ',') return;
+    i += 1;
+  }
+}
+
+/**
+ * Collect object references from a single SELECT statement
+ */
+export function extractSqlReferences(sql: string): SqlReferences {
+  const tokens = tokenizeSql(sql).filter(isSignificant);
+  const objects: ObjectReference[] = [];
+  const cteNames: string[] = [];
+  const identifiers: string[] = [];
+  let selectsStar = false;
+  let wrapsStar = false;
+  let unresolved = false;
+
+  // Word before each open parenthesis, to spot EXTRACT(... FROM ...) and
+  // JSON_OBJECT(*); undefined for a subquery, whose * is a select list
+  const parenOwners: Array<string | undefined> = [];
+
+  tokens.forEach((token, i) => {
+    const keyword = keywordOf(token);
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (token.text === '(') {
+      const subquery = ['SELECT', 'WITH'].includes(keywordOf(next) ?? '');
+      parenOwners.push(subquery ? undefined : keywordOf(previous) ?? '');
+    } else if (token.text === ')') {
+      parenOwners.pop();
+    } else if (token.text === '*') {
+      const before = keywordOf(previous) ?? previous?.text;
+      const owner = parenOwners[parenOwners.length - 1];
+      if (before === '(' && owner === 'COUNT') {
+        // COUNT(*) counts rows
+      } else if (before === ',' || before === '.' || before === '(' || STAR_PREDECESSORS.has(before ?? '')) {
+        selectsStar = true;
+        if (owner !== undefined) wrapsStar = true;
+      }
+    }
+
+    if (
+      (DYNAMIC_SQL_PACKAGES.has(keyword ?? '') && next?.text === '.') ||
+      (DYNAMIC_SQL_FUNCTIONS.has(keyword ?? '') && next?.text === '(')
+    ) {
+      unresolved = true;
+    }
+
+    const identifier = normalizeIdentifier(token);
+    if (identifier !== undefined) identifiers.push(identifier);
+
+    if (keyword === 'WITH') {
+      readCteNames(tokens, i + 1, cteNames);
+    } else if (keyword === 'JOIN' || (keyword === 'APPLY' && ['CROSS', 'OUTER'].includes(keywordOf(previous) ?? ''))) {
+      unresolved = !readSourceList(tokens, i + 1, objects) || unresolved;
+    } else if (keyword === 'FROM') {
+      const inArguments = FROM_IN_ARGUMENTS.has(parenOwners[parenOwners.length - 1] ?? '');
+      // IS [NOT] DISTINCT FROM compares values
+      const isDistinctFrom = keywordOf(previous) === 'DISTINCT' && ['IS', 'NOT'].includes(keywordOf(tokens[i - 2]) ?? '');
+      if (!inArguments && !isDistinctFrom) {
+        unresolved = !readSourceList(tokens, i + 1, objects) || unresolved;
+      }
+    }
+  });
+
+  const ctes = new Set(cteNames);
+  return {
+    objects: objects.filter((ref) => ref.owner !== undefined || ref.dbLink !== undefined || !ctes.has(ref.name)),
+    cteNames,
+    identifiers,
+    selectsStar,
+    wrapsStar,
+    unresolved,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Date, time and interval output (TEMPORAL_FORMAT)
+ *
+ *   local  DATE and every TIMESTAMP type as 'YYYY-MM-DD HH:MM:SS' in
+ *          ORACLE_TIMEZONE; fractional seconds and offsets are dropped
+ *   iso    ISO 8601:
+ *            DATE                            2024-03-01T14:05:09
+ *            TIMESTAMP                       2024-03-01T14:05:09.123456
+ *            TIMESTAMP WITH TIME ZONE        2024-03-01T14:05:09.123456+05:30 (stored offset)
+ *            TIMESTAMP WITH LOCAL TIME ZONE  2024-03-01T09:35:09.123-05:00 (ORACLE_TIMEZONE)
+ *            INTERVAL DAY TO SECOND          P1DT2H3M4.5S
+ *            INTERVAL YEAR TO MONTH          P1Y2M
+ *
+ * JavaScript Dates stop at milliseconds and carry no offset, so in iso mode
+ * TIMESTAMP and TIMESTAMP WITH TIME ZONE are fetched as text that Oracle
+ * formats: executeQuery sets ISO_TIMESTAMP_FORMATS on the session for the
+ * call and puts the previous formats back before releasing the connection.
+ * NLS_DATE_FORMAT is never changed, so DATE literals in user SQL
+ * ('2024-01-01' compared with a DATE) convert as usual. DATE and TIMESTAMP
+ * WITH LOCAL TIME ZONE are formatted here from the driver's Date objects.
+ */
+
+import oracledb from 'oracledb';
+import getConfig from '../config.js';
+import type { OracleConnection } from './types.js';
+
+const config = getConfig();
+
+// Oracle type names (metaData dbTypeName) converted on the way out, per mode
+const DATETIME_TYPE_NAMES = ['DATE', 'TIMESTAMP', 'TIMESTAMP WITH TIME ZONE', 'TIMESTAMP WITH LOCAL TIME ZONE'];
+const INTERVAL_TYPE_NAMES = ['INTERVAL DAY TO SECOND', 'INTERVAL YEAR TO MONTH'];
+
+// Session formats for iso-mode queries: every fractional digit, and the offset each value was stored with
+const ISO_TIMESTAMP_FORMATS: Readonly<Record<string, string>> = {
+  NLS_TIMESTAMP_FORMAT: 'YYYY-MM-DD"T"HH24:MI:SS.FF9',
+  NLS_TIMESTAMP_TZ_FORMAT: 'YYYY-MM-DD"T"HH24:MI:SS.FF9TZH:TZM',
+};
+
+// Oracle's default fractional precision, for timestamps whose metadata has none
+const DEFAULT_TIMESTAMP_PRECISION = 6;
+
+/**
+ * Type names whose values executeQuery returns as formatted strings
+ */
+export const TEMPORAL_TYPE_NAMES: ReadonlySet<string> = new Set(
+  config.TEMPORAL_FORMAT === 'iso' ? [...DATETIME_TYPE_NAMES, ...INTERVAL_TYPE_NAMES] : DATETIME_TYPE_NAMES
+);
+
+function formatLocal(val: any): string | null {
+  if (val === null || val === undefined) return null;
+  const d = val instanceof Date ? val : new Date(val as string);
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: config.ORACLE_TIMEZONE,
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+    hour12: false,
+  }).formatToParts(d);
+  const get = (type: string) =>
+    parts.find((p: Intl.DateTimeFormatPart) => p.type === type)?.value ?? '00';
+  return `${get('year')}-${get('month')}-${get('day')} ${get('hour')}:${get('minute')}:${get('second')}`;
+}
+
+// Minutes east of UTC for `timeZone` at an instant
+function zoneOffsetMinutes(epochMs: number, timeZone: string): number {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(epochMs)
+    .find((part) => part.type === 'timeZoneName')?.value ?? 'GMT';
+  const match = /GMT([+-])(\d{2}):(\d{2})/.exec(name);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Milliseconds, cut to the column's fractional precision
+function fraction(milliseconds: number, precision: number | undefined): string {
+  const digits = Math.min(precision ?? 3, 3);
+  return digits > 0 ? `.${pad(milliseconds, 3).slice(0, digits)}` : '';
+}
+
+/**
+ * ISO 8601 text of a DATE or TIMESTAMP, which the driver builds in the
+ * process time zone, so the local fields are Oracle's own
+ */
+export function formatIsoWallClock(value: Date | null, precision?: number): string | null {
+  if (value === null || value === undefined) return null;
+  return (
+    `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}` +
+    `T${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}` +
+    fraction(value.getMilliseconds(), precision)
+  );
+}
+
+/**
+ * ISO 8601 text of a zoned timestamp's instant in `timeZone`, with that zone's offset
+ */
+export function formatIsoInstant(value: Date | null, timeZone: string, precision?: number): string | null {
+  if (value === null || value === undefined) return null;
+
+  const offset = zoneOffsetMinutes(value.getTime(), timeZone);
+  const wallClock = new Date(value.getTime() + offset * 60_000);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return (
+    `${pad(wallClock.getUTCFullYear(), 4)}-${pad(wallClock.getUTCMonth() + 1)}-${pad(wallClock.getUTCDate())}` +
+    `T${pad(wallClock.getUTCHours())}:${pad(wallClock.getUTCMinutes())}:${pad(wallClock.getUTCSeconds())}` +
+    fraction(wallClock.getUTCMilliseconds(), precision) +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`
+  );
+}
+
+/**
+ * A TIMESTAMP or TIMESTAMP WITH TIME ZONE that Oracle formatted under
+ * ISO_TIMESTAMP_FORMATS, with the nine fractional digits cut to the column's
+ * precision
+ */
+export function formatIsoText(value: string | null, precision?: number): string | null {
+  if (value === null || value === undefined) return null;
+  const match = /^([^.]+)\.(\d+)(.*)$/.exec(value);
+  if (!match) return value;
+  const digits = precision ?? DEFAULT_TIMESTAMP_PRECISION;
+  return `${match[1]}${digits > 0 ? `.${match[2].slice(0, digits)}` : ''}${match[3]}`;
+}
+
+function alterSessionSql(formats: Record<string, string>): string {
+  const settings = Object.entries(formats).map(([name, format]) => `${name} = '${format.replace(/'/g, "''")}'`);
+  return `ALTER SESSION SET ${settings.join(' ')}`;
+}
+
+/**
+ * In iso mode, switch the session to ISO_TIMESTAMP_FORMATS for one query and
+ * return the function that restores the formats it had; undefined in local
+ * mode, which leaves the session alone. The connection goes back to the pool
+ * afterwards, so the restore must run before it is released.
+ */
+export async function applyIsoTimestampFormats(connection: OracleConnection): Promise<(() => Promise<void>) | undefined> {
+  if (config.TEMPORAL_FORMAT !== 'iso') return undefined;
+
+  const current = await connection.execute(
+    `SELECT parameter, value FROM nls_session_parameters
+     WHERE parameter IN ('NLS_TIMESTAMP_FORMAT', 'NLS_TIMESTAMP_TZ_FORMAT')`,
+    [],
+    { outFormat: oracledb.OUT_FORMAT_OBJECT }
+  );
+  const rows = (current.rows ?? []) as Array<{ PARAMETER: string; VALUE: string }>;
+  const previous = Object.fromEntries(rows.map((row) => [row.PARAMETER, row.VALUE]));
+
+  await connection.execute(alterSessionSql(ISO_TIMESTAMP_FORMATS));
+  return async () => {
+    await connection.execute(alterSessionSql(previous));
+  };
+}
+
+function formatSeconds(seconds: number, nanoseconds: number): string {
+  if (nanoseconds === 0) return String(seconds);
+  const fraction = String(nanoseconds).padStart(9, '0').replace(/0+$/, '');
+  return `${seconds}.${fraction}`;
+}
+
+/**
+ * ISO 8601 duration for a driver IntervalDS / IntervalYM value. Oracle keeps
+ * every field of a negative interval negative, so the sign goes in front.
+ */
+export function intervalToIso(value: any): string | null {
+  if (value === null || value === undefined) return null;
+
+  if ('years' in value || 'months' in value) {
+    const years = value.years ?? 0;
+    const months = value.months ?? 0;
+    const sign = years < 0 || months < 0 ? '-' : '';
+    const parts = `${years ? `${Math.abs(years)}Y` : ''}${months ? `${Math.abs(months)}M` : ''}`;
+    return `${sign}P${parts || '0M'}`;
+  }
+
+  const fields = ['days', 'hours', 'minutes', 'seconds', 'fseconds'].map((field) => value[field] ?? 0);
+  const [days, hours, minutes, seconds, fseconds] = fields.map(Math.abs);
+  const sign = fields.some((field) => field < 0) ? '-' : '';
+
+  const time =
+    `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}` +
+    `${seconds || fseconds ? `${formatSeconds(seconds, fseconds)}S` : ''}`;
+  if (!days && !time) return `${sign}PT0S`;
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Fetch instructions for date, timestamp and interval columns, or undefined
+ * for every other type. Used by executeQuery's fetchTypeHandler; in iso mode
+ * the session must carry ISO_TIMESTAMP_FORMATS while rows are fetched.
+ */
+export function temporalFetchType(meta: { dbType?: unknown; precision?: number }): { type?: unknown; converter: (val: any) => any } | undefined {
+  const db = oracledb as any;
+  const dbType = meta.dbType;
+  if (dbType === undefined) return undefined;
+
+  if (config.TEMPORAL_FORMAT !== 'iso') {
+    if (
+      dbType === db.DB_TYPE_DATE ||
+      dbType === db.DB_TYPE_TIMESTAMP ||
+      dbType === db.DB_TYPE_TIMESTAMP_TZ ||
+      dbType === db.DB_TYPE_TIMESTAMP_LTZ
+    ) {
+      return { type: db.DB_TYPE_VARCHAR, converter: formatLocal };
+    }
+    return undefined;
+  }
+
+  if (dbType === db.DB_TYPE_DATE) {
+    return { converter: (val: any) => formatIsoWallClock(val, 0) };
+  }
+  if (dbType === db.DB_TYPE_TIMESTAMP || dbType === db.DB_TYPE_TIMESTAMP_TZ) {
+    // Text under ISO_TIMESTAMP_FORMATS (see applyIsoTimestampFormats)
+    return { type: db.DB_TYPE_VARCHAR, converter: (val: any) => formatIsoText(val, meta.precision) };
+  }
+  if (dbType === db.DB_TYPE_TIMESTAMP_LTZ) {
+    return { converter: (val: any) => formatIsoInstant(val, config.ORACLE_TIMEZONE, meta.precision) };
+  }
+  if (dbType === db.DB_TYPE_INTERVAL_DS || dbType === db.DB_TYPE_INTERVAL_YM) {
+    return { converter: intervalToIso };
+  }
+  return undefined;
+}
@@ -4,7 +4,152 @@ export interface QueryResult {
   rows: Record<string, any>[];
   rowCount: number;
   columns: string[];
+  /** Type details for each entry in `columns`, in the same order */
+  columnMetadata?: ColumnMetadata[];
   executionTime: number;
+  /** Set when QUERY_COST_GUARD=warn and the plan estimates exceeded a threshold */
+  costWarning?: CostEstimate;
+  /** Result columns whose values were masked by the access policy */
+  maskedColumns?: string[];
+  /** NUMBER columns returned as strings because JavaScript numbers would lose precision */
+  stringifiedColumns?: string[];
+  /** CLOB / BLOB / LONG columns and how much of their data was left out */
+  lobColumns?: Record<string, LobColumnSummary>;
+  /** Streamed results only: rows remained after maxRows and were not read */
+  truncated?: boolean;
+}
+
+/**
+ * Receives a query's rows in batches instead of `QueryResult.rows`
+ * (executeQuery's `sink` option)
+ */
+export interface QueryRowSink {
+  /** Called once with the result columns, before any rows */
+  start(columns: ColumnMetadata[]): Promise<void>;
+  /** Called with each batch of converted rows, in order */
+  write(rows: Record<string, any>[]): Promise<void>;
+}
+
+/**
+ * How a column's values differ from its Oracle type:
+ * - datetime-string: DATE / TIMESTAMP formatted per TEMPORAL_FORMAT ('local' or ISO 8601)
+ * - interval-duration: INTERVAL returned as an ISO 8601 duration (TEMPORAL_FORMAT=iso)
+ * - number-string: NUMBER returned as exact decimal strings (see stringifiedColumns)
+ * - text-preview: CLOB / NCLOB / LONG text cut to LOB_MAX_BYTES
+ * - binary-summary: BLOB / LONG RAW replaced by a BinaryValueSummary
+ */
+export type ColumnConversion =
+  | 'datetime-string'
+  | 'interval-duration'
+  | 'number-string'
+  | 'text-preview'
+  | 'binary-summary';
+
+/**
+ * One result column as described by the driver
+ */
+export interface ColumnMetadata {
+  name: string;
+  /** Oracle type name, e.g. NUMBER, VARCHAR2, TIMESTAMP WITH TIME ZONE */
+  type: string;
+  nullable?: boolean;
+  /** NUMBER precision, or fractional second digits for TIMESTAMP */
+  precision?: number;
+  scale?: number;
+  /** Maximum size of character and RAW columns as reported by the driver */
+  byteSize?: number;
+  /** Set when values are not returned in the column's native form */
+  conversion?: ColumnConversion;
+  /** Set when the access policy masked this column's values */
+  masked?: boolean;
+}
+
+/**
+ * What a BLOB or LONG RAW value is replaced with in result rows
+ */
+export interface BinaryValueSummary {
+  size: number;
+  /** Hex SHA-256 of the whole value; omitted above BLOB_HASH_MAX_BYTES */
+  sha256?: string;
+  /** First BLOB_PREFIX_BYTES bytes, base64-encoded */
+  base64Prefix?: string;
+}
+
+/**
+ * How much of a LOB / LONG column's data a result leaves out
+ */
+export interface LobColumnSummary {
+  type: string;
+  /** Non-null values in the column */
+  values: number;
+  /** Values not returned in full */
+  truncatedValues: number;
+  /** Characters (text types) or bytes (binary types) left out across all values */
+  omitted: number;
+  unit: 'chars' | 'bytes';
+}
+
+/**
+ * One operation in an execution plan, with its child operations
+ */
+export interface PlanNode {
+  id: number;
+  operation: string;
+  options?: string;
+  objectOwner?: string;
+  objectName?: string;
+  objectType?: string;
+  /** Optimizer cost of this operation including its children */
+  cost?: number;
+  /** Estimated rows produced */
+  cardinality?: number;
+  bytes?: number;
+  /** Estimated elapsed seconds */
+  time?: number;
+  accessPredicates?: string;
+  filterPredicates?: string;
+  children: PlanNode[];
+}
+
+export interface ExplainPlanResult {
+  /** Where the plan was read from */
+  source: 'PLAN_TABLE' | 'V$SQL_PLAN';
+  /** Total optimizer cost (the root operation's cost) */
+  cost?: number;
+  /** Estimated rows returned by the statement */
+  cardinality?: number;
+  plan: PlanNode;
+  lineCount: number;
+  /** DBMS_XPLAN formatted output, when available */
+  text?: string[];
+  executionTime: number;
+}
+
+/**
+ * A plan line flagged by the cost guard
+ */
+export interface PlanLineSummary {
+  id: number;
+  /** Operation and options, e.g. "TABLE ACCESS FULL" */
+  operation: string;
+  /** OWNER.NAME of the object the line reads, if any */
+  object?: string;
+  /** Cost of this line excluding its children */
+  selfCost: number;
+  cost?: number;
+  cardinality?: number;
+}
+
+/**
+ * Optimizer estimates for a query compared with the configured thresholds
+ */
+export interface CostEstimate {
+  message: string;
+  cost?: number;
+  cardinality?: number;
+  maxCost: number;
+  maxCardinality: number;
+  costliestLines: PlanLineSummary[];
 }
 
 export interface OraclePoolConfig {
@@ -0,0 +1,108 @@
+/**
+ * Export files inside EXPORT_DIR
+ *
+ * Files are created with exclusive create, so an export never overwrites or
+ * follows an existing file or link, and names cannot contain path
+ * separators. Bytes are hashed and counted as they are written; going over
+ * EXPORT_MAX_BYTES aborts the export.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, open, unlink, type FileHandle } from 'node:fs/promises';
+import path from 'node:path';
+import getConfig from '../config.js';
+
+const config = getConfig();
+
+const FILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+export interface ExportedFile {
+  path: string;
+  byteSize: number;
+  /** Hex SHA-256 of the file contents */
+  sha256: string;
+}
+
+/**
+ * An export file being written; `close()` on success, `discard()` on failure
+ */
+export interface ExportFile {
+  readonly path: string;
+  write(chunk: string | Uint8Array): Promise<void>;
+  close(): Promise<ExportedFile>;
+  discard(): Promise<void>;
+}
+
+/**
+ * Pick the file name for an export: the caller's name (with the format's
+ * extension added when missing) or a timestamped default.
+ */
+export function exportFileName(extension: string, requested?: string): string {
+  if (requested === undefined) {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    return `export-${stamp}-${randomBytes(4).toString('hex')}.${extension}`;
+  }
+
+  if (!FILE_NAME_PATTERN.test(requested)) {
+    throw new Error(
+      'Invalid export file name: use letters, digits, ".", "_" and "-" only, starting with a letter or digit (no directories)'
+    );
+  }
+  return requested.toLowerCase().endsWith(`.${extension}`) ? requested : `${requested}.${extension}`;
+}
+
+/**
+ * Create a new file in EXPORT_DIR for writing
+ */
+export async function createExportFile(fileName: string): Promise<ExportFile> {
+  if (!config.EXPORT_DIR) {
+    throw new Error('Exports are disabled: set EXPORT_DIR to a directory the server may write to');
+  }
+
+  const directory = path.resolve(config.EXPORT_DIR);
+  const filePath = path.join(directory, fileName);
+  if (path.dirname(filePath) !== directory) {
+    throw new Error('Export file must be directly inside EXPORT_DIR');
+  }
+
+  await mkdir(directory, { recursive: true });
+  let handle: FileHandle;
+  try {
+    handle = await open(filePath, 'wx', 0o640);
+  } catch (err: any) {
+    if (err?.code === 'EEXIST') throw new Error(`Export file ${fileName} already exists`);
+    throw err;
+  }
+
+  const hash = createHash('sha256');
+  let byteSize = 0;
+  let closed = false;
+
+  return {
+    path: filePath,
+
+    async write(chunk) {
+      const data = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+      byteSize += data.byteLength;
+      if (byteSize > config.EXPORT_MAX_BYTES) {
+        throw new Error(`Export exceeds EXPORT_MAX_BYTES (${config.EXPORT_MAX_BYTES} bytes)`);
+      }
+      hash.update(data);
+      await handle.write(data);
+    },
+
+    async close() {
+      closed = true;
+      await handle.close();
+      return { path: filePath, byteSize, sha256: hash.digest('hex') };
+    },
+
+    async discard() {
+      if (!closed) {
+        closed = true;
+        await handle.close().catch(() => undefined);
+      }
+      await unlink(filePath).catch(() => undefined);
+    },
+  };
+}
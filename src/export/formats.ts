@@ -0,0 +1,206 @@
+/**
+ * Row writers for export_query: CSV, NDJSON and Parquet
+ *
+ * Values arrive as executeQuery produces them. NUMBER columns are exact
+ * decimal text (conversion 'number-string'); they are written as numbers
+ * without rounding where the format allows: bare JSON numbers in NDJSON,
+ * DOUBLE in Parquet when the declared precision fits in 15 digits.
+ */
+
+import { ByteWriter, ParquetWriter, schemaFromColumnData, type BasicType, type ColumnSource } from 'hyparquet-writer';
+import type { ColumnMetadata, QueryRowSink } from '../database/types.js';
+import type { ExportFile } from './exportFile.js';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson', 'parquet'] as const;
+
+/**
+ * A row sink that also completes the file format once the rows are done
+ */
+export interface ExportWriter extends QueryRowSink {
+  finish(): Promise<void>;
+}
+
+// Oracle writes NUMBER text like ".5" and "-1.5E+40"
+const DECIMAL_TEXT_PATTERN = /^(-?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+// Rows per Parquet row group
+const PARQUET_ROW_GROUP_ROWS = 10000;
+
+// Significant digits a double always holds exactly
+const DOUBLE_DIGITS = 15;
+
+/**
+ * Rewrite Oracle NUMBER text as a JSON number literal, or undefined when it is not a number
+ */
+export function toJsonNumber(text: string): string | undefined {
+  const match = DECIMAL_TEXT_PATTERN.exec(text.trim());
+  if (!match || (match[2] === '' && (match[3] ?? '') === '')) return undefined;
+
+  const [, sign, integer, fraction, exponent] = match;
+  return `${sign}${integer || '0'}${fraction ? `.${fraction}` : ''}${exponent ? `e${exponent}` : ''}`;
+}
+
+/**
+ * Text form of a value for CSV and Parquet strings; NULL stays null
+ */
+export function valueToText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isNumberText(column: ColumnMetadata): boolean {
+  return column.conversion === 'number-string' && !column.masked;
+}
+
+/**
+ * RFC 4180 quoting; surrounding spaces are quoted too so readers keep them
+ */
+export function csvEscape(field: string): string {
+  return /[",\r\n]|^\s|\s$/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function csvField(value: unknown, column: ColumnMetadata): string {
+  const text = valueToText(value);
+  if (text === null) return '';
+  return csvEscape(isNumberText(column) ? toJsonNumber(text) ?? text : text);
+}
+
+function jsonValue(value: unknown, column: ColumnMetadata): string {
+  if (value === null || value === undefined) return 'null';
+  if (isNumberText(column) && typeof value === 'string') {
+    const literal = toJsonNumber(value);
+    if (literal !== undefined) return literal;
+  }
+  if (Buffer.isBuffer(value)) return JSON.stringify(value.toString('hex'));
+  return JSON.stringify(value);
+}
+
+function createCsvWriter(file: ExportFile): ExportWriter {
+  let columns: ColumnMetadata[] = [];
+
+  return {
+    async start(resultColumns) {
+      columns = resultColumns;
+      await file.write(`${columns.map((column) => csvEscape(column.name)).join(',')}\r\n`);
+    },
+    async write(rows) {
+      const lines = rows.map((row) => `${columns.map((column) => csvField(row[column.name], column)).join(',')}\r\n`);
+      await file.write(lines.join(''));
+    },
+    async finish() {},
+  };
+}
+
+function createNdjsonWriter(file: ExportFile): ExportWriter {
+  let columns: ColumnMetadata[] = [];
+
+  return {
+    async start(resultColumns) {
+      columns = resultColumns;
+    },
+    async write(rows) {
+      const lines = rows.map(
+        (row) =>
+          `{${columns.map((column) => `${JSON.stringify(column.name)}:${jsonValue(row[column.name], column)}`).join(',')}}\n`
+      );
+      await file.write(lines.join(''));
+    },
+    async finish() {},
+  };
+}
+
+/**
+ * Parquet type for a result column. Anything that is not clearly numeric or
+ * binary is written as UTF-8 text, which also covers masked values.
+ */
+export function parquetType(column: ColumnMetadata): BasicType {
+  if (column.masked) return 'STRING';
+  if (column.conversion === 'number-string') {
+    const precision = column.precision ?? 0;
+    return precision > 0 && precision <= DOUBLE_DIGITS ? 'DOUBLE' : 'STRING';
+  }
+  if (column.conversion) return 'STRING';
+  if (['NUMBER', 'BINARY_FLOAT', 'BINARY_DOUBLE'].includes(column.type)) return 'DOUBLE';
+  if (column.type === 'RAW') return 'BYTE_ARRAY';
+  return 'STRING';
+}
+
+function parquetValue(value: unknown, type: BasicType): unknown {
+  if (value === null || value === undefined) return null;
+  if (type === 'DOUBLE') return typeof value === 'number' ? value : Number(value);
+  if (type === 'BYTE_ARRAY') return Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+  return valueToText(value);
+}
+
+// Hands each finished row group to the export file instead of growing one buffer
+class ExportByteWriter extends ByteWriter {
+  constructor(private readonly file: ExportFile) {
+    super();
+  }
+
+  flush(): Promise<void> {
+    const chunk = Buffer.from(this.getBytes());
+    this.index = 0;
+    return this.file.write(chunk);
+  }
+
+  // ParquetWriter.finish() returns this promise after writing the footer
+  override finish(): Promise<void> {
+    return this.flush();
+  }
+}
+
+function createParquetWriter(file: ExportFile): ExportWriter {
+  let columns: Array<{ name: string; type: BasicType }> = [];
+  let pending: Record<string, any>[] = [];
+  let parquet: ParquetWriter | undefined;
+
+  async function writeRowGroup(): Promise<void> {
+    if (!parquet || pending.length === 0) return;
+    const columnData: ColumnSource[] = columns.map(({ name, type }) => ({
+      name,
+      data: pending.map((row) => parquetValue(row[name], type)),
+    }));
+    const rowGroupSize = pending.length;
+    pending = [];
+    await parquet.write({ columnData, rowGroupSize });
+  }
+
+  return {
+    async start(resultColumns) {
+      columns = resultColumns.map((column) => ({ name: column.name, type: parquetType(column) }));
+      const schema = schemaFromColumnData({
+        columnData: columns.map(({ name, type }) => ({ name, type, nullable: true, data: [] })),
+      });
+      parquet = new ParquetWriter({ writer: new ExportByteWriter(file), schema });
+    },
+    async write(rows) {
+      pending.push(...rows);
+      if (pending.length >= PARQUET_ROW_GROUP_ROWS) await writeRowGroup();
+    },
+    async finish() {
+      await writeRowGroup();
+      await parquet?.finish();
+    },
+  };
+}
+
+/**
+ * Writer that encodes rows in `format` into `file`
+ */
+export function createExportWriter(format: ExportFormat, file: ExportFile): ExportWriter {
+  switch (format) {
+    case 'ndjson':
+      return createNdjsonWriter(file);
+    case 'parquet':
+      return createParquetWriter(file);
+    default:
+      return createCsvWriter(file);
+  }
+}
@@ -5,19 +5,52 @@ declare module 'oracledb' {
   }
 
   export interface Connection {
-    execute(sql: string, binds?: any[], options?: ExecuteOptions): Promise<Result<any>>;
-    close(): Promise<void>;
+    execute(sql: string, binds?: any[] | Record<string, any>, options?: ExecuteOptions): Promise<Result<any>>;
+    close(options?: { drop?: boolean }): Promise<void>;
+    break(): Promise<void>;
+    rollback(): Promise<void>;
+    getStatementInfo(sql: string): Promise<StatementInfo>;
+    callTimeout: number;
   }
 
   export interface ExecuteOptions {
     outFormat?: number;
     maxRows?: number;
     extendedMetaData?: boolean;
+    resultSet?: boolean;
+    fetchArraySize?: number;
+  }
+
+  export interface StatementInfo {
+    statementType?: number;
+    bindNames?: string[];
+    metaData?: Array<{ name: string }>;
+  }
+
+  export interface Lob {
+    readonly length: number;
+    getData(offset?: number, amount?: number): Promise<string | Buffer>;
+    destroy(): void;
+  }
+
+  export interface Metadata {
+    name: string;
+    dbTypeName?: string;
+    nullable?: boolean;
+    precision?: number;
+    scale?: number;
+    byteSize?: number;
+  }
+
+  export interface ResultSet<T> {
+    getRows(numRows: number): Promise<T[]>;
+    close(): Promise<void>;
   }
 
   export interface Result<T> {
     rows?: T[];
-    metaData?: Array<{ name: string }>;
+    resultSet?: ResultSet<T>;
+    metaData?: Metadata[];
   }
 
   export interface PoolAttributes {
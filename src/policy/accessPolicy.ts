@@ -0,0 +1,318 @@
+/**
+ * Declarative table / column access policy (ACCESS_POLICY_FILE)
+ *
+ * A JSON file of allow and deny rules decides which tables, views and columns
+ * each tool may touch, on top of the database grants of the connecting user:
+ *
+ *   {
+ *     "defaultAction": "allow",
+ *     "rules": [
+ *       { "effect": "deny", "objects": ["HR_*", "PAYMENT_CARDS"] },
+ *       { "effect": "deny", "columns": ["*.SSN", "CUSTOMERS.CARD_NUMBER"] },
+ *       { "effect": "allow", "objects": ["HR_DEPARTMENTS"], "tools": ["listTables"] },
+ *       { "effect": "mask", "columns": ["*.EMAIL"], "method": "hash" }
+ *     ]
+ *   }
+ *
+ * An object is allowed when no applicable deny rule matches it and either
+ * the default is allow or an applicable allow rule matches it. Patterns are
+ * case-insensitive globs (`*`, `?`); `NAME` matches any owner, `OWNER.NAME`
+ * one owner. Unqualified names belong to ORACLE_USER. Rules without `tools`
+ * apply to every tool. Mask rules leave a column readable but replace its
+ * values in results (see redaction.ts).
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import getConfig from '../config.js';
+import { extractSqlReferences, type ObjectReference } from '../database/sqlReferences.js';
+import logger, { audit } from '../utils/logger.js';
+import type { MaskRule } from './redaction.js';
+
+const config = getConfig();
+
+const ColumnPatternSchema = z
+  .string()
+  .regex(/\./, 'column patterns must be TABLE.COLUMN (use *.COLUMN for any table)');
+
+const RuleSchema = z.discriminatedUnion('effect', [
+  z.object({
+    effect: z.literal('allow'),
+    objects: z.array(z.string().min(1)).min(1),
+    tools: z.array(z.string().min(1)).optional(),
+  }),
+  z.object({
+    effect: z.literal('deny'),
+    objects: z.array(z.string().min(1)).optional(),
+    columns: z.array(ColumnPatternSchema).optional(),
+    tools: z.array(z.string().min(1)).optional(),
+  }),
+  z.object({
+    effect: z.literal('mask'),
+    columns: z.array(ColumnPatternSchema).min(1),
+    method: z.enum(['full', 'partial', 'hash', 'null']).default('full'),
+    keepLast: z.number().int().min(1).max(16).default(4),
+    tools: z.array(z.string().min(1)).optional(),
+  }),
+]);
+
+export const AccessPolicySchema = z.object({
+  defaultAction: z.enum(['allow', 'deny']).default('allow'),
+  rules: z.array(RuleSchema).default([]),
+});
+
+export type AccessPolicyDefinition = z.infer<typeof AccessPolicySchema>;
+
+// Always readable: needed for expressions like SELECT SYSDATE FROM DUAL
+const ALWAYS_ALLOWED = new Set(['DUAL', 'SYS.DUAL']);
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+interface ObjectMatcher {
+  owner?: RegExp;
+  name: RegExp;
+}
+
+function objectMatcher(pattern: string): ObjectMatcher {
+  const dot = pattern.lastIndexOf('.');
+  if (dot === -1) return { name: globToRegExp(pattern) };
+  return { owner: globToRegExp(pattern.slice(0, dot)), name: globToRegExp(pattern.slice(dot + 1)) };
+}
+
+interface ColumnMatcher {
+  table: ObjectMatcher;
+  column: RegExp;
+}
+
+function columnMatcher(pattern: string): ColumnMatcher {
+  const dot = pattern.lastIndexOf('.');
+  return { table: objectMatcher(pattern.slice(0, dot)), column: globToRegExp(pattern.slice(dot + 1)) };
+}
+
+interface CompiledRule {
+  effect: 'allow' | 'deny' | 'mask';
+  objects: ObjectMatcher[];
+  columns: ColumnMatcher[];
+  mask?: MaskRule;
+  tools?: Set<string>;
+}
+
+export class AccessPolicy {
+  private readonly rules: CompiledRule[];
+  private readonly defaultOwner?: string;
+
+  constructor(
+    private readonly definition: AccessPolicyDefinition = { defaultAction: 'allow', rules: [] },
+    defaultOwner: string | undefined = config.ORACLE_USER
+  ) {
+    this.defaultOwner = defaultOwner?.toUpperCase();
+    this.rules = definition.rules.map((rule) => ({
+      effect: rule.effect,
+      objects: (rule.effect === 'mask' ? [] : rule.objects ?? []).map(objectMatcher),
+      columns: (rule.effect === 'allow' ? [] : rule.columns ?? []).map(columnMatcher),
+      mask: rule.effect === 'mask' ? { method: rule.method, keepLast: rule.keepLast } : undefined,
+      tools: rule.tools ? new Set(rule.tools) : undefined,
+    }));
+  }
+
+  /** True when the policy has no rules and allows everything */
+  get isUnrestricted(): boolean {
+    return this.definition.defaultAction === 'allow' && this.rules.length === 0;
+  }
+
+  private applicable(tool: string): CompiledRule[] {
+    return this.rules.filter((rule) => !rule.tools || rule.tools.has(tool));
+  }
+
+  private matches(matcher: ObjectMatcher, name: string, owner?: string): boolean {
+    const effectiveOwner = owner ?? this.defaultOwner;
+    if (matcher.owner && (!effectiveOwner || !matcher.owner.test(effectiveOwner))) return false;
+    return matcher.name.test(name);
+  }
+
+  /**
+   * May `tool` see or read the table / view `name`?
+   */
+  isObjectAllowed(tool: string, name: string, owner?: string): boolean {
+    const qualified = owner ? `${owner}.${name}` : name;
+    if (ALWAYS_ALLOWED.has(qualified.toUpperCase())) return true;
+
+    const rules = this.applicable(tool);
+    const hit = (rule: CompiledRule) => rule.objects.some((m) => this.matches(m, name, owner));
+
+    if (rules.some((rule) => rule.effect === 'deny' && hit(rule))) return false;
+    return this.definition.defaultAction === 'allow' || rules.some((rule) => rule.effect === 'allow' && hit(rule));
+  }
+
+  /**
+   * May `tool` see or read `column` of table `table`?
+   */
+  isColumnAllowed(tool: string, table: string, column: string, owner?: string): boolean {
+    if (!this.isObjectAllowed(tool, table, owner)) return false;
+    return !this.deniedColumnPatterns(tool, table, owner).some((pattern) => pattern.test(column));
+  }
+
+  private deniedColumnPatterns(tool: string, table: string, owner?: string): RegExp[] {
+    return this.applicable(tool)
+      .filter((rule) => rule.effect === 'deny')
+      .flatMap((rule) => rule.columns)
+      .filter((rule) => this.matches(rule.table, table, owner))
+      .map((rule) => rule.column);
+  }
+
+  /**
+   * How values of `column` in `table` must be masked for `tool`, if at all.
+   * The first matching mask rule wins.
+   */
+  columnMask(tool: string, table: string, column: string, owner?: string): MaskRule | undefined {
+    for (const rule of this.applicable(tool)) {
+      if (rule.mask && rule.columns.some((m) => this.matches(m.table, table, owner) && m.column.test(column))) {
+        return rule.mask;
+      }
+    }
+    return undefined;
+  }
+
+  private hasMaskedColumns(tool: string, table: string, owner?: string): boolean {
+    return this.applicable(tool).some((rule) => rule.mask && rule.columns.some((m) => this.matches(m.table, table, owner)));
+  }
+
+  /**
+   * Mask rules for the result columns of `sql`, keyed by result column name.
+   *
+   * Result columns carry no table name, so a rule applies to a result column
+   * with the rule's column name when the query reads a matching table.
+   * A masked column that the query uses but does not return under its own
+   * name (aliased, or wrapped in an expression) cannot be tracked, so the
+   * query is rejected, as is * passed to a function such as JSON_OBJECT(*)
+   * on a table with masked columns.
+   */
+  resultMasks(tool: string, sql: string, resultColumns: string[]): Map<string, MaskRule> {
+    const masks = new Map<string, MaskRule>();
+    if (this.isUnrestricted) return masks;
+
+    const references = extractSqlReferences(sql);
+    const sources: ObjectReference[] = references.objects.length > 0 ? references.objects : [{ name: 'DUAL' }];
+    const maskFor = (column: string) =>
+      sources.map((ref) => this.columnMask(tool, ref.name, column, ref.owner)).find(Boolean);
+
+    for (const column of resultColumns) {
+      const mask = maskFor(column);
+      if (mask) masks.set(column, mask);
+    }
+
+    if (references.wrapsStar) {
+      const masked = sources.filter((ref) => this.hasMaskedColumns(tool, ref.name, ref.owner));
+      if (masked.length > 0) {
+        const names = [...new Set(masked.map((ref) => [ref.owner, ref.name].filter(Boolean).join('.')))];
+        this.reject(
+          tool,
+          sql,
+          `Query passes * to a function on ${names.join(', ')}, which has masked columns; list the columns explicitly`
+        );
+      }
+    }
+
+    const returned = new Set(resultColumns);
+    const untracked = [...new Set(references.identifiers.filter((id) => !returned.has(id) && maskFor(id)))];
+    if (untracked.length > 0) {
+      this.reject(
+        tool,
+        sql,
+        `Query uses masked columns without returning them under their own name: ${untracked.join(', ')}. ` +
+          'Select masked columns directly, without an alias or expression'
+      );
+    }
+
+    return masks;
+  }
+
+  /**
+   * Throw if `sql` reads a denied object or column.
+   *
+   * Objects come from FROM / JOIN / APPLY sources; a query with a source
+   * that cannot be named (a table function, for instance) or that runs SQL
+   * given as text (DBMS_XMLGEN and the like) is rejected, since the objects
+   * it reads are unknown. A denied column is detected when its name appears
+   * anywhere in a query that reads its table; `SELECT *` or `JSON_OBJECT(*)`
+   * on such a table is rejected because it would expand to the column.
+   */
+  checkQuery(tool: string, sql: string): void {
+    if (this.isUnrestricted) return;
+
+    const references = extractSqlReferences(sql);
+    const describe = (ref: ObjectReference) => [ref.owner, ref.name].filter(Boolean).join('.');
+
+    if (references.unresolved) {
+      this.reject(tool, sql, 'Query reads from a source whose tables cannot be determined; select from named tables or subqueries, without dynamic SQL');
+    }
+
+    const deniedObjects = references.objects.filter((ref) => !this.isObjectAllowed(tool, ref.name, ref.owner));
+    if (deniedObjects.length > 0) {
+      const names = [...new Set(deniedObjects.map(describe))];
+      this.reject(tool, sql, `Query references objects that are not accessible: ${names.join(', ')}`);
+    }
+
+    for (const ref of references.objects) {
+      const patterns = this.deniedColumnPatterns(tool, ref.name, ref.owner);
+      if (patterns.length === 0) continue;
+
+      const deniedColumns = [...new Set(references.identifiers.filter((id) => patterns.some((p) => p.test(id))))];
+      if (deniedColumns.length > 0) {
+        this.reject(tool, sql, `Query references columns of ${describe(ref)} that are not accessible: ${deniedColumns.join(', ')}`);
+      }
+
+      if (references.selectsStar) {
+        this.reject(
+          tool,
+          sql,
+          `SELECT * is not allowed on ${describe(ref)} because some of its columns are restricted; list the columns explicitly`
+        );
+      }
+    }
+  }
+
+  private reject(tool: string, sql: string, message: string): never {
+    audit('Query rejected by access policy', { tool, query: sql.substring(0, 500), reason: message });
+    throw new Error(message);
+  }
+}
+
+/**
+ * Read and validate a policy file
+ */
+export function loadAccessPolicy(path: string): AccessPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Could not read ACCESS_POLICY_FILE ${path}: ${err.message}`);
+  }
+
+  const parsed = AccessPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ACCESS_POLICY_FILE ${path}: ${issues.join('; ')}`);
+  }
+
+  logger.info('Loaded access policy', {
+    path,
+    defaultAction: parsed.data.defaultAction,
+    ruleCount: parsed.data.rules.length,
+  });
+  return new AccessPolicy(parsed.data);
+}
+
+let cached: AccessPolicy | null = null;
+
+/**
+ * The active policy: ACCESS_POLICY_FILE if set, otherwise allow everything
+ */
+export function getAccessPolicy(): AccessPolicy {
+  if (cached) return cached;
+  cached = config.ACCESS_POLICY_FILE ? loadAccessPolicy(config.ACCESS_POLICY_FILE) : new AccessPolicy();
+  return cached;
+}
@@ -0,0 +1,99 @@
+/**
+ * Column masking for result data (mask rules in ACCESS_POLICY_FILE)
+ *
+ * Values are masked after they leave Oracle and before any tool returns
+ * them, for accounts that cannot use Oracle Data Redaction:
+ *
+ *   full     every value becomes "****"
+ *   partial  letters and digits are starred except the last `keepLast`;
+ *            binary and structured values are masked in full
+ *   hash     keyed HMAC-SHA256 (REDACTION_HASH_KEY), stable so values can
+ *            still be compared and grouped
+ *   null     every value becomes null
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import getConfig from '../config.js';
+import type { QueryResult } from '../database/types.js';
+import { getAccessPolicy } from './accessPolicy.js';
+
+const config = getConfig();
+
+export type MaskMethod = 'full' | 'partial' | 'hash' | 'null';
+
+export interface MaskRule {
+  method: MaskMethod;
+  /** Characters left visible by the partial method */
+  keepLast: number;
+}
+
+const FULL_MASK = '****';
+
+// Without a configured key, hashes are only stable for the life of the process
+const hashKey = config.REDACTION_HASH_KEY ?? randomBytes(32).toString('hex');
+
+function valueToString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  // BLOB summaries from lobs.ts and other structured values
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function maskPartial(text: string, keepLast: number): string {
+  const visible = text.replace(/[^A-Za-z0-9]/g, '').length;
+  // Showing the last N characters of a value not much longer than N gives it away
+  if (visible <= keepLast * 2) return FULL_MASK;
+
+  let toMask = visible - keepLast;
+  return text.replace(/[A-Za-z0-9]/g, (char) => (toMask-- > 0 ? '*' : char));
+}
+
+/**
+ * Mask one value. NULLs stay NULL so the agent can still tell missing data apart.
+ */
+export function maskValue(value: unknown, rule: MaskRule): unknown {
+  if (value === null || value === undefined) return value;
+
+  switch (rule.method) {
+    case 'null':
+      return null;
+    case 'hash':
+      return createHmac('sha256', hashKey).update(valueToString(value)).digest('hex').slice(0, 16);
+    case 'partial':
+      // The tail of a hex dump or a JSON object is no useful hint, only a leak
+      if (typeof value === 'object' && !(value instanceof Date)) return FULL_MASK;
+      return maskPartial(valueToString(value), rule.keepLast);
+    default:
+      return FULL_MASK;
+  }
+}
+
+/**
+ * Mask the named columns of each row; rows are copied, not modified
+ */
+export function redactRows(rows: Record<string, any>[], masks: Map<string, MaskRule>): Record<string, any>[] {
+  if (masks.size === 0) return rows;
+
+  return rows.map((row) => {
+    const copy = { ...row };
+    for (const [column, rule] of masks) {
+      if (column in copy) copy[column] = maskValue(copy[column], rule);
+    }
+    return copy;
+  });
+}
+
+/**
+ * Apply the active policy's mask rules to the rows of a query result.
+ * Throws when the query hides a masked column behind an alias or expression.
+ */
+export function redactQueryResult(tool: string, sql: string, result: QueryResult): QueryResult {
+  const masks = getAccessPolicy().resultMasks(tool, sql, result.columns);
+  if (masks.size === 0) return result;
+
+  const columnMetadata = result.columnMetadata?.map((column) =>
+    masks.has(column.name) ? { ...column, masked: true } : column
+  );
+  return { ...result, rows: redactRows(result.rows, masks), columnMetadata, maskedColumns: [...masks.keys()] };
+}
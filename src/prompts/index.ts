@@ -0,0 +1,16 @@
+/**
+ * Prompt registry for the MCP server
+ *
+ * Each prompt is a `definePrompt(...)` definition (name, title, description,
+ * zod arguments, builder). server.ts builds prompts/list and answers
+ * prompts/get from this registry.
+ */
+
+import { PromptRegistry } from './registry.js';
+import { exploreTablePrompt, investigateSlowQueryPrompt, profileColumnPrompt, writeJoinPrompt } from './workflows.js';
+
+export { definePrompt, PromptRegistry, type PromptContext, type PromptDefinition } from './registry.js';
+
+export function createPromptRegistry(): PromptRegistry {
+  return new PromptRegistry([exploreTablePrompt, writeJoinPrompt, investigateSlowQueryPrompt, profileColumnPrompt]);
+}
@@ -0,0 +1,86 @@
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { z } from 'zod';
+import type { ExecutionContext } from '../database/cancellation.js';
+
+/**
+ * Per-request context handed to prompt builders, so the discovery calls they
+ * make are cancelled with the prompts/get request
+ */
+export type PromptContext = ExecutionContext;
+
+/**
+ * A single MCP prompt: its public metadata, arguments and builder.
+ *
+ * MCP prompt arguments are always strings. The zod object lists them: each
+ * key becomes an argument in prompts/list, with its `.describe()` text, and
+ * optional keys are advertised as not required.
+ */
+export interface PromptDefinition<TSchema extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  title: string;
+  description: string;
+  argumentsSchema: TSchema;
+  /** Text of the user message, with live schema context embedded */
+  build(args: z.output<TSchema>, context: PromptContext): Promise<string>;
+}
+
+/**
+ * Identity helper that keeps the builder's argument type tied to the schema.
+ */
+export function definePrompt<TSchema extends z.AnyZodObject>(definition: PromptDefinition<TSchema>): PromptDefinition<TSchema> {
+  return definition;
+}
+
+/**
+ * Convert a prompt definition to the shape advertised in prompts/list
+ */
+export function toMcpPrompt(definition: PromptDefinition): Prompt {
+  return {
+    name: definition.name,
+    title: definition.title,
+    description: definition.description,
+    arguments: Object.entries(definition.argumentsSchema.shape as Record<string, z.ZodTypeAny>).map(([name, schema]) => ({
+      name,
+      description: schema.description,
+      required: !schema.isOptional(),
+    })),
+  };
+}
+
+/**
+ * Lookup table over a list of prompt definitions
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  constructor(definitions: PromptDefinition[] = []) {
+    for (const definition of definitions) {
+      if (this.prompts.has(definition.name)) {
+        throw new Error(`Prompt already registered: ${definition.name}`);
+      }
+      this.prompts.set(definition.name, definition);
+    }
+  }
+
+  list(): Prompt[] {
+    return Array.from(this.prompts.values(), toMcpPrompt);
+  }
+
+  /**
+   * Validate arguments against the prompt's schema and build its message
+   */
+  async get(name: string, args: Record<string, string> | undefined, context: PromptContext = {}): Promise<GetPromptResult> {
+    const definition = this.prompts.get(name);
+    if (!definition) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const validated = definition.argumentsSchema.parse(args ?? {});
+    const text = await definition.build(validated, context);
+
+    return {
+      description: definition.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Guided Oracle exploration workflows, offered as MCP prompts
+ *
+ * Each prompt fetches live schema context through the discovery functions
+ * (with the caller's access policy applied) and embeds it in a single user
+ * message, followed by the steps the assistant should take next. Embedded
+ * output goes through the response formatter, so it is held to the same
+ * limits as a tool response.
+ */
+
+import { z } from 'zod';
+import { extractSqlReferences } from '../database/sqlReferences.js';
+import { describeTable } from '../tools/discovery/describeTable.js';
+import { getSampleValues } from '../tools/discovery/getSampleValues.js';
+import { getTableRelations } from '../tools/discovery/getTableRelations.js';
+import { explainQuery } from '../tools/explainQuery.js';
+import { formatToolResponse } from '../utils/responseFormatter.js';
+import { definePrompt } from './registry.js';
+
+// Tables described for investigate_slow_query, in the order the query names them
+const MAX_QUERY_TABLES = 5;
+
+// Conventions from the project's SQL guidelines, repeated wherever a prompt asks for SQL
+const SQL_STYLE =
+  'Write Oracle SQL with UPPERCASE keywords, meaningful table aliases and explicit column lists (no SELECT *), and limit rows with FETCH FIRST n ROWS ONLY.';
+
+/**
+ * A discovery result as a fenced block under `heading`
+ */
+function contextBlock(heading: string, toolName: string, result: unknown): string {
+  return `### ${heading}\n\n\`\`\`json\n${formatToolResponse(toolName, result, 'json', { spill: false })}\n\`\`\``;
+}
+
+function message(intro: string, steps: string[], context: string[]): string {
+  return [intro, '', ...steps.map((step, i) => `${i + 1}. ${step}`), '', '## Live schema context', '', context.join('\n\n')].join('\n');
+}
+
+export const exploreTablePrompt = definePrompt({
+  name: 'explore_table',
+  title: 'Explore a table',
+  description: 'Explain a table from its columns, relationships and sample values, and suggest first queries against it.',
+  argumentsSchema: z.object({
+    tableName: z.string().min(1, 'Table name is required').describe('Table to explore'),
+  }),
+  async build({ tableName }, context) {
+    const table = tableName.toUpperCase();
+    const description = await describeTable({ tableName: table, includeConstraints: true }, context);
+    const relations = await getTableRelations({ tableName: table }, context);
+    const samples = await getSampleValues({ tableName: table, sampleSize: 3 }, context);
+
+    return message(
+      `Help me understand the Oracle table ${table}, using the live schema context below.`,
+      [
+        'Explain what one row represents and the role of the important columns, using the column comments where present.',
+        'Describe how the table connects to other tables through its foreign keys, in both directions.',
+        'Point out data formats or quirks visible in the sample values: codes, mostly-NULL columns, date and number formats.',
+        `Suggest three starter queries to run with query_database, each with a one-line purpose. ${SQL_STYLE}`,
+      ],
+      [
+        contextBlock(`Columns and constraints (describeTable ${table})`, 'describeTable', description),
+        contextBlock(`Relationships (getTableRelations ${table})`, 'getTableRelations', relations),
+        contextBlock(`Sample values (getSampleValues ${table})`, 'getSampleValues', samples),
+      ]
+    );
+  },
+});
+
+export const writeJoinPrompt = definePrompt({
+  name: 'write_join',
+  title: 'Write a join between two tables',
+  description: 'Find how two tables connect and write the join query, checked with explain_query.',
+  argumentsSchema: z.object({
+    leftTable: z.string().min(1, 'Left table is required').describe('First table of the join'),
+    rightTable: z.string().min(1, 'Right table is required').describe('Second table of the join'),
+    question: z.string().optional().describe('What the joined result should answer (optional)'),
+  }),
+  async build({ leftTable, rightTable, question }, context) {
+    const left = leftTable.toUpperCase();
+    const right = rightTable.toUpperCase();
+    const blocks: string[] = [];
+    for (const table of [left, right]) {
+      const description = await describeTable({ tableName: table, includeConstraints: true }, context);
+      const relations = await getTableRelations({ tableName: table }, context);
+      blocks.push(
+        contextBlock(`Columns and constraints (describeTable ${table})`, 'describeTable', description),
+        contextBlock(`Relationships (getTableRelations ${table})`, 'getTableRelations', relations)
+      );
+    }
+
+    return message(
+      `Write a query joining ${left} and ${right}${question ? ` to answer: ${question}` : ''}.`,
+      [
+        'If a foreign key links the two tables directly, join on its columns.',
+        'Otherwise find a path through one intermediate table (suggestRelatedTables can help) or through columns with matching names and types, and say which path you chose and why.',
+        'State the join type and what happens to rows without a match on either side.',
+        `Write the query. ${SQL_STYLE}`,
+        'Check its plan with explain_query before running it with query_database.',
+      ],
+      blocks
+    );
+  },
+});
+
+export const investigateSlowQueryPrompt = definePrompt({
+  name: 'investigate_slow_query',
+  title: 'Investigate a slow query',
+  description: 'Read the execution plan of a slow query next to the definitions of its tables, and propose faster versions.',
+  argumentsSchema: z.object({
+    query: z.string().min(1, 'Query cannot be empty').describe('The slow SELECT statement'),
+  }),
+  async build({ query }, context) {
+    const plan = await explainQuery({ query }, context);
+    const blocks = [contextBlock('Execution plan (explain_query)', 'explain_query', plan)];
+
+    // Qualified names belong to other schemas, which describeTable does not cover
+    let tables: string[] = [];
+    try {
+      tables = [...new Set(extractSqlReferences(query).objects.filter((ref) => !ref.owner).map((ref) => ref.name))];
+    } catch {
+      // The plan block already reports statements that cannot be read
+    }
+    for (const table of tables.slice(0, MAX_QUERY_TABLES)) {
+      const description = await describeTable({ tableName: table, includeConstraints: true }, context);
+      blocks.push(contextBlock(`Columns and constraints (describeTable ${table})`, 'describeTable', description));
+    }
+
+    return message(
+      'This query is slow. Help me find out why and make it faster.',
+      [
+        'Walk through the execution plan from the innermost step outwards and name the most expensive steps.',
+        'Look for full scans of large tables, MERGE JOIN CARTESIAN, and row estimates far from what the filters suggest.',
+        'Check the predicates against the constraints: functions or implicit type conversions on key columns, leading wildcards in LIKE, OR conditions that defeat index access.',
+        `Propose rewritten versions of the query, each with the reason it should be faster. ${SQL_STYLE}`,
+        'Compare the plans of the rewrites with explain_query before recommending one.',
+      ],
+      [`### Query\n\n\`\`\`sql\n${query}\n\`\`\``, ...blocks]
+    );
+  },
+});
+
+export const profileColumnPrompt = definePrompt({
+  name: 'profile_column',
+  title: 'Profile column quality',
+  description: 'Measure the completeness, spread and suspicious values of one column and summarize its data quality.',
+  argumentsSchema: z.object({
+    tableName: z.string().min(1, 'Table name is required').describe('Table that holds the column'),
+    columnName: z.string().min(1, 'Column name is required').describe('Column to profile'),
+  }),
+  async build({ tableName, columnName }, context) {
+    const table = tableName.toUpperCase();
+    const column = columnName.toUpperCase();
+    const description = await describeTable({ tableName: table, includeConstraints: true }, context);
+    const definition = description.success
+      ? { success: true, data: description.data?.columns.find((candidate) => candidate.columnName === column) ?? null }
+      : description;
+    const samples = await getSampleValues({ tableName: table, columnNames: [column], sampleSize: 10 }, context);
+
+    return message(
+      `Profile the data quality of ${table}.${column}.`,
+      [
+        `Write one query for query_database that returns the row count, NULL count and percentage, distinct count, minimum and maximum (or minimum and maximum length for text), and the 10 most frequent values with their counts. ${SQL_STYLE}`,
+        'From the results and the samples below, look for quality issues: leading or trailing spaces, case variants of the same value, placeholder values such as N/A, 0 or 1900-01-01, out-of-range numbers, future dates, and values that break the column comment.',
+        'Summarize the findings as a table of issue, evidence and suggested fix.',
+      ],
+      [
+        contextBlock(`Column definition (describeTable ${table})`, 'describeTable', definition),
+        contextBlock(`Sample values (getSampleValues ${table}.${column})`, 'getSampleValues', samples),
+      ]
+    );
+  },
+});
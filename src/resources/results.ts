@@ -0,0 +1,162 @@
+/**
+ * Spilled result sets, readable as MCP resources
+ *
+ * When a tool result cannot fit in MCP_MAX_RESPONSE_CHARS, the response
+ * formatter keeps every row here and answers with the first rows and a URI:
+ *
+ *   oracle://results/<id>                       first rows
+ *   oracle://results/<id>?offset=200&limit=100  a range of rows
+ *
+ * Results live in memory for RESULT_RESOURCE_TTL_MS after they were last read,
+ * at most RESULT_RESOURCE_MAX at a time (least recently used go first). Each
+ * one belongs to the MCP session that produced it.
+ */
+
+import { randomUUID } from 'node:crypto';
+import getConfig from '../config.js';
+import { SchemaCache } from '../tools/discovery/cache.js';
+
+const config = getConfig();
+
+export const RESULT_URI_PREFIX = 'oracle://results/';
+
+/** RFC 6570 template advertised in resources/templates/list */
+export const RESULT_URI_TEMPLATE = `${RESULT_URI_PREFIX}{id}{?offset,limit}`;
+
+export interface StoredResult {
+  /** Tool whose response was spilled */
+  tool: string;
+  columns: string[];
+  columnMetadata?: unknown[];
+  rows: unknown[];
+  createdAt: string;
+  sessionId?: string;
+}
+
+/**
+ * Where a response's rows sit in a stored result. The response formatter
+ * sets returnedRows and nextUri to the rows it actually returned.
+ */
+export interface ResultResourceInfo {
+  uri: string;
+  offset: number;
+  limit: number;
+  returnedRows: number;
+  totalRows: number;
+  /** URI of the next range; null on the last one */
+  nextUri: string | null;
+}
+
+/**
+ * One range of a stored result, shaped like a query_database result so the
+ * response formatter applies the usual limits
+ */
+export interface ResultPage {
+  success: true;
+  data: { rows: unknown[]; rowCount: number; columns: string[]; columnMetadata?: unknown[] };
+  resultResource: ResultResourceInfo;
+}
+
+const resultStore = new SchemaCache(Math.max(1, config.RESULT_RESOURCE_MAX), config.RESULT_RESOURCE_TTL_MS);
+
+/**
+ * Whether results may be spilled at all (RESULT_RESOURCE_MAX > 0)
+ */
+export function canStoreResults(): boolean {
+  return config.RESULT_RESOURCE_MAX > 0;
+}
+
+/**
+ * Keep `result` and return its resource URI
+ */
+export function storeResult(result: Omit<StoredResult, 'createdAt'>): string {
+  const id = randomUUID();
+  resultStore.set(id, { ...result, createdAt: new Date().toISOString() });
+  return `${RESULT_URI_PREFIX}${id}`;
+}
+
+/**
+ * URI of the range of rows starting at `offset`
+ */
+export function resultPageUri(uri: string, offset: number, limit: number): string {
+  const base = uri.split('?')[0];
+  return `${base}?offset=${offset}&limit=${limit}`;
+}
+
+/**
+ * The `offset` or `limit` query parameter of a resource URI
+ */
+export function parseCount(value: string | null, name: string, fallback: number): number {
+  if (value === null) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name} "${value}" in resource URI: expected a non-negative integer`);
+  }
+  return count;
+}
+
+function findResult(id: string, sessionId?: string): StoredResult {
+  const stored = resultStore.get<StoredResult>(id);
+  // Another session's result is reported like an expired one
+  if (!stored || stored.sessionId !== sessionId) {
+    throw new Error(
+      `Result ${RESULT_URI_PREFIX}${id} expired or unknown (results expire after ${config.RESULT_RESOURCE_TTL_MS} ms unread). Re-run the original tool call.`
+    );
+  }
+  return stored;
+}
+
+/**
+ * Rows `offset` to `offset + limit` of a stored result. `limit` defaults to
+ * and is capped at MCP_MAX_ROWS_IN_RESPONSE. Reading refreshes the TTL.
+ */
+export function readResultPage(uri: string, sessionId?: string): ResultPage {
+  if (!uri.startsWith(RESULT_URI_PREFIX)) {
+    throw new Error(`Unknown resource ${uri}`);
+  }
+
+  const url = new URL(uri);
+  const id = url.pathname.replace(/^\//, '');
+  const stored = findResult(id, sessionId);
+  resultStore.set(id, stored);
+
+  const offset = parseCount(url.searchParams.get('offset'), 'offset', 0);
+  const limit = Math.min(
+    parseCount(url.searchParams.get('limit'), 'limit', config.MCP_MAX_ROWS_IN_RESPONSE) || config.MCP_MAX_ROWS_IN_RESPONSE,
+    config.MCP_MAX_ROWS_IN_RESPONSE
+  );
+  const rows = stored.rows.slice(offset, offset + limit);
+  const base = `${RESULT_URI_PREFIX}${id}`;
+  const nextOffset = offset + rows.length;
+
+  return {
+    success: true,
+    data: { rows, rowCount: stored.rows.length, columns: stored.columns, columnMetadata: stored.columnMetadata },
+    resultResource: {
+      uri: base,
+      offset,
+      limit,
+      returnedRows: rows.length,
+      totalRows: stored.rows.length,
+      nextUri: nextOffset < stored.rows.length ? resultPageUri(base, nextOffset, limit) : null,
+    },
+  };
+}
+
+/**
+ * Stored results visible to `sessionId`, for resources/list
+ */
+export function listResults(sessionId?: string): Array<{ uri: string; name: string; description: string; mimeType: string }> {
+  return resultStore.keys().flatMap((id) => {
+    const stored = resultStore.get<StoredResult>(id);
+    if (!stored || stored.sessionId !== sessionId) return [];
+    return [
+      {
+        uri: `${RESULT_URI_PREFIX}${id}`,
+        name: `${stored.tool} result (${stored.rows.length} rows)`,
+        description: `Full result of a ${stored.tool} call at ${stored.createdAt} that did not fit in one response. Add ?offset=N&limit=M to read a range.`,
+        mimeType: 'application/json',
+      },
+    ];
+  });
+}
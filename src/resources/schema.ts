@@ -0,0 +1,199 @@
+/**
+ * Tables and views as MCP resources, so clients can pin definitions without
+ * a tool call:
+ *
+ *   oracle://schema          index of every accessible table and view
+ *   oracle://schema/<NAME>   describeTable output: columns, constraints, comments
+ *
+ * The index is read in pages of at most MCP_MAX_ROWS_IN_RESPONSE objects;
+ * `oracle://schema?offset=N&limit=M` selects a range and each page links the
+ * next one. Visibility follows the access policy for describeTable, so every
+ * listed object can be read. The index is cached with the other schema
+ * metadata.
+ */
+
+import oracledb from 'oracledb';
+import getConfig from '../config.js';
+import { trackExecution, type ExecutionContext } from '../database/cancellation.js';
+import { getConnection } from '../database/oracleConnection.js';
+import { getAccessPolicy } from '../policy/accessPolicy.js';
+import { schemaCache } from '../tools/discovery/cache.js';
+import { describeTable } from '../tools/discovery/describeTable.js';
+import logger from '../utils/logger.js';
+import { parseCount, resultPageUri } from './results.js';
+
+const config = getConfig();
+
+export const SCHEMA_INDEX_URI = 'oracle://schema';
+
+export const SCHEMA_URI_PREFIX = `${SCHEMA_INDEX_URI}/`;
+
+/** RFC 6570 template advertised in resources/templates/list */
+export const SCHEMA_URI_TEMPLATE = `${SCHEMA_URI_PREFIX}{name}`;
+
+export interface SchemaObject {
+  name: string;
+  type: 'TABLE' | 'VIEW';
+  comments?: string;
+  uri: string;
+}
+
+const INDEX_CACHE_KEY = 'schemaResources:index';
+
+/**
+ * Resource URI of the table or view `name`
+ */
+export function schemaObjectUri(name: string): string {
+  return `${SCHEMA_URI_PREFIX}${encodeURIComponent(name)}`;
+}
+
+/**
+ * Whether `uri` names the schema index or a table or view
+ */
+export function isSchemaUri(uri: string): boolean {
+  return uri === SCHEMA_INDEX_URI || uri.startsWith(`${SCHEMA_INDEX_URI}?`) || uri.startsWith(SCHEMA_URI_PREFIX);
+}
+
+async function listSchemaObjects(context?: ExecutionContext): Promise<SchemaObject[]> {
+  const cached = schemaCache.get<SchemaObject[]>(INDEX_CACHE_KEY);
+  if (cached) return cached;
+
+  let connection;
+  let untrack: (() => void) | undefined;
+
+  try {
+    connection = await getConnection();
+    untrack = trackExecution(context, connection, 'schemaResources');
+
+    const result = await connection.execute(
+      `
+        SELECT o.object_name, o.object_type, c.comments
+        FROM user_objects o
+        LEFT JOIN user_tab_comments c ON o.object_name = c.table_name
+        WHERE o.object_type IN ('TABLE', 'VIEW')
+          AND o.generated = 'N'
+        ORDER BY o.object_name
+      `,
+      [],
+      { outFormat: oracledb.OUT_FORMAT_OBJECT, maxRows: 5000 }
+    );
+
+    const policy = getAccessPolicy();
+    const objects = (result.rows as any[])
+      .filter((row) => policy.isObjectAllowed('describeTable', row.OBJECT_NAME))
+      .map((row) => {
+        const object: SchemaObject = {
+          name: row.OBJECT_NAME,
+          type: row.OBJECT_TYPE,
+          uri: schemaObjectUri(row.OBJECT_NAME),
+        };
+        if (row.COMMENTS) {
+          object.comments = row.COMMENTS;
+        }
+        return object;
+      });
+
+    schemaCache.set(INDEX_CACHE_KEY, objects);
+    logger.info('Schema resources listed', { count: objects.length });
+    return objects;
+  } finally {
+    untrack?.();
+
+    if (connection) {
+      try {
+        await connection.close();
+      } catch (err) {
+        logger.error('Error releasing connection', { error: err });
+      }
+    }
+  }
+}
+
+/**
+ * The index and one resource per accessible table and view, for resources/list
+ */
+export async function listSchemaResources(
+  context?: ExecutionContext
+): Promise<Array<{ uri: string; name: string; description: string; mimeType: string }>> {
+  const objects = await listSchemaObjects(context);
+
+  return [
+    {
+      uri: SCHEMA_INDEX_URI,
+      name: 'Schema index',
+      description: `The ${objects.length} accessible tables and views, with their comments and resource URIs. Read in pages; follow page.nextUri for the rest.`,
+      mimeType: 'application/json',
+    },
+    ...objects.map((object) => ({
+      uri: object.uri,
+      name: object.name,
+      description: object.comments ?? `${object.type === 'VIEW' ? 'View' : 'Table'} ${object.name}: columns, constraints and comments`,
+      mimeType: 'application/json',
+    })),
+  ];
+}
+
+export interface SchemaIndexPage {
+  offset: number;
+  limit: number;
+  returnedObjects: number;
+  totalObjects: number;
+  /** URI of the following page, null on the last one */
+  nextUri: string | null;
+}
+
+/**
+ * Objects `offset` to `offset + limit` of the index. `limit` defaults to and
+ * is capped at MCP_MAX_ROWS_IN_RESPONSE, so the response formatter never
+ * drops objects from a page.
+ */
+async function readSchemaIndexPage(
+  uri: string,
+  context?: ExecutionContext
+): Promise<{ success: boolean; data: SchemaObject[]; page: SchemaIndexPage }> {
+  const params = new URLSearchParams(uri.slice(SCHEMA_INDEX_URI.length + 1));
+  const offset = parseCount(params.get('offset'), 'offset', 0);
+  const limit = Math.min(
+    parseCount(params.get('limit'), 'limit', config.MCP_MAX_ROWS_IN_RESPONSE) || config.MCP_MAX_ROWS_IN_RESPONSE,
+    config.MCP_MAX_ROWS_IN_RESPONSE
+  );
+
+  const objects = await listSchemaObjects(context);
+  const data = objects.slice(offset, offset + limit);
+  const nextOffset = offset + data.length;
+
+  return {
+    success: true,
+    data,
+    page: {
+      offset,
+      limit,
+      returnedObjects: data.length,
+      totalObjects: objects.length,
+      nextUri: nextOffset < objects.length ? resultPageUri(SCHEMA_INDEX_URI, nextOffset, limit) : null,
+    },
+  };
+}
+
+/**
+ * Content of a schema resource, shaped like a tool result so the response
+ * formatter applies the usual limits
+ */
+export async function readSchemaResource(
+  uri: string,
+  context?: ExecutionContext
+): Promise<{ success: boolean; data?: unknown; error?: string; page?: SchemaIndexPage }> {
+  if (uri === SCHEMA_INDEX_URI || uri.startsWith(`${SCHEMA_INDEX_URI}?`)) {
+    return readSchemaIndexPage(uri, context);
+  }
+  if (!uri.startsWith(SCHEMA_URI_PREFIX)) {
+    throw new Error(`Unknown resource ${uri}`);
+  }
+
+  const name = decodeURIComponent(uri.slice(SCHEMA_URI_PREFIX.length));
+  const result = await describeTable({ tableName: name, includeConstraints: true }, context);
+  if (!result.success) {
+    throw new Error(result.error ?? `Table ${name} not found or not accessible`);
+  }
+  return result;
+}
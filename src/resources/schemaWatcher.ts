@@ -0,0 +1,177 @@
+/**
+ * Schema change watcher for oracle://schema resources
+ *
+ * Polls user_objects.last_ddl_time every SCHEMA_WATCH_INTERVAL_MS (the column
+ * listTables reports as lastModified) and compares it with the last poll:
+ *
+ *   changed  DDL time moved: ALTER, CREATE OR REPLACE, GRANT and the like
+ *   created  a table or view that was not there before
+ *   dropped  one that is gone
+ *
+ * Cached discovery output for those objects is dropped before listeners hear
+ * about the change, so a resource read right after a migration is current.
+ * The first poll only records the baseline.
+ */
+
+import oracledb from 'oracledb';
+import getConfig from '../config.js';
+import { getConnection } from '../database/oracleConnection.js';
+import { getAccessPolicy } from '../policy/accessPolicy.js';
+import { schemaCache } from '../tools/discovery/cache.js';
+import logger from '../utils/logger.js';
+
+const config = getConfig();
+
+export interface SchemaChanges {
+  changed: string[];
+  created: string[];
+  dropped: string[];
+}
+
+export type SchemaChangeListener = (changes: SchemaChanges) => void;
+
+const listeners = new Set<SchemaChangeListener>();
+
+// Object name -> last DDL time at the previous poll
+let snapshot: Map<string, string> | undefined;
+let timer: NodeJS.Timeout | undefined;
+let polling = false;
+
+/**
+ * Call `listener` after every poll that found changes; returns the unsubscribe function
+ */
+export function watchSchemaChanges(listener: SchemaChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function readDdlTimes(): Promise<Map<string, string>> {
+  let connection;
+
+  try {
+    connection = await getConnection();
+    const result = await connection.execute(
+      `
+        SELECT object_name, TO_CHAR(last_ddl_time, 'YYYY-MM-DD HH24:MI:SS') AS last_ddl_time
+        FROM user_objects
+        WHERE object_type IN ('TABLE', 'VIEW')
+          AND generated = 'N'
+      `,
+      [],
+      { outFormat: oracledb.OUT_FORMAT_OBJECT, maxRows: 0 }
+    );
+
+    // Objects the schema resources do not show are not reported either
+    const policy = getAccessPolicy();
+    return new Map(
+      (result.rows as any[])
+        .filter((row) => policy.isObjectAllowed('describeTable', row.OBJECT_NAME))
+        .map((row) => [row.OBJECT_NAME as string, String(row.LAST_DDL_TIME)])
+    );
+  } finally {
+    if (connection) {
+      try {
+        await connection.close();
+      } catch (err) {
+        logger.error('Error releasing connection', { error: err });
+      }
+    }
+  }
+}
+
+function diffSnapshots(before: Map<string, string>, after: Map<string, string>): SchemaChanges {
+  const changes: SchemaChanges = { changed: [], created: [], dropped: [] };
+
+  for (const [name, ddlTime] of after) {
+    const previous = before.get(name);
+    if (previous === undefined) changes.created.push(name);
+    else if (previous !== ddlTime) changes.changed.push(name);
+  }
+  for (const name of before.keys()) {
+    if (!after.has(name)) changes.dropped.push(name);
+  }
+
+  return changes;
+}
+
+/**
+ * Drop cached discovery output the changes make stale. Listings carry DDL
+ * times and relations span tables, so those go on any change.
+ */
+function invalidateCache(changes: SchemaChanges): void {
+  const names = new Set([...changes.changed, ...changes.created, ...changes.dropped]);
+
+  for (const key of schemaCache.keys()) {
+    const [kind, name] = key.split(':');
+    if (kind === 'describeTable' ? names.has(name) : ['listTables', 'tableRelations', 'schemaResources'].includes(kind)) {
+      schemaCache.delete(key);
+    }
+  }
+}
+
+/**
+ * Compare DDL times with the previous poll, invalidate the schema cache and
+ * notify listeners. Returns undefined on the first poll, which sets the
+ * baseline, and while another poll is running.
+ */
+export async function pollSchemaChanges(): Promise<SchemaChanges | undefined> {
+  if (polling) return undefined;
+  polling = true;
+
+  try {
+    const current = await readDdlTimes();
+    const previous = snapshot;
+    snapshot = current;
+    if (!previous) return undefined;
+
+    const changes = diffSnapshots(previous, current);
+    if (changes.changed.length + changes.created.length + changes.dropped.length === 0) {
+      return changes;
+    }
+
+    invalidateCache(changes);
+    logger.info('Schema changes detected', { ...changes });
+
+    for (const listener of listeners) {
+      try {
+        listener(changes);
+      } catch (err: any) {
+        logger.error('Schema change listener failed', { error: err?.message ?? err });
+      }
+    }
+    return changes;
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Poll every SCHEMA_WATCH_INTERVAL_MS until stopSchemaWatcher(); does nothing
+ * when the interval is 0 or the watcher already runs
+ */
+export function startSchemaWatcher(): void {
+  if (timer || config.SCHEMA_WATCH_INTERVAL_MS === 0) return;
+
+  const poll = () =>
+    pollSchemaChanges().catch((err: any) => {
+      logger.warn('Schema change poll failed', { error: err?.message ?? err });
+    });
+
+  void poll();
+  timer = setInterval(poll, config.SCHEMA_WATCH_INTERVAL_MS);
+  // The watcher alone should not keep the process alive
+  timer.unref();
+
+  logger.info('Schema change watcher started', { intervalMs: config.SCHEMA_WATCH_INTERVAL_MS });
+}
+
+/**
+ * Stop polling and forget the baseline
+ */
+export function stopSchemaWatcher(): void {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+  snapshot = undefined;
+}
@@ -3,37 +3,37 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
     CallToolRequestSchema,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ListToolsRequestSchema,
-    Tool,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import getConfig from './config.js';
 import { closePool, getOrCreatePool } from './database/oracleConnection.js';
-import {
-    describeTable,
-    DescribeTableSchema,
-    getSampleValues,
-    GetSampleValuesSchema,
-    getTableRelations,
-    GetTableRelationsSchema,
-    listTables,
-    ListTablesSchema,
-    suggestRelatedTables,
-    SuggestRelatedTablesSchema,
-} from './tools/discovery/index.js';
-import { getDatabaseSchema, GetSchemaSchema } from './tools/getSchema.js';
-import { queryDatabase, QueryDatabaseSchema } from './tools/queryDatabase.js';
+import { getAccessPolicy } from './policy/accessPolicy.js';
+import { createPromptRegistry } from './prompts/index.js';
+import { listResults, readResultPage, RESULT_URI_TEMPLATE } from './resources/results.js';
+import { isSchemaUri, listSchemaResources, readSchemaResource, schemaObjectUri, SCHEMA_INDEX_URI, SCHEMA_URI_TEMPLATE } from './resources/schema.js';
+import { startSchemaWatcher, stopSchemaWatcher, watchSchemaChanges, type SchemaChanges } from './resources/schemaWatcher.js';
+import { createToolRegistry } from './tools/index.js';
+import { startHttpTransport, type HttpTransportHandle } from './transport/httpTransport.js';
 import logger from './utils/logger.js';
+import { ResponseEncodingSchema } from './utils/encodings.js';
 import { formatToolResponse } from './utils/responseFormatter.js';
 
 const config = getConfig();
+const toolRegistry = createToolRegistry();
+const promptRegistry = createPromptRegistry();
 
-async function start() {
-  logger.info('Starting MCP server', {
-    name: config.SERVER_NAME,
-    version: config.SERVER_VERSION,
-  });
-
-  // Create the MCP server
+/**
+ * Build an MCP server instance with all tool handlers registered.
+ * Stdio mode uses a single instance; HTTP mode creates one per session.
+ */
+function createServer(): Server {
   const server = new Server(
     {
       name: config.SERVER_NAME,
@@ -42,242 +42,44 @@ async function start() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
     }
   );
 
-  // Define available tools
-  const tools: Tool[] = [
-    {
-      name: 'query_database',
-      description:
-        'Execute a read-only SQL SELECT query against the Oracle database. Returns rows, column names, and execution metrics.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'The SQL query to execute (SELECT statements only)',
-          },
-          maxRows: {
-            type: 'number',
-            description: 'Maximum number of rows to return (optional)',
-          },
-          timeout: {
-            type: 'number',
-            description: 'Query timeout in milliseconds (optional)',
-          },
-        },
-        required: ['query'],
-      },
-    },
-    {
-      name: 'get_database_schema',
-      description:
-        'Get database schema information. If tableName is provided, returns column details for that table. Otherwise, returns a list of all accessible tables.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          tableName: {
-            type: 'string',
-            description: 'Optional table name to get column information for',
-          },
-        },
-      },
-    },
-    {
-      name: 'listTables',
-      description:
-        'Get a summary of all accessible tables with optional row counts and modification timestamps. Includes table comments for semantic hints. Use this before querying to discover available tables.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          includeRowCounts: {
-            type: 'boolean',
-            description: 'Whether to include approximate row counts (slower but more informative)',
-          },
-        },
-      },
-    },
-    {
-      name: 'describeTable',
-      description:
-        'Get detailed column-level metadata for a specific table including data types, nullable constraints, default values, and column comments. Also returns table constraints like primary keys, foreign keys, and unique constraints.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          tableName: {
-            type: 'string',
-            description: 'Name of the table to describe',
-          },
-          includeConstraints: {
-            type: 'boolean',
-            description: 'Whether to include constraint information (default: true)',
-          },
-        },
-        required: ['tableName'],
-      },
-    },
-    {
-      name: 'getTableRelations',
-      description:
-        'Get foreign key relationships for a table in an easily parseable JSON format. Returns both outgoing foreign keys (to other tables) and incoming references (from other tables). Helpful for understanding table relationships before writing JOIN queries.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          tableName: {
-            type: 'string',
-            description: 'Name of the table to get relationships for',
-          },
-        },
-        required: ['tableName'],
-      },
-    },
-    {
-      name: 'getSampleValues',
-      description:
-        'Get sample values from table columns to understand data patterns and formats. Includes distinct counts and null counts. SAFETY: Strictly limited to max 10 rows per column to prevent resource exhaustion.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          tableName: {
-            type: 'string',
-            description: 'Name of the table to get sample values from',
-          },
-          columnNames: {
-            type: 'array',
-            items: { type: 'string' },
-            description: 'Optional array of specific column names to sample (if omitted, samples all columns)',
-          },
-          sampleSize: {
-            type: 'number',
-            description: 'Number of sample rows to retrieve per column (1-10, default: 3)',
-          },
-        },
-        required: ['tableName'],
-      },
-    },
-    {
-      name: 'suggestRelatedTables',
-      description:
-        'Suggest tables that may be related to the given table based on foreign keys, naming patterns, or shared columns. Returns suggestions with confidence scores and relationship descriptions. Useful for discovering relevant tables when building complex queries.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          tableName: {
-            type: 'string',
-            description: 'Name of the table to find related tables for',
-          },
-          maxSuggestions: {
-            type: 'number',
-            description: 'Maximum number of suggestions to return (1-20, default: 10)',
-          },
-        },
-        required: ['tableName'],
-      },
-    },
-  ];
-
   // Handle tools/list request
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     logger.debug('Handling tools/list request');
-    return { tools };
+    return { tools: toolRegistry.list() };
   });
 
   // Handle tools/call request
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
-    logger.info('Tool called', { name, args });
+    logger.info('Tool called', { name, args, requestId: extra.requestId });
 
     try {
-      if (name === 'query_database') {
-        const validated = QueryDatabaseSchema.parse(args);
-        const result = await queryDatabase(validated);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: formatToolResponse(name, result),
-            },
-          ],
-        };
-      } else if (name === 'get_database_schema') {
-        const validated = GetSchemaSchema.parse(args || {});
-        const result = await getDatabaseSchema(validated);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: formatToolResponse(name, result),
-            },
-          ],
-        };
-      } else if (name === 'listTables') {
-        const validated = ListTablesSchema.parse(args || {});
-        const result = await listTables(validated);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: formatToolResponse(name, result),
-            },
-          ],
-        };
-      } else if (name === 'describeTable') {
-        const validated = DescribeTableSchema.parse(args);
-        const result = await describeTable(validated);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: formatToolResponse(name, result),
-            },
-          ],
-        };
-      } else if (name === 'getTableRelations') {
-        const validated = GetTableRelationsSchema.parse(args);
-        const result = await getTableRelations(validated);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: formatToolResponse(name, result),
-            },
-          ],
-        };
-      } else if (name === 'getSampleValues') {
-        const validated = GetSampleValuesSchema.parse(args);
-        const result = await getSampleValues(validated);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: formatToolResponse(name, result),
-            },
-          ],
-        };
-      } else if (name === 'suggestRelatedTables') {
-        const validated = SuggestRelatedTablesSchema.parse(args);
-        const result = await suggestRelatedTables(validated);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: formatToolResponse(name, result),
-            },
-          ],
-        };
-      } else {
-        throw new Error(`Unknown tool: ${name}`);
-      }
+      const result = await toolRegistry.call(name, args, {
+        requestId: extra.requestId,
+        sessionId: extra.sessionId,
+        signal: extra.signal,
+      });
+
+      // Validated by the tools that accept it; other tools use MCP_RESPONSE_ENCODING
+      const encoding = ResponseEncodingSchema.safeParse(args?.encoding);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: formatToolResponse(name, result, encoding.success ? encoding.data : undefined, {
+              sessionId: extra.sessionId,
+            }),
+          },
+        ],
+      };
     } catch (error: any) {
       logger.error('Tool execution failed', { name, error: error.message });
       return {
@@ -292,6 +94,127 @@ async function start() {
     }
   });
 
+  // Guided exploration workflows with live schema context
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger.debug('Handling prompts/list request');
+    return { prompts: promptRegistry.list() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    logger.info('Prompt requested', { name, args, requestId: extra.requestId });
+
+    return promptRegistry.get(name, args, {
+      requestId: extra.requestId,
+      sessionId: extra.sessionId,
+      signal: extra.signal,
+    });
+  });
+
+  // Tables and views (oracle://schema/<name>) and results too large for a
+  // tool response (oracle://results/<id>)
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    logger.debug('Handling resources/list request');
+
+    let schemaResources: Awaited<ReturnType<typeof listSchemaResources>> = [];
+    try {
+      schemaResources = await listSchemaResources({ requestId: extra.requestId, sessionId: extra.sessionId, signal: extra.signal });
+    } catch (error: any) {
+      // Stored results are still worth listing while the database is unreachable
+      logger.error('Listing schema resources failed', { error: error.message });
+    }
+
+    return { resources: [...schemaResources, ...listResults(extra.sessionId)] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: SCHEMA_URI_TEMPLATE,
+        name: 'Table or view definition',
+        description:
+          'Columns, constraints and comments of a table or view, as describeTable returns them. oracle://schema lists every accessible name.',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: RESULT_URI_TEMPLATE,
+        name: 'Tool result rows',
+        description:
+          'Rows of a tool result that did not fit in its response. Tool responses give the URI in resultResource.uri; offset and limit select a range.',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    logger.info('Resource read', { uri, requestId: extra.requestId });
+
+    const content = isSchemaUri(uri)
+      ? await readSchemaResource(uri, { requestId: extra.requestId, sessionId: extra.sessionId, signal: extra.signal })
+      : readResultPage(uri, extra.sessionId);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: formatToolResponse('resources/read', content, undefined, { spill: false }),
+        },
+      ],
+    };
+  });
+
+  // Resources this client asked to hear about through notifications/resources/updated
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unwatch = watchSchemaChanges((changes) => void notifySchemaChanges(server, subscriptions, changes));
+  server.onclose = unwatch;
+
+  return server;
+}
+
+/**
+ * Tell one client about DDL changes: resources/updated for the subscribed
+ * objects (and the index when objects came or went), list_changed when the
+ * set of objects changed
+ */
+async function notifySchemaChanges(server: Server, subscriptions: Set<string>, changes: SchemaChanges): Promise<void> {
+  const listChanged = changes.created.length + changes.dropped.length > 0;
+  const uris = [...changes.changed, ...changes.created, ...changes.dropped].map(schemaObjectUri);
+  if (listChanged) uris.push(SCHEMA_INDEX_URI);
+
+  try {
+    for (const uri of uris.filter((candidate) => subscriptions.has(candidate))) {
+      await server.sendResourceUpdated({ uri });
+    }
+    if (listChanged) {
+      await server.sendResourceListChanged();
+    }
+  } catch (err: any) {
+    logger.debug('Could not send resource notifications', { error: err?.message ?? err });
+  }
+}
+
+async function start() {
+  logger.info('Starting MCP server', {
+    name: config.SERVER_NAME,
+    version: config.SERVER_VERSION,
+    transport: config.MCP_TRANSPORT,
+  });
+
+  // Load ACCESS_POLICY_FILE now so a broken policy stops startup instead of every tool call
+  getAccessPolicy();
+
   // Try to establish a DB connection pool at startup for clearer logs
   try {
     logger.info('Attempting to connect to Oracle database (startup warm-up)');
@@ -301,26 +224,42 @@ async function start() {
     logger.error('Could not connect to Oracle database at startup', { error: err?.message ?? err });
   }
 
-  // Create stdio transport and connect
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  // Notify clients of DDL changes to the tables and views behind oracle://schema
+  startSchemaWatcher();
+
+  let server: Server | null = null;
+  let httpTransport: HttpTransportHandle | null = null;
 
-  logger.info('MCP server connected via stdio');
+  if (config.MCP_TRANSPORT === 'http') {
+    httpTransport = await startHttpTransport(createServer);
+  } else {
+    // Create stdio transport and connect
+    server = createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+
+    logger.info('MCP server connected via stdio');
+  }
 
   // Handle graceful shutdown
-  process.on('SIGINT', async () => {
-    logger.info('Shutting down gracefully (SIGINT)');
-    await closePool();
-    await server.close();
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`Shutting down gracefully (${signal})`);
+    try {
+      stopSchemaWatcher();
+      await httpTransport?.close();
+      await server?.close();
+      await closePool();
+    } catch (err: any) {
+      logger.error('Error during shutdown', { error: err?.message ?? err });
+    }
     process.exit(0);
-  });
+  };
 
-  process.on('SIGTERM', async () => {
-    logger.info('Shutting down gracefully (SIGTERM)');
-    await closePool();
-    await server.close();
-    process.exit(0);
-  });
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
 }
 
 start().catch((err) => {
@@ -55,6 +55,9 @@ export class SchemaCache {
    * @param value Value to cache
    */
   set<T>(key: string, value: T): void {
+    // Re-setting a key refreshes it in place rather than evicting another entry
+    this.cache.delete(key);
+
     // Remove oldest entry if at max size
     if (this.cache.size >= this.maxSize) {
       const firstKey = this.cache.keys().next().value;
@@ -69,6 +72,15 @@ export class SchemaCache {
     });
   }
 
+  /**
+   * Remove one entry
+   * @param key Cache key
+   * @returns Whether the entry existed
+   */
+  delete(key: string): boolean {
+    return this.cache.delete(key);
+  }
+
   /**
    * Clear all entries from the cache
    */
@@ -83,6 +95,14 @@ export class SchemaCache {
     return this.cache.size;
   }
 
+  /**
+   * Keys of the entries that have not expired, oldest first; does not refresh them
+   */
+  keys(): string[] {
+    const now = Date.now();
+    return [...this.cache].filter(([, entry]) => now - entry.timestamp <= this.ttlMs).map(([key]) => key);
+  }
+
   /**
    * Check if a key exists in the cache (and is not expired)
    */
@@ -1,14 +1,23 @@
 import oracledb from 'oracledb';
 import { z } from 'zod';
+import { throwIfCancelled, trackExecution, type ExecutionContext } from '../../database/cancellation.js';
 import { getConnection } from '../../database/oracleConnection.js';
+import { getAccessPolicy } from '../../policy/accessPolicy.js';
+import { ResponseEncodingSchema } from '../../utils/encodings.js';
 import logger, { audit } from '../../utils/logger.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from '../registry.js';
 import { schemaCache } from './cache.js';
 import type { ColumnInfo, ConstraintInfo } from './types.js';
 
 // Input schema for describeTable tool
 export const DescribeTableSchema = z.object({
-  tableName: z.string().min(1, 'Table name is required'),
-  includeConstraints: z.boolean().optional().default(true),
+  tableName: z.string().min(1, 'Table name is required').describe('Name of the table to describe'),
+  includeConstraints: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to include constraint information (default: true)'),
+  encoding: ResponseEncodingSchema.optional(),
 });
 
 export type DescribeTableInput = z.infer<typeof DescribeTableSchema>;
@@ -29,7 +38,7 @@ export type DescribeTableInput = z.infer<typeof DescribeTableSchema>;
  * @param input - Table name and options
  * @returns Column metadata and constraints
  */
-export async function describeTable(input: DescribeTableInput): Promise<{
+export async function describeTable(input: DescribeTableInput, context?: ExecutionContext): Promise<{
   success: boolean;
   data?: {
     tableName: string;
@@ -44,6 +53,12 @@ export async function describeTable(input: DescribeTableInput): Promise<{
   try {
     const validated = DescribeTableSchema.parse(input);
     const tableNameUpper = validated.tableName.toUpperCase();
+    const policy = getAccessPolicy();
+
+    // Denied tables look exactly like missing ones
+    if (!policy.isObjectAllowed('describeTable', tableNameUpper)) {
+      throw new Error(`Table ${validated.tableName} not found or not accessible`);
+    }
 
     // Check cache first
     const cacheKey = `describeTable:${tableNameUpper}:${validated.includeConstraints}`;
@@ -71,9 +86,11 @@ export async function describeTable(input: DescribeTableInput): Promise<{
     });
 
     let connection;
+    let untrack: (() => void) | undefined;
 
     try {
       connection = await getConnection();
+      untrack = trackExecution(context, connection, 'describeTable');
 
       // Get column information
       const columnQuery = `
@@ -102,7 +119,9 @@ export async function describeTable(input: DescribeTableInput): Promise<{
         }
       );
 
-      const columnRows = columnResult.rows as any[];
+      const columnRows = (columnResult.rows as any[]).filter((row) =>
+        policy.isColumnAllowed('describeTable', tableNameUpper, row.COLUMN_NAME)
+      );
 
       if (columnRows.length === 0) {
         throw new Error(`Table ${validated.tableName} not found or not accessible`);
@@ -152,6 +171,7 @@ export async function describeTable(input: DescribeTableInput): Promise<{
           ORDER BY c.constraint_name, cc.position
         `;
 
+        throwIfCancelled(context, 'describeTable');
         const constraintResult = await connection.execute(
           constraintQuery,
           [tableNameUpper],
@@ -207,6 +227,7 @@ export async function describeTable(input: DescribeTableInput): Promise<{
                 ORDER BY cc.position
               `;
 
+              throwIfCancelled(context, 'describeTable');
               const refResult = await connection.execute(
                 refQuery,
                 [refConstraintName],
@@ -223,7 +244,15 @@ export async function describeTable(input: DescribeTableInput): Promise<{
           }
         }
 
-        constraints = Array.from(constraintMap.values());
+        // Drop constraints that would reveal a denied column or referenced table
+        constraints = Array.from(constraintMap.values()).filter(
+          (constraint) =>
+            constraint.columns.every((column) => policy.isColumnAllowed('describeTable', tableNameUpper, column)) &&
+            (!constraint.refTableName ||
+              (constraint.refColumns ?? []).every((column) =>
+                policy.isColumnAllowed('describeTable', constraint.refTableName!, column)
+              ))
+        );
       }
 
       const executionTime = Date.now() - startTime;
@@ -257,6 +286,8 @@ export async function describeTable(input: DescribeTableInput): Promise<{
       };
 
     } finally {
+      untrack?.();
+
       if (connection) {
         try {
           await connection.close();
@@ -298,3 +329,12 @@ function getConstraintTypeName(type: string): string {
       return type;
   }
 }
+
+export const describeTableTool = defineTool({
+  name: 'describeTable',
+  description:
+    'Get detailed column-level metadata for a specific table including data types, nullable constraints, default values, and column comments. Also returns table constraints like primary keys, foreign keys, and unique constraints.',
+  inputSchema: DescribeTableSchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'Describe table' },
+  handler: describeTable,
+});
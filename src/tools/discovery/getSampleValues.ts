@@ -1,15 +1,32 @@
 import oracledb from 'oracledb';
 import { z } from 'zod';
+import { isCancellation, throwIfCancelled, trackExecution, type ExecutionContext } from '../../database/cancellation.js';
+import { readLobValues } from '../../database/lobs.js';
 import { getConnection } from '../../database/oracleConnection.js';
+import { getAccessPolicy } from '../../policy/accessPolicy.js';
+import { maskValue } from '../../policy/redaction.js';
+import { ResponseEncodingSchema } from '../../utils/encodings.js';
 import logger, { audit } from '../../utils/logger.js';
 import { validateOracleIdentifier } from '../../utils/validation.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from '../registry.js';
 import type { SampleValue } from './types.js';
 
 // Input schema for getSampleValues tool
 export const GetSampleValuesSchema = z.object({
-  tableName: z.string().min(1, 'Table name is required'),
-  columnNames: z.array(z.string()).optional(),
-  sampleSize: z.number().int().min(1).max(10).optional().default(3),
+  tableName: z.string().min(1, 'Table name is required').describe('Name of the table to get sample values from'),
+  columnNames: z
+    .array(z.string())
+    .optional()
+    .describe('Optional array of specific column names to sample (if omitted, samples all columns)'),
+  sampleSize: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .default(3)
+    .describe('Number of sample rows to retrieve per column (1-10, default: 3)'),
+  encoding: ResponseEncodingSchema.optional(),
 });
 
 export type GetSampleValuesInput = z.infer<typeof GetSampleValuesSchema>;
@@ -28,7 +45,7 @@ export type GetSampleValuesInput = z.infer<typeof GetSampleValuesSchema>;
  * @param input - Table name, optional column filter, and sample size
  * @returns Sample values for columns
  */
-export async function getSampleValues(input: GetSampleValuesInput): Promise<{
+export async function getSampleValues(input: GetSampleValuesInput, context?: ExecutionContext): Promise<{
   success: boolean;
   data?: SampleValue[];
   error?: string;
@@ -39,6 +56,12 @@ export async function getSampleValues(input: GetSampleValuesInput): Promise<{
     const validated = GetSampleValuesSchema.parse(input);
     const tableNameUpper = validated.tableName.toUpperCase();
     const sampleSize = Math.min(validated.sampleSize || 3, 10); // Enforce max 10
+    const policy = getAccessPolicy();
+
+    // Denied tables look exactly like missing ones
+    if (!policy.isObjectAllowed('getSampleValues', tableNameUpper)) {
+      throw new Error(`Table ${validated.tableName} not found or not accessible`);
+    }
 
     logger.info('Getting sample values', {
       tableName: tableNameUpper,
@@ -47,9 +70,11 @@ export async function getSampleValues(input: GetSampleValuesInput): Promise<{
     });
 
     let connection;
+    let untrack: (() => void) | undefined;
 
     try {
       connection = await getConnection();
+      untrack = trackExecution(context, connection, 'getSampleValues');
 
       // First, get column list if not specified
       let columns: string[];
@@ -80,7 +105,10 @@ export async function getSampleValues(input: GetSampleValuesInput): Promise<{
           throw new Error(`Table ${validated.tableName} not found or not accessible`);
         }
 
-        columns = columnRows.map(row => row.COLUMN_NAME);
+        // Denied columns are left out silently when sampling the whole table
+        columns = columnRows
+          .map(row => row.COLUMN_NAME)
+          .filter(column => policy.isColumnAllowed('getSampleValues', tableNameUpper, column));
       }
 
       const sampleValues: SampleValue[] = [];
@@ -101,6 +129,14 @@ export async function getSampleValues(input: GetSampleValuesInput): Promise<{
           continue;
         }
 
+        if (!policy.isColumnAllowed('getSampleValues', tableNameUpper, columnName)) {
+          sampleValues.push({
+            columnName,
+            sampleValues: ['Error: Column not found or not accessible'],
+          });
+          continue;
+        }
+
         // Validate table name as well
         if (!validateOracleIdentifier(tableNameUpper)) {
           throw new Error('Invalid table name');
@@ -119,60 +155,78 @@ export async function getSampleValues(input: GetSampleValuesInput): Promise<{
         `;
 
         try {
+          throwIfCancelled(context, 'getSampleValues');
           const sampleResult = await connection.execute(sampleQuery, [], {
             outFormat: oracledb.OUT_FORMAT_OBJECT,
             maxRows: sampleSize,
           });
 
           const sampleRows = sampleResult.rows as any[];
-          const values = sampleRows.map(row => row[columnName]);
+          const lobColumns = await readLobValues(sampleRows, sampleResult.metaData);
+          const mask = policy.columnMask('getSampleValues', tableNameUpper, columnName);
+          const values = sampleRows.map(row => (mask ? maskValue(row[columnName], mask) : row[columnName]));
 
-          // Get approximate distinct count
-          const distinctQuery = `
-            SELECT COUNT(DISTINCT ${columnName}) as distinct_count
-            FROM ${tableNameUpper}
-            FETCH FIRST 1000 ROWS ONLY
-          `;
-
-          const distinctResult = await connection.execute(distinctQuery, [], {
-            outFormat: oracledb.OUT_FORMAT_OBJECT,
-            maxRows: 1,
-          });
-
-          const distinctRows = distinctResult.rows as any[];
-          const distinctCount = distinctRows.length > 0
-            ? Number(distinctRows[0].DISTINCT_COUNT)
-            : 0;
+          const sample: SampleValue = {
+            columnName,
+            sampleValues: values,
+          };
+          if (mask) {
+            sample.masked = true;
+          }
 
-          // Get null count (limited to first 1000 rows for safety)
-          const nullQuery = `
-            SELECT COUNT(*) as null_count
-            FROM (
-              SELECT ${columnName}
+          const lobSummary = lobColumns?.[columnName];
+          if (lobSummary) {
+            // LOB and LONG values cannot be compared or counted like scalars
+            sample.lob = lobSummary;
+          } else {
+            // Get approximate distinct count
+            const distinctQuery = `
+              SELECT COUNT(DISTINCT ${columnName}) as distinct_count
               FROM ${tableNameUpper}
               FETCH FIRST 1000 ROWS ONLY
-            )
-            WHERE ${columnName} IS NULL
-          `;
-
-          const nullResult = await connection.execute(nullQuery, [], {
-            outFormat: oracledb.OUT_FORMAT_OBJECT,
-            maxRows: 1,
-          });
-
-          const nullRows = nullResult.rows as any[];
-          const nullCount = nullRows.length > 0
-            ? Number(nullRows[0].NULL_COUNT)
-            : 0;
+            `;
+
+            throwIfCancelled(context, 'getSampleValues');
+            const distinctResult = await connection.execute(distinctQuery, [], {
+              outFormat: oracledb.OUT_FORMAT_OBJECT,
+              maxRows: 1,
+            });
+
+            const distinctRows = distinctResult.rows as any[];
+            sample.distinctCount = distinctRows.length > 0
+              ? Number(distinctRows[0].DISTINCT_COUNT)
+              : 0;
+
+            // Get null count (limited to first 1000 rows for safety)
+            const nullQuery = `
+              SELECT COUNT(*) as null_count
+              FROM (
+                SELECT ${columnName}
+                FROM ${tableNameUpper}
+                FETCH FIRST 1000 ROWS ONLY
+              )
+              WHERE ${columnName} IS NULL
+            `;
+
+            throwIfCancelled(context, 'getSampleValues');
+            const nullResult = await connection.execute(nullQuery, [], {
+              outFormat: oracledb.OUT_FORMAT_OBJECT,
+              maxRows: 1,
+            });
+
+            const nullRows = nullResult.rows as any[];
+            sample.nullCount = nullRows.length > 0
+              ? Number(nullRows[0].NULL_COUNT)
+              : 0;
+          }
 
-          sampleValues.push({
-            columnName,
-            sampleValues: values,
-            distinctCount,
-            nullCount,
-          });
+          sampleValues.push(sample);
 
         } catch (err: any) {
+          if (isCancellation(context, err)) {
+            throw err;
+          }
+
           logger.warn('Failed to get sample values for column', {
             tableName: tableNameUpper,
             columnName,
@@ -208,6 +262,8 @@ export async function getSampleValues(input: GetSampleValuesInput): Promise<{
       };
 
     } finally {
+      untrack?.();
+
       if (connection) {
         try {
           await connection.close();
@@ -231,3 +287,12 @@ export async function getSampleValues(input: GetSampleValuesInput): Promise<{
     };
   }
 }
+
+export const getSampleValuesTool = defineTool({
+  name: 'getSampleValues',
+  description:
+    'Get sample values from table columns to understand data patterns and formats. Includes distinct counts and null counts. SAFETY: Strictly limited to max 10 rows per column to prevent resource exhaustion.',
+  inputSchema: GetSampleValuesSchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'Get sample values' },
+  handler: getSampleValues,
+});
@@ -1,13 +1,18 @@
 import oracledb from 'oracledb';
 import { z } from 'zod';
+import { throwIfCancelled, trackExecution, type ExecutionContext } from '../../database/cancellation.js';
 import { getConnection } from '../../database/oracleConnection.js';
+import { getAccessPolicy } from '../../policy/accessPolicy.js';
+import { ResponseEncodingSchema } from '../../utils/encodings.js';
 import logger, { audit } from '../../utils/logger.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from '../registry.js';
 import { schemaCache } from './cache.js';
 import type { ForeignKeyRelation, TableRelations } from './types.js';
 
 // Input schema for getTableRelations tool
 export const GetTableRelationsSchema = z.object({
-  tableName: z.string().min(1, 'Table name is required'),
+  tableName: z.string().min(1, 'Table name is required').describe('Name of the table to get relationships for'),
+  encoding: ResponseEncodingSchema.optional(),
 });
 
 export type GetTableRelationsInput = z.infer<typeof GetTableRelationsSchema>;
@@ -26,7 +31,7 @@ export type GetTableRelationsInput = z.infer<typeof GetTableRelationsSchema>;
  * @param input - Table name
  * @returns Foreign key relationships
  */
-export async function getTableRelations(input: GetTableRelationsInput): Promise<{
+export async function getTableRelations(input: GetTableRelationsInput, context?: ExecutionContext): Promise<{
   success: boolean;
   data?: TableRelations;
   error?: string;
@@ -37,6 +42,12 @@ export async function getTableRelations(input: GetTableRelationsInput): Promise<
   try {
     const validated = GetTableRelationsSchema.parse(input);
     const tableNameUpper = validated.tableName.toUpperCase();
+    const policy = getAccessPolicy();
+
+    // Denied tables look exactly like missing ones
+    if (!policy.isObjectAllowed('getTableRelations', tableNameUpper)) {
+      throw new Error(`Table ${validated.tableName} not found or not accessible`);
+    }
 
     // Check cache first
     const cacheKey = `tableRelations:${tableNameUpper}`;
@@ -59,9 +70,16 @@ export async function getTableRelations(input: GetTableRelationsInput): Promise<
     });
 
     let connection;
+    let untrack: (() => void) | undefined;
 
     try {
       connection = await getConnection();
+      untrack = trackExecution(context, connection, 'getTableRelations');
+
+      // Hide relations that involve a denied table or column
+      const isVisible = (relation: ForeignKeyRelation) =>
+        relation.fromColumns.every((column) => policy.isColumnAllowed('getTableRelations', relation.fromTable, column)) &&
+        relation.toColumns.every((column) => policy.isColumnAllowed('getTableRelations', relation.toTable, column));
 
       // Get foreign keys FROM this table TO other tables
       const foreignKeysQuery = `
@@ -116,7 +134,7 @@ export async function getTableRelations(input: GetTableRelationsInput): Promise<
         fk.toColumns.push(row.TO_COLUMN);
       }
 
-      const foreignKeys = Array.from(fkMap.values());
+      const foreignKeys = Array.from(fkMap.values()).filter(isVisible);
 
       // Get foreign keys FROM other tables TO this table (referenced by)
       const referencedByQuery = `
@@ -138,6 +156,7 @@ export async function getTableRelations(input: GetTableRelationsInput): Promise<
         ORDER BY c.constraint_name, cc.position
       `;
 
+      throwIfCancelled(context, 'getTableRelations');
       const refByResult = await connection.execute(
         referencedByQuery,
         [tableNameUpper],
@@ -171,7 +190,7 @@ export async function getTableRelations(input: GetTableRelationsInput): Promise<
         ref.toColumns.push(row.TO_COLUMN);
       }
 
-      const referencedBy = Array.from(refByMap.values());
+      const referencedBy = Array.from(refByMap.values()).filter(isVisible);
 
       const executionTime = Date.now() - startTime;
 
@@ -205,6 +224,8 @@ export async function getTableRelations(input: GetTableRelationsInput): Promise<
       };
 
     } finally {
+      untrack?.();
+
       if (connection) {
         try {
           await connection.close();
@@ -228,3 +249,12 @@ export async function getTableRelations(input: GetTableRelationsInput): Promise<
     };
   }
 }
+
+export const getTableRelationsTool = defineTool({
+  name: 'getTableRelations',
+  description:
+    'Get foreign key relationships for a table in an easily parseable JSON format. Returns both outgoing foreign keys (to other tables) and incoming references (from other tables). Helpful for understanding table relationships before writing JOIN queries.',
+  inputSchema: GetTableRelationsSchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'Get table relations' },
+  handler: getTableRelations,
+});
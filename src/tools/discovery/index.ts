@@ -9,11 +9,11 @@
  * - suggestRelatedTables: Find related tables by various heuristics
  */
 
-export { DescribeTableSchema, describeTable, type DescribeTableInput } from './describeTable.js';
-export { GetSampleValuesSchema, getSampleValues, type GetSampleValuesInput } from './getSampleValues.js';
-export { GetTableRelationsSchema, getTableRelations, type GetTableRelationsInput } from './getTableRelations.js';
-export { ListTablesSchema, listTables, type ListTablesInput } from './listTables.js';
-export { SuggestRelatedTablesSchema, suggestRelatedTables, type SuggestRelatedTablesInput } from './suggestRelatedTables.js';
+export { DescribeTableSchema, describeTable, describeTableTool, type DescribeTableInput } from './describeTable.js';
+export { GetSampleValuesSchema, getSampleValues, getSampleValuesTool, type GetSampleValuesInput } from './getSampleValues.js';
+export { GetTableRelationsSchema, getTableRelations, getTableRelationsTool, type GetTableRelationsInput } from './getTableRelations.js';
+export { ListTablesSchema, listTables, listTablesTool, type ListTablesInput } from './listTables.js';
+export { SuggestRelatedTablesSchema, suggestRelatedTables, suggestRelatedTablesTool, type SuggestRelatedTablesInput } from './suggestRelatedTables.js';
 
 export { schemaCache } from './cache.js';
 export * from './types.js';
@@ -1,13 +1,22 @@
 import oracledb from 'oracledb';
 import { z } from 'zod';
+import { trackExecution, type ExecutionContext } from '../../database/cancellation.js';
 import { getConnection } from '../../database/oracleConnection.js';
+import { getAccessPolicy } from '../../policy/accessPolicy.js';
+import { ResponseEncodingSchema } from '../../utils/encodings.js';
 import logger, { audit } from '../../utils/logger.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from '../registry.js';
 import { schemaCache } from './cache.js';
 import type { TableInfo } from './types.js';
 
 // Input schema for listTables tool
 export const ListTablesSchema = z.object({
-  includeRowCounts: z.boolean().optional().default(false),
+  includeRowCounts: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Whether to include approximate row counts (slower but more informative)'),
+  encoding: ResponseEncodingSchema.optional(),
 });
 
 export type ListTablesInput = z.infer<typeof ListTablesSchema>;
@@ -27,7 +36,10 @@ export type ListTablesInput = z.infer<typeof ListTablesSchema>;
  * @param input - Options for listing tables
  * @returns List of tables with metadata
  */
-export async function listTables(input: ListTablesInput = { includeRowCounts: false }): Promise<{
+export async function listTables(
+  input: ListTablesInput = { includeRowCounts: false },
+  context?: ExecutionContext
+): Promise<{
   success: boolean;
   data?: TableInfo[];
   error?: string;
@@ -60,9 +72,11 @@ export async function listTables(input: ListTablesInput = { includeRowCounts: fa
     });
 
     let connection;
+    let untrack: (() => void) | undefined;
 
     try {
       connection = await getConnection();
+      untrack = trackExecution(context, connection, 'listTables');
 
       // Build query based on options
       let query: string;
@@ -112,7 +126,9 @@ export async function listTables(input: ListTablesInput = { includeRowCounts: fa
         maxRows: 1000,
       });
 
-      const rows = result.rows as any[];
+      // Tables denied by the access policy are not listed at all
+      const policy = getAccessPolicy();
+      const rows = (result.rows as any[]).filter((row) => policy.isObjectAllowed('listTables', row.TABLE_NAME));
 
       const tables: TableInfo[] = rows.map((row) => {
         const tableInfo: TableInfo = {
@@ -155,6 +171,8 @@ export async function listTables(input: ListTablesInput = { includeRowCounts: fa
       };
 
     } finally {
+      untrack?.();
+
       if (connection) {
         try {
           await connection.close();
@@ -178,3 +196,12 @@ export async function listTables(input: ListTablesInput = { includeRowCounts: fa
     };
   }
 }
+
+export const listTablesTool = defineTool({
+  name: 'listTables',
+  description:
+    'Get a summary of all accessible tables with optional row counts and modification timestamps. Includes table comments for semantic hints. Use this before querying to discover available tables.',
+  inputSchema: ListTablesSchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'List tables' },
+  handler: listTables,
+});
@@ -1,13 +1,25 @@
 import oracledb from 'oracledb';
 import { z } from 'zod';
+import { throwIfCancelled, trackExecution, type ExecutionContext } from '../../database/cancellation.js';
 import { getConnection } from '../../database/oracleConnection.js';
+import { getAccessPolicy } from '../../policy/accessPolicy.js';
+import { ResponseEncodingSchema } from '../../utils/encodings.js';
 import logger, { audit } from '../../utils/logger.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from '../registry.js';
 import type { RelatedTableHint } from './types.js';
 
 // Input schema for suggestRelatedTables tool
 export const SuggestRelatedTablesSchema = z.object({
-  tableName: z.string().min(1, 'Table name is required'),
-  maxSuggestions: z.number().int().min(1).max(20).optional().default(10),
+  tableName: z.string().min(1, 'Table name is required').describe('Name of the table to find related tables for'),
+  maxSuggestions: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(10)
+    .describe('Maximum number of suggestions to return (1-20, default: 10)'),
+  encoding: ResponseEncodingSchema.optional(),
 });
 
 export type SuggestRelatedTablesInput = z.infer<typeof SuggestRelatedTablesSchema>;
@@ -26,7 +38,7 @@ export type SuggestRelatedTablesInput = z.infer<typeof SuggestRelatedTablesSchem
  * @param input - Table name and max suggestions
  * @returns Related table suggestions with confidence scores
  */
-export async function suggestRelatedTables(input: SuggestRelatedTablesInput): Promise<{
+export async function suggestRelatedTables(input: SuggestRelatedTablesInput, context?: ExecutionContext): Promise<{
   success: boolean;
   data?: RelatedTableHint[];
   error?: string;
@@ -37,6 +49,12 @@ export async function suggestRelatedTables(input: SuggestRelatedTablesInput): Pr
     const validated = SuggestRelatedTablesSchema.parse(input);
     const tableNameUpper = validated.tableName.toUpperCase();
     const maxSuggestions = validated.maxSuggestions || 10;
+    const policy = getAccessPolicy();
+
+    // Denied tables look exactly like missing ones
+    if (!policy.isObjectAllowed('suggestRelatedTables', tableNameUpper)) {
+      throw new Error(`Table ${validated.tableName} not found or not accessible`);
+    }
 
     logger.info('Suggesting related tables', {
       tableName: tableNameUpper,
@@ -44,9 +62,11 @@ export async function suggestRelatedTables(input: SuggestRelatedTablesInput): Pr
     });
 
     let connection;
+    let untrack: (() => void) | undefined;
 
     try {
       connection = await getConnection();
+      untrack = trackExecution(context, connection, 'suggestRelatedTables');
 
       const hints: RelatedTableHint[] = [];
 
@@ -106,6 +126,7 @@ export async function suggestRelatedTables(input: SuggestRelatedTablesInput): Pr
           FETCH FIRST 20 ROWS ONLY
         `;
 
+        throwIfCancelled(context, 'suggestRelatedTables');
         const namingResult = await connection.execute(
           namingQuery,
           [
@@ -155,6 +176,7 @@ export async function suggestRelatedTables(input: SuggestRelatedTablesInput): Pr
         FETCH FIRST 20 ROWS ONLY
       `;
 
+      throwIfCancelled(context, 'suggestRelatedTables');
       const sharedResult = await connection.execute(
         sharedColumnsQuery,
         [tableNameUpper, tableNameUpper],
@@ -181,9 +203,11 @@ export async function suggestRelatedTables(input: SuggestRelatedTablesInput): Pr
         }
       }
 
-      // Sort by confidence (descending) and limit results
+      // Sort by confidence (descending), drop denied tables and limit results
       hints.sort((a, b) => b.confidence - a.confidence);
-      const limitedHints = hints.slice(0, maxSuggestions);
+      const limitedHints = hints
+        .filter((hint) => policy.isObjectAllowed('suggestRelatedTables', hint.tableName))
+        .slice(0, maxSuggestions);
 
       const executionTime = Date.now() - startTime;
 
@@ -205,6 +229,8 @@ export async function suggestRelatedTables(input: SuggestRelatedTablesInput): Pr
       };
 
     } finally {
+      untrack?.();
+
       if (connection) {
         try {
           await connection.close();
@@ -254,3 +280,12 @@ function extractBaseName(tableName: string): string | null {
 
   return null;
 }
+
+export const suggestRelatedTablesTool = defineTool({
+  name: 'suggestRelatedTables',
+  description:
+    'Suggest tables that may be related to the given table based on foreign keys, naming patterns, or shared columns. Returns suggestions with confidence scores and relationship descriptions. Useful for discovering relevant tables when building complex queries.',
+  inputSchema: SuggestRelatedTablesSchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'Suggest related tables' },
+  handler: suggestRelatedTables,
+});
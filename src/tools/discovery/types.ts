@@ -2,6 +2,8 @@
  * Type definitions for schema discovery tools
  */
 
+import type { LobColumnSummary } from '../../database/types.js';
+
 export interface TableInfo {
   tableName: string;
   rowCount: number;
@@ -50,6 +52,10 @@ export interface SampleValue {
   sampleValues: any[];
   distinctCount?: number;
   nullCount?: number;
+  /** Set when the access policy masks this column's values */
+  masked?: boolean;
+  /** Set for CLOB / BLOB / LONG columns: how much of the samples was left out */
+  lob?: LobColumnSummary;
 }
 
 export interface RelatedTableHint {
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import type { ExecutionContext } from '../database/cancellation.js';
+import { QueryCancelledError } from '../database/errors.js';
+import { explainPlan } from '../database/explainPlan.js';
+import { getAccessPolicy } from '../policy/accessPolicy.js';
+import logger from '../utils/logger.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from './registry.js';
+
+// Input schema for explain_query tool
+export const ExplainQuerySchema = z.object({
+  query: z
+    .string()
+    .min(1, 'Query cannot be empty')
+    .describe('The SELECT query to explain. It is not executed; :placeholders need no bind values.'),
+});
+
+export type ExplainQueryInput = z.infer<typeof ExplainQuerySchema>;
+
+/**
+ * Return the optimizer's execution plan for a query without running it
+ */
+export async function explainQuery(input: ExplainQueryInput, context?: ExecutionContext) {
+  try {
+    const validated = ExplainQuerySchema.parse(input);
+    getAccessPolicy().checkQuery('explain_query', validated.query);
+
+    logger.info('Explaining query via MCP tool', { queryLength: validated.query.length });
+
+    const result = await explainPlan(validated.query, { context });
+
+    return {
+      success: true,
+      data: result,
+      hint: 'Cost and cardinality are optimizer estimates. Look for TABLE ACCESS FULL on large tables, MERGE JOIN CARTESIAN, or a high root cost before running the query with query_database.',
+    };
+  } catch (err: any) {
+    if (err instanceof QueryCancelledError) {
+      return {
+        success: false,
+        error: err.message,
+        cancelled: true,
+      };
+    }
+
+    logger.error('Explain query tool failed', { error: err.message });
+
+    return {
+      success: false,
+      error: err.message || 'Unknown error occurred',
+    };
+  }
+}
+
+export const explainQueryTool = defineTool({
+  name: 'explain_query',
+  description:
+    'Show the Oracle execution plan for a read-only SELECT query without running it. Returns a plan tree with operations, object names, optimizer cost, estimated cardinality and access/filter predicates, plus the DBMS_XPLAN text. Use it to judge whether a query will be expensive before calling query_database.',
+  inputSchema: ExplainQuerySchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'Explain query plan' },
+  handler: explainQuery,
+});
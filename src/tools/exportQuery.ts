@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import getConfig from '../config.js';
+import { validateBinds } from '../database/binds.js';
+import type { ExecutionContext } from '../database/cancellation.js';
+import { QueryCancelledError, QueryCostExceededError, QueryTimeoutError } from '../database/errors.js';
+import { ensureReadOnlyQuery, executeQuery } from '../database/queryExecutor.js';
+import type { ColumnMetadata } from '../database/types.js';
+import { createExportFile, exportFileName, type ExportFile } from '../export/exportFile.js';
+import { createExportWriter, EXPORT_FORMATS } from '../export/formats.js';
+import { getAccessPolicy } from '../policy/accessPolicy.js';
+import { redactRows, type MaskRule } from '../policy/redaction.js';
+import logger, { audit } from '../utils/logger.js';
+import { BindsSchema, toBindParameters } from './queryDatabase.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from './registry.js';
+
+const config = getConfig();
+
+// Input schema for export_query tool
+export const ExportQuerySchema = z.object({
+  query: z.string().min(1, 'Query cannot be empty').describe('The SQL query to export (SELECT statements only)'),
+  binds: BindsSchema.optional(),
+  format: z.enum(EXPORT_FORMATS).default('csv').describe('File format: csv (default), ndjson or parquet'),
+  fileName: z
+    .string()
+    .optional()
+    .describe(
+      'Name of the file to create in the export directory (optional). Letters, digits, ".", "_" and "-" only; the format extension is added when missing. Existing files are never overwritten.'
+    ),
+  maxRows: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum number of rows to export (optional, defaults to and capped at EXPORT_MAX_ROWS)'),
+  timeout: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Query timeout in milliseconds (optional, defaults to and capped at the server QUERY_TIMEOUT_MS)'),
+});
+
+export type ExportQueryInput = z.infer<typeof ExportQuerySchema>;
+
+/**
+ * Run a query and write every row to a file in EXPORT_DIR instead of the response.
+ *
+ * Rows are streamed from a result set straight into the file, so neither
+ * MAX_ROWS_PER_QUERY nor MCP_MAX_ROWS_IN_RESPONSE apply; EXPORT_MAX_ROWS and
+ * EXPORT_MAX_BYTES do. Access policy masks are applied before rows are
+ * written. A failed export leaves no file behind.
+ */
+export async function exportQuery(input: ExportQueryInput, context?: ExecutionContext) {
+  let file: ExportFile | undefined;
+
+  try {
+    const validated = ExportQuerySchema.parse(input);
+    const binds = toBindParameters(validated.binds);
+    const policy = getAccessPolicy();
+
+    ensureReadOnlyQuery(validated.query);
+    policy.checkQuery('export_query', validated.query);
+    validateBinds(validated.query, binds);
+
+    const maxRows = Math.min(validated.maxRows ?? config.EXPORT_MAX_ROWS, config.EXPORT_MAX_ROWS);
+    const exportFile = await createExportFile(exportFileName(validated.format, validated.fileName));
+    file = exportFile;
+    const writer = createExportWriter(validated.format, exportFile);
+
+    logger.info('Exporting query via MCP tool', {
+      queryLength: validated.query.length,
+      format: validated.format,
+      maxRows,
+    });
+
+    let masks = new Map<string, MaskRule>();
+    let columnMetadata: ColumnMetadata[] = [];
+
+    const result = await executeQuery(validated.query, {
+      maxRows,
+      timeout: validated.timeout,
+      binds,
+      context,
+      costGuard: true,
+      sink: {
+        async start(columns) {
+          masks = policy.resultMasks('export_query', validated.query, columns.map((column) => column.name));
+          columnMetadata = columns.map((column) => (masks.has(column.name) ? { ...column, masked: true } : column));
+          await writer.start(columnMetadata);
+        },
+        async write(rows) {
+          await writer.write(redactRows(rows, masks));
+        },
+      },
+    });
+
+    await writer.finish();
+    const exported = await exportFile.close();
+
+    audit('Query exported', {
+      query: validated.query.substring(0, 500),
+      format: validated.format,
+      path: exported.path,
+      rowCount: result.rowCount,
+      byteSize: exported.byteSize,
+      sha256: exported.sha256,
+    });
+
+    const data: Record<string, unknown> = {
+      ...exported,
+      format: validated.format,
+      rowCount: result.rowCount,
+      truncated: result.truncated ?? false,
+      columns: result.columnMetadata?.map((column) => (masks.has(column.name) ? { ...column, masked: true } : column)),
+      executionTime: result.executionTime,
+    };
+    if (masks.size > 0) data.maskedColumns = [...masks.keys()];
+    if (result.lobColumns) data.lobColumns = result.lobColumns;
+    if (result.costWarning) data.costWarning = result.costWarning;
+
+    return { success: true, data };
+  } catch (err: any) {
+    await file?.discard();
+
+    if (err instanceof QueryCancelledError) {
+      return {
+        success: false,
+        error: err.message,
+        cancelled: true,
+      };
+    }
+
+    if (err instanceof QueryCostExceededError) {
+      logger.warn('Export query tool rejected by cost guard', { cost: err.cost, cardinality: err.cardinality });
+
+      return {
+        success: false,
+        error: err.message,
+        costExceeded: true,
+        estimate: { cost: err.cost, cardinality: err.cardinality },
+        thresholds: { maxCost: err.maxCost, maxCardinality: err.maxCardinality },
+        costliestLines: err.costliestLines,
+      };
+    }
+
+    if (err instanceof QueryTimeoutError) {
+      logger.warn('Export query tool timed out', { timeoutMs: err.timeoutMs, elapsedMs: err.elapsedMs });
+
+      return {
+        success: false,
+        error: err.message,
+        timedOut: true,
+        timeoutMs: err.timeoutMs,
+        elapsedMs: err.elapsedMs,
+        hint: 'The export was cancelled and its file removed. Export fewer rows (maxRows, filters) or pass a larger timeout up to QUERY_TIMEOUT_MS.',
+      };
+    }
+
+    logger.error('Export query tool failed', { error: err.message });
+
+    return {
+      success: false,
+      error: err.message || 'Unknown error occurred',
+    };
+  }
+}
+
+export const exportQueryTool = defineTool({
+  name: 'export_query',
+  description:
+    'Run a read-only SQL SELECT query and write the full result set to a CSV, NDJSON or Parquet file in the server export directory. Returns the file path, row count, byte size and SHA-256 checksum instead of rows. Use it to hand large extracts to other tools or people; use query_database to read rows yourself.',
+  inputSchema: ExportQuerySchema,
+  // Reads the database only, but each call creates a new file on the server
+  annotations: { ...READ_ONLY_ANNOTATIONS, readOnlyHint: false, idempotentHint: false, title: 'Export query results' },
+  handler: exportQuery,
+});
@@ -1,8 +1,11 @@
 import { z } from 'zod';
+import type { ExecutionContext } from '../database/cancellation.js';
 import { executeQuery, getSchema } from '../database/queryExecutor.js';
 import type { QueryResult } from '../database/types.js';
+import { getAccessPolicy, type AccessPolicy } from '../policy/accessPolicy.js';
 import logger from '../utils/logger.js';
 import { validateOracleIdentifier } from '../utils/validation.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from './registry.js';
 
 // Input schema for get_database_schema tool
 export const GetSchemaSchema = z.object({
@@ -12,7 +15,8 @@ export const GetSchemaSchema = z.object({
     .refine(
       (val) => val === undefined || validateOracleIdentifier(val.toUpperCase()),
       { message: 'tableName must be a valid Oracle identifier (letters, digits, _, $, # only; max 30 chars)' }
-    ),
+    )
+    .describe('Optional table name to get column information for'),
 });
 
 export type GetSchemaInput = z.infer<typeof GetSchemaSchema>;
@@ -54,10 +58,27 @@ function levenshteinDistance(str1: string, str2: string): number {
   return matrix[str2.length][str1.length];
 }
 
+/**
+ * Drop rows for tables and columns the access policy hides.
+ * A denied table loses all its column rows and so looks like a missing one.
+ */
+function applyAccessPolicy(result: QueryResult, policy: AccessPolicy, tableName?: string): QueryResult {
+  if (policy.isUnrestricted) {
+    return result;
+  }
+
+  const rows = result.rows.filter((row) =>
+    tableName
+      ? policy.isColumnAllowed('get_database_schema', tableName.toUpperCase(), row.COLUMN_NAME)
+      : policy.isObjectAllowed('get_database_schema', row.TABLE_NAME)
+  );
+  return { ...result, rows, rowCount: rows.length };
+}
+
 /**
  * Find similar table names based on Levenshtein distance
  */
-async function findSimilarTableNames(tableName: string): Promise<string[]> {
+async function findSimilarTableNames(tableName: string, policy: AccessPolicy): Promise<string[]> {
   try {
     const query = `
       SELECT table_name
@@ -66,7 +87,9 @@ async function findSimilarTableNames(tableName: string): Promise<string[]> {
     `;
 
     const result: QueryResult = await executeQuery(query, { maxRows: 1000 });
-    const allTables = result.rows.map((row: Record<string, any>) => row.TABLE_NAME as string);
+    const allTables = result.rows
+      .map((row: Record<string, any>) => row.TABLE_NAME as string)
+      .filter((table: string) => policy.isObjectAllowed('get_database_schema', table));
 
     // Calculate distances and find closest matches
     const tableDistances = allTables.map((table: string) => ({
@@ -89,7 +112,7 @@ async function findSimilarTableNames(tableName: string): Promise<string[]> {
 /**
  * Get database schema information with enhanced error handling
  */
-export async function getDatabaseSchema(input: GetSchemaInput = {}) {
+export async function getDatabaseSchema(input: GetSchemaInput = {}, context?: ExecutionContext) {
   try {
     const validated = GetSchemaSchema.parse(input);
 
@@ -107,12 +130,13 @@ export async function getDatabaseSchema(input: GetSchemaInput = {}) {
       tableName: validated.tableName || 'all tables',
     });
 
-    const result = await getSchema(validated.tableName);
+    const policy = getAccessPolicy();
+    const result = applyAccessPolicy(await getSchema(validated.tableName, context), policy, validated.tableName);
 
     // Check if we got results when a specific table was requested
     if (validated.tableName && result.rowCount === 0) {
       // Table doesn't exist - provide helpful error message
-      const similarTables = await findSimilarTableNames(validated.tableName);
+      const similarTables = await findSimilarTableNames(validated.tableName, policy);
 
       let errorMessage = `Table '${validated.tableName}' not found in the database.`;
 
@@ -194,3 +218,12 @@ export async function getDatabaseSchema(input: GetSchemaInput = {}) {
     };
   }
 }
+
+export const getSchemaTool = defineTool({
+  name: 'get_database_schema',
+  description:
+    'Get database schema information. If tableName is provided, returns column details for that table. Otherwise, returns a list of all accessible tables.',
+  inputSchema: GetSchemaSchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'Get database schema' },
+  handler: getDatabaseSchema,
+});
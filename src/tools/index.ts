@@ -0,0 +1,38 @@
+/**
+ * Tool registry for the MCP server
+ *
+ * Each tool module exports a single `defineTool(...)` definition (name,
+ * description, zod input schema, handler, annotations). Adding a tool means
+ * writing that module and listing its definition here — server.ts builds
+ * tools/list and dispatches tools/call from this registry, in this order.
+ * toolRegistry.test.ts fails when an exported definition is missing here.
+ */
+
+import {
+  describeTableTool,
+  getSampleValuesTool,
+  getTableRelationsTool,
+  listTablesTool,
+  suggestRelatedTablesTool,
+} from './discovery/index.js';
+import { explainQueryTool } from './explainQuery.js';
+import { exportQueryTool } from './exportQuery.js';
+import { getSchemaTool } from './getSchema.js';
+import { queryDatabaseTool } from './queryDatabase.js';
+import { ToolRegistry } from './registry.js';
+
+export { defineTool, READ_ONLY_ANNOTATIONS, ToolRegistry, type ToolContext, type ToolDefinition } from './registry.js';
+
+export function createToolRegistry(): ToolRegistry {
+  return new ToolRegistry([
+    queryDatabaseTool,
+    exportQueryTool,
+    explainQueryTool,
+    getSchemaTool,
+    listTablesTool,
+    describeTableTool,
+    getTableRelationsTool,
+    getSampleValuesTool,
+    suggestRelatedTablesTool,
+  ]);
+}
@@ -0,0 +1,117 @@
+import { randomUUID } from 'node:crypto';
+import getConfig from '../config.js';
+import type { BindParameters } from '../database/binds.js';
+import { hasKeywordSequence, stripTrailingSeparator, tokenizeSql } from '../database/sqlLexer.js';
+import { SchemaCache } from './discovery/cache.js';
+
+const config = getConfig();
+
+/**
+ * Everything needed to re-run a query for a later page
+ */
+export interface QueryCursorState {
+  query: string;
+  binds?: BindParameters;
+  pageSize: number;
+  maxRows?: number;
+  timeout?: number;
+  /** MCP session that created the cursor; other sessions cannot use it */
+  sessionId?: string;
+  /** NUMBER columns returned as strings by an earlier page, so later pages keep them as strings */
+  stringifiedColumns?: string[];
+}
+
+export interface PaginationInfo {
+  /** Token for the page that was just returned */
+  cursor: string;
+  /** Zero-based index of the first row in this page */
+  offset: number;
+  pageSize: number;
+  returnedRows: number;
+  hasMore: boolean;
+  /** Pass as `cursor` to query_database to fetch the next page; null on the last page */
+  nextCursor: string | null;
+  warning?: string;
+}
+
+// Cursors idle longer than QUERY_CURSOR_TTL_MS expire; each page fetch refreshes the TTL
+const cursorStore = new SchemaCache(500, config.QUERY_CURSOR_TTL_MS);
+
+
+export function encodeCursor(id: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ c: id, o: offset }), 'utf8').toString('base64url');
+}
+
+export function decodeCursor(token: string): { id: string; offset: number } {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (typeof decoded?.c === 'string' && Number.isInteger(decoded?.o) && decoded.o >= 0) {
+      return { id: decoded.c, offset: decoded.o };
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error('Invalid cursor: pass the nextCursor value from a previous query_database response unchanged');
+}
+
+/**
+ * Token for the same result set at a different row offset
+ */
+export function cursorAtOffset(token: string, offset: number): string {
+  return encodeCursor(decodeCursor(token).id, offset);
+}
+
+export function createCursor(state: QueryCursorState): string {
+  const id = randomUUID();
+  cursorStore.set(id, state);
+  return id;
+}
+
+/**
+ * Look up a cursor token for `sessionId` and refresh its idle TTL
+ */
+export function resolveCursor(token: string, sessionId?: string): { id: string; offset: number; state: QueryCursorState } {
+  const { id, offset } = decodeCursor(token);
+  const state = cursorStore.get<QueryCursorState>(id);
+
+  // Another session's cursor is reported like an expired one
+  if (!state || state.sessionId !== sessionId) {
+    throw new Error(
+      `Cursor expired or unknown (cursors expire after ${config.QUERY_CURSOR_TTL_MS} ms idle). Re-run the original query to start over.`
+    );
+  }
+
+  cursorStore.set(id, state);
+  return { id, offset, state };
+}
+
+/**
+ * Rewrite `query` to return `limit` rows starting at `offset`.
+ *
+ * The row limiting clause is appended when the query has none of its own, so
+ * column names (including duplicates from joins) are untouched. Queries that
+ * already limit rows are wrapped in an inline view instead.
+ */
+export function buildPageQuery(query: string, offset: number, limit: number): string {
+  const base = stripTrailingSeparator(query.trim());
+  const clause = `OFFSET ${Math.trunc(offset)} ROWS FETCH NEXT ${Math.trunc(limit)} ROWS ONLY`;
+  const tokens = tokenizeSql(base);
+
+  // An existing row limiting clause means we must wrap rather than append our own
+  if (
+    hasKeywordSequence(tokens, ['FETCH', ['FIRST', 'NEXT']]) ||
+    hasKeywordSequence(tokens, ['OFFSET', '*', ['ROW', 'ROWS']])
+  ) {
+    return `SELECT * FROM (\n${base}\n) ${clause}`;
+  }
+
+  return `${base}\n${clause}`;
+}
+
+/**
+ * Paging without ORDER BY can repeat or skip rows between pages
+ */
+export function orderingWarning(query: string): string | undefined {
+  if (hasKeywordSequence(tokenizeSql(query), ['ORDER', 'BY'])) return undefined;
+  return 'Query has no ORDER BY; Oracle does not guarantee a stable row order, so pages may overlap or skip rows. Add an ORDER BY on a unique key for reliable paging.';
+}
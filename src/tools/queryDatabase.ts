@@ -1,40 +1,228 @@
 import { z } from 'zod';
-import { executeQuery } from '../database/queryExecutor.js';
+import getConfig from '../config.js';
+import { validateBinds, type BindParameters, type BindValue } from '../database/binds.js';
+import type { ExecutionContext } from '../database/cancellation.js';
+import { QueryCancelledError, QueryCostExceededError, QueryTimeoutError } from '../database/errors.js';
+import { ensureReadOnlyQuery, executeQuery } from '../database/queryExecutor.js';
+import { getAccessPolicy } from '../policy/accessPolicy.js';
+import { redactQueryResult } from '../policy/redaction.js';
+import { ResponseEncodingSchema } from '../utils/encodings.js';
 import logger from '../utils/logger.js';
+import {
+  buildPageQuery,
+  createCursor,
+  encodeCursor,
+  orderingWarning,
+  resolveCursor,
+  type PaginationInfo,
+  type QueryCursorState,
+} from './pagination.js';
+import { defineTool, READ_ONLY_ANNOTATIONS } from './registry.js';
+
+const config = getConfig();
+
+// A single bind value: string, number, null, or a typed date (converted to a JS Date before binding)
+const BindValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.null(),
+  z.object({
+    type: z.literal('date'),
+    value: z.string().refine((v) => !Number.isNaN(Date.parse(v)), {
+      message: 'date bind value must be an ISO 8601 date or timestamp',
+    }),
+  }),
+]);
+
+type BindValueInput = z.infer<typeof BindValueSchema>;
+
+export const BindsSchema = z
+  .union([z.array(BindValueSchema), z.record(BindValueSchema)])
+  .describe(
+    'Bind values for :placeholders in the query (optional). Use an array for positional binds (one value per placeholder occurrence, in order) or an object keyed by placeholder name, e.g. { "customer_id": 42 }. Values may be strings, numbers, null, or { "type": "date", "value": "2024-01-31T00:00:00Z" }.'
+  );
 
 // Input schema for query_database tool
-export const QueryDatabaseSchema = z.object({
-  query: z.string().min(1, 'Query cannot be empty'),
-  maxRows: z.number().int().positive().optional(),
-  timeout: z.number().int().positive().optional(),
-});
+export const QueryDatabaseSchema = z
+  .object({
+    query: z
+      .string()
+      .min(1, 'Query cannot be empty')
+      .optional()
+      .describe('The SQL query to execute (SELECT statements only). Omit when passing cursor.'),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('nextCursor from a previous query_database response, to fetch the next page of that result set. Omit query and binds when using it.'),
+    binds: BindsSchema.optional(),
+    pageSize: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Rows per page (optional, defaults to MCP_MAX_ROWS_IN_RESPONSE, capped at MAX_ROWS_PER_QUERY)'),
+    maxRows: z.number().int().positive().optional().describe('Maximum total number of rows to return across all pages (optional)'),
+    timeout: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Query timeout in milliseconds (optional, defaults to and capped at the server QUERY_TIMEOUT_MS)'),
+    encoding: ResponseEncodingSchema.optional(),
+  })
+  .refine((input) => (input.query === undefined) !== (input.cursor === undefined), {
+    message: 'Provide either query or cursor (but not both)',
+  })
+  .refine((input) => input.cursor === undefined || input.binds === undefined, {
+    message: 'binds cannot be combined with cursor; the cursor already carries the original binds',
+  });
 
 export type QueryDatabaseInput = z.infer<typeof QueryDatabaseSchema>;
 
+function toBindValue(value: BindValueInput): BindValue {
+  return value !== null && typeof value === 'object' ? new Date(value.value) : value;
+}
+
+export function toBindParameters(binds: z.infer<typeof BindsSchema> | undefined): BindParameters | undefined {
+  if (binds === undefined) return undefined;
+  if (Array.isArray(binds)) return binds.map(toBindValue);
+  return Object.fromEntries(Object.entries(binds).map(([key, value]) => [key, toBindValue(value)]));
+}
+
 /**
- * Execute a SQL query against the Oracle database
+ * Execute a SQL query against the Oracle database and return one page of rows.
+ *
+ * The first call stores the query and binds under a cursor and returns rows
+ * [0, pageSize). Later calls pass `cursor` and re-run the query with an
+ * OFFSET ... FETCH NEXT clause, so no result set or connection is held open
+ * between pages.
  */
-export async function queryDatabase(input: QueryDatabaseInput) {
+export async function queryDatabase(input: QueryDatabaseInput, context?: ExecutionContext) {
   try {
     // Validate input
     const validated = QueryDatabaseSchema.parse(input);
 
+    let cursorId: string;
+    let offset: number;
+    let state: QueryCursorState;
+
+    if (validated.cursor) {
+      const resolved = resolveCursor(validated.cursor, context?.sessionId);
+      cursorId = resolved.id;
+      offset = resolved.offset;
+      state = resolved.state;
+    } else {
+      const query = validated.query!;
+      const binds = toBindParameters(validated.binds);
+
+      // Reject bad queries before handing out a cursor for them
+      ensureReadOnlyQuery(query);
+      getAccessPolicy().checkQuery('query_database', query);
+      validateBinds(query, binds);
+
+      state = {
+        query,
+        binds,
+        pageSize: Math.min(validated.pageSize ?? config.MCP_MAX_ROWS_IN_RESPONSE, config.MAX_ROWS_PER_QUERY),
+        maxRows: validated.maxRows,
+        timeout: validated.timeout,
+        sessionId: context?.sessionId,
+      };
+      cursorId = createCursor(state);
+      offset = 0;
+    }
+
+    const remaining = state.maxRows !== undefined ? state.maxRows - offset : Infinity;
+    const limit = Math.max(0, Math.min(state.pageSize, remaining));
+
     logger.info('Executing query via MCP tool', {
-      queryLength: validated.query.length,
-      maxRows: validated.maxRows,
+      queryLength: state.query.length,
+      offset,
+      pageSize: limit,
+      bindCount: state.binds ? Object.keys(state.binds).length : 0,
     });
 
-    // Execute the query
-    const result = await executeQuery(validated.query, {
-      maxRows: validated.maxRows,
-      timeout: validated.timeout,
-    });
+    // Fetch one extra row to learn whether another page exists. The first
+    // page runs the query unchanged and lets maxRows stop the fetch.
+    const pageQuery = offset === 0 ? state.query : buildPageQuery(state.query, offset, limit + 1);
+    const result = limit === 0
+      ? { rows: [], rowCount: 0, columns: [], executionTime: 0 }
+      : redactQueryResult('query_database', state.query, await executeQuery(pageQuery, {
+        maxRows: limit + 1,
+        timeout: validated.timeout ?? state.timeout,
+        binds: state.binds,
+        context,
+        // Later pages re-run a query whose plan was already checked
+        costGuard: offset === 0,
+        stringifiedColumns: state.stringifiedColumns,
+      }));
+
+    // A column that needed strings on one page stays strings on the pages after it
+    if (result.stringifiedColumns?.length) {
+      state.stringifiedColumns = [...new Set([...(state.stringifiedColumns ?? []), ...result.stringifiedColumns])];
+    }
+
+    const rows = result.rows.slice(0, limit);
+    // More rows exist and the caller's maxRows budget is not used up
+    const hasMore = result.rows.length > limit && rows.length < remaining;
+
+    const pagination: PaginationInfo = {
+      cursor: encodeCursor(cursorId, offset),
+      offset,
+      pageSize: limit,
+      returnedRows: rows.length,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(cursorId, offset + rows.length) : null,
+    };
+
+    const warning = hasMore || offset > 0 ? orderingWarning(state.query) : undefined;
+    if (warning) {
+      pagination.warning = warning;
+    }
 
     return {
       success: true,
-      data: result,
+      data: { ...result, rows, rowCount: rows.length },
+      pagination,
     };
   } catch (err: any) {
+    if (err instanceof QueryCancelledError) {
+      // The SDK drops responses to cancelled requests; this is for direct callers
+      return {
+        success: false,
+        error: err.message,
+        cancelled: true,
+      };
+    }
+
+    if (err instanceof QueryCostExceededError) {
+      logger.warn('Query database tool rejected by cost guard', { cost: err.cost, cardinality: err.cardinality });
+
+      return {
+        success: false,
+        error: err.message,
+        costExceeded: true,
+        estimate: { cost: err.cost, cardinality: err.cardinality },
+        thresholds: { maxCost: err.maxCost, maxCardinality: err.maxCardinality },
+        costliestLines: err.costliestLines,
+        hint: 'The query was not run. Add selective filters or missing join conditions, and use explain_query to inspect the plan before retrying.',
+      };
+    }
+
+    if (err instanceof QueryTimeoutError) {
+      logger.warn('Query database tool timed out', { timeoutMs: err.timeoutMs, elapsedMs: err.elapsedMs });
+
+      return {
+        success: false,
+        error: err.message,
+        timedOut: true,
+        timeoutMs: err.timeoutMs,
+        elapsedMs: err.elapsedMs,
+        hint: 'The statement was cancelled on the server. Narrow the query (add filters, fewer joins, FETCH FIRST n ROWS ONLY) or pass a larger timeout up to QUERY_TIMEOUT_MS.',
+      };
+    }
+
     logger.error('Query database tool failed', { error: err.message });
 
     return {
@@ -43,3 +231,12 @@ export async function queryDatabase(input: QueryDatabaseInput) {
     };
   }
 }
+
+export const queryDatabaseTool = defineTool({
+  name: 'query_database',
+  description:
+    'Execute a read-only SQL SELECT query against the Oracle database. Returns one page of rows, column names, and execution metrics. When pagination.hasMore is true, call again with { "cursor": pagination.nextCursor } to fetch the next page. Prefer :placeholders with binds over inlined literals.',
+  inputSchema: QueryDatabaseSchema,
+  annotations: { ...READ_ONLY_ANNOTATIONS, title: 'Query database' },
+  handler: queryDatabase,
+});
@@ -0,0 +1,101 @@
+import type { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ExecutionContext } from '../database/cancellation.js';
+
+/**
+ * Per-call context handed to tool handlers: the MCP request ID and the
+ * abort signal that fires on notifications/cancelled.
+ */
+export type ToolContext = ExecutionContext;
+
+/**
+ * A single MCP tool: its public metadata, input schema and handler.
+ *
+ * The zod schema is the only source of truth for the tool's input — the JSON
+ * Schema advertised in tools/list is generated from it, and tools/call
+ * arguments are parsed with it before the handler runs.
+ */
+export interface ToolDefinition<TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: TSchema;
+  annotations?: ToolAnnotations;
+  handler(input: z.output<TSchema>, context: ToolContext): Promise<unknown>;
+}
+
+/**
+ * Annotations shared by the tools in this server: nothing writes to the
+ * database and nothing reaches outside it.
+ */
+export const READ_ONLY_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+/**
+ * Identity helper that keeps the handler's input type tied to the schema.
+ */
+export function defineTool<TSchema extends z.ZodTypeAny>(definition: ToolDefinition<TSchema>): ToolDefinition<TSchema> {
+  return definition;
+}
+
+/**
+ * Convert a tool definition to the shape advertised in tools/list
+ */
+export function toMcpTool(definition: ToolDefinition): Tool {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(definition.inputSchema, {
+    $refStrategy: 'none',
+    target: 'jsonSchema7',
+  }) as Record<string, unknown>;
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: { ...jsonSchema, type: 'object' } as Tool['inputSchema'],
+    annotations: definition.annotations,
+  };
+}
+
+/**
+ * Lookup table over a list of tool definitions
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(definitions: ToolDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  register(definition: ToolDefinition): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool already registered: ${definition.name}`);
+    }
+    this.tools.set(definition.name, definition);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values(), toMcpTool);
+  }
+
+  /**
+   * Validate arguments against the tool's schema and run its handler
+   */
+  async call(name: string, args: unknown, context: ToolContext = {}): Promise<unknown> {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const validated = definition.inputSchema.parse(args ?? {});
+    return definition.handler(validated, context);
+  }
+}
@@ -0,0 +1,280 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import getConfig from '../config.js';
+import logger from '../utils/logger.js';
+
+const config = getConfig();
+
+// Upper bound on a single JSON-RPC request body
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Longest wait between two idle-session sweeps
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Host names accepted when MCP_HTTP_ALLOWED_HOSTS is empty
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** When the last request on the session started or ended */
+  lastActivity: number;
+  /** Requests still being answered, including open GET streams */
+  openRequests: number;
+}
+
+export interface HttpTransportOptions {
+  /**
+   * Decide whether a request may reach the MCP endpoint. Defaults to a
+   * bearer token check against MCP_HTTP_AUTH_TOKEN, or to allowing every
+   * request when no token is configured.
+   */
+  authenticate?: (req: IncomingMessage) => boolean | Promise<boolean>;
+}
+
+export interface HttpTransportHandle {
+  /** Port the server listens on, useful when MCP_HTTP_PORT is 0 */
+  port: number;
+  /** Close every open MCP session and stop accepting HTTP connections */
+  close(): Promise<void>;
+  /** Number of MCP sessions currently open */
+  sessionCount(): number;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, public readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, -32700, 'Parse error: request body is not valid JSON');
+  }
+}
+
+function containsInitializeRequest(body: unknown): boolean {
+  return Array.isArray(body) ? body.some((msg) => isInitializeRequest(msg)) : isInitializeRequest(body);
+}
+
+/**
+ * Bearer token check against MCP_HTTP_AUTH_TOKEN
+ */
+function checkBearerToken(req: IncomingMessage): boolean {
+  if (!config.MCP_HTTP_AUTH_TOKEN) return true;
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  const given = Buffer.from(match?.[1].trim() ?? '');
+  const expected = Buffer.from(config.MCP_HTTP_AUTH_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Whether the Host header names this server. A web page on another site can
+ * point its own host name at 127.0.0.1 (DNS rebinding) and reach a local
+ * server, but its requests still carry that other host name.
+ */
+function isAllowedHost(host: string | undefined): boolean {
+  if (config.MCP_HTTP_DNS_REBINDING_PROTECTION === 'off') return true;
+  if (!host) return false;
+
+  const allowed = config.MCP_HTTP_ALLOWED_HOSTS?.length ? config.MCP_HTTP_ALLOWED_HOSTS : LOOPBACK_HOSTS;
+  const value = host.toLowerCase();
+  const hostname = /^(\[[^\]]+\]|[^:]+)(?::\d+)?$/.exec(value)?.[1];
+  return allowed.includes(value) || (hostname !== undefined && allowed.includes(hostname));
+}
+
+/**
+ * Serve MCP over the Streamable HTTP transport.
+ *
+ * Each client session gets its own Server instance (built by `createServer`)
+ * and transport, keyed by the `mcp-session-id` header. The Oracle connection
+ * pool is shared across all sessions. Sessions that see no request for
+ * MCP_HTTP_SESSION_IDLE_TTL_MS are closed, for clients that go away without
+ * a DELETE.
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions = {}
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, HttpSession>();
+  const authenticate = options.authenticate ?? checkBearerToken;
+
+  async function openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { server, transport, lastActivity: Date.now(), openRequests: 0 });
+        logger.info('MCP HTTP session opened', { sessionId, openSessions: sessions.size });
+      },
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && sessions.delete(sessionId)) {
+        logger.info('MCP HTTP session closed', { sessionId, openSessions: sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSessionRequest(session: HttpSession, req: IncomingMessage, res: ServerResponse, body?: unknown): Promise<void> {
+    session.openRequests += 1;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests -= 1;
+      session.lastActivity = Date.now();
+    });
+
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  async function closeSession(sessionId: string, { server, transport }: HttpSession): Promise<void> {
+    try {
+      await transport.close();
+      await server.close();
+    } catch (err: any) {
+      logger.error('Error closing MCP HTTP session', { sessionId, error: err?.message ?? err });
+    }
+  }
+
+  async function closeIdleSessions(): Promise<void> {
+    const idleSince = Date.now() - config.MCP_HTTP_SESSION_IDLE_TTL_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.openRequests > 0 || session.lastActivity > idleSince) continue;
+      logger.info('MCP HTTP session expired', { sessionId, idleMs: Date.now() - session.lastActivity });
+      await closeSession(sessionId, session);
+      sessions.delete(sessionId);
+    }
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!isAllowedHost(req.headers.host)) {
+      throw new HttpError(403, -32000, `Forbidden: host ${req.headers.host ?? '(none)'} is not in MCP_HTTP_ALLOWED_HOSTS`);
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    if (url.pathname !== config.MCP_HTTP_PATH) {
+      throw new HttpError(404, -32601, `Not found: MCP endpoint is ${config.MCP_HTTP_PATH}`);
+    }
+
+    if (!(await authenticate(req))) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      throw new HttpError(401, -32001, 'Unauthorized: missing or invalid bearer token');
+    }
+
+    const headerValue = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (sessionId && !session) {
+      throw new HttpError(404, -32001, 'Session not found');
+    }
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+
+      if (session) {
+        await handleSessionRequest(session, req, res, body);
+        return;
+      }
+
+      if (!containsInitializeRequest(body)) {
+        throw new HttpError(400, -32000, 'Bad Request: no valid session ID provided');
+      }
+
+      await openSession(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!session) {
+        throw new HttpError(400, -32000, 'Bad Request: no valid session ID provided');
+      }
+      await handleSessionRequest(session, req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    throw new HttpError(405, -32000, `Method ${req.method} not allowed`);
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((err: any) => {
+      if (err instanceof HttpError) {
+        logger.warn('Rejected MCP HTTP request', { method: req.method, url: req.url, status: err.status, error: err.message });
+        sendJsonRpcError(res, err.status, err.code, err.message);
+        return;
+      }
+
+      logger.error('MCP HTTP request failed', { method: req.method, url: req.url, error: err?.message ?? err });
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.MCP_HTTP_PORT, config.MCP_HTTP_HOST, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  logger.info('MCP server listening via Streamable HTTP', {
+    host: config.MCP_HTTP_HOST,
+    port,
+    path: config.MCP_HTTP_PATH,
+    authentication: options.authenticate ? 'custom' : config.MCP_HTTP_AUTH_TOKEN ? 'bearer token' : 'none',
+  });
+
+  const sweep = setInterval(() => void closeIdleSessions(), Math.min(config.MCP_HTTP_SESSION_IDLE_TTL_MS, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  return {
+    port,
+    async close() {
+      clearInterval(sweep);
+      logger.info('Closing MCP HTTP sessions', { openSessions: sessions.size });
+
+      for (const [sessionId, session] of sessions) {
+        await closeSession(sessionId, session);
+      }
+      sessions.clear();
+
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+    sessionCount() {
+      return sessions.size;
+    },
+  };
+}
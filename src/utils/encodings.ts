@@ -0,0 +1,152 @@
+/**
+ * Encodings for tabular data in tool responses (MCP_RESPONSE_ENCODING)
+ *
+ *   json      one object per row (column names repeated on every row)
+ *   columnar  { columns, rows } with column names once and one value array per row
+ *   csv       the table as CSV text, header first
+ *   markdown  the table as a Markdown table
+ *
+ * CSV and Markdown write nested values as JSON and NULL as an empty cell;
+ * Oracle stores empty strings as NULL, so the two cannot be confused.
+ */
+
+import { z } from 'zod';
+import { csvEscape } from '../export/formats.js';
+
+export const RESPONSE_ENCODINGS = ['json', 'columnar', 'csv', 'markdown'] as const;
+
+export type ResponseEncoding = (typeof RESPONSE_ENCODINGS)[number];
+
+export const ResponseEncodingSchema = z
+  .enum(RESPONSE_ENCODINGS)
+  .describe(
+    'How rows are written in the response (optional, defaults to MCP_RESPONSE_ENCODING): json (an object per row), columnar (column names once, then a value array per row), csv or markdown (the table as text). columnar, csv and markdown use fewer tokens for wide results.'
+  );
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * True for a non-empty array of plain objects, i.e. something worth encoding as a table
+ */
+export function isTable(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isRecord);
+}
+
+/**
+ * Column names of `rows` in first-seen order
+ */
+export function tableColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return [...columns];
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function csvLine(values: unknown[]): string {
+  return `${values.map((value) => csvEscape(cellText(value))).join(',')}\r\n`;
+}
+
+function markdownLine(values: unknown[]): string {
+  return `| ${values.map(markdownCell).join(' | ')} |\n`;
+}
+
+function markdownHeader(columns: string[]): string {
+  return markdownLine(columns) + markdownLine(columns.map(() => '---'));
+}
+
+function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+  return csvLine(columns) + rows.map((row) => csvLine(columns.map((column) => row[column]))).join('');
+}
+
+function toMarkdown(rows: Record<string, unknown>[], columns: string[]): string {
+  return markdownHeader(columns) + rows.map((row) => markdownLine(columns.map((column) => row[column]))).join('');
+}
+
+/**
+ * Encode rows as a table. `columns` fixes the column order (query results
+ * pass their result columns, so an empty result still has a header).
+ */
+export function encodeTable(
+  rows: Record<string, unknown>[],
+  encoding: ResponseEncoding,
+  columns: string[] = tableColumns(rows)
+): unknown {
+  if (columns.length === 0 && (encoding === 'csv' || encoding === 'markdown')) return '';
+
+  switch (encoding) {
+    case 'columnar':
+      return { columns, rows: rows.map((row) => columns.map((column) => row[column] ?? null)) };
+    case 'csv':
+      return toCsv(rows, columns);
+    case 'markdown':
+      return toMarkdown(rows, columns);
+    default:
+      return rows;
+  }
+}
+
+/**
+ * JSON text of an encoded table, produced one row at a time so a caller can
+ * stop once it has written enough. `open`, then `row(row, i)` for each row in
+ * order, then `close` gives the JSON of encodeTable's result (of its `rows`
+ * alone when `rowsOnly` is set, as for query results whose columns are
+ * listed elsewhere).
+ */
+export interface TableJsonWriter {
+  open: string;
+  row(row: unknown, index: number): string;
+  close: string;
+}
+
+// Contents of a JSON string literal, without the quotes
+function jsonStringBody(text: string): string {
+  return JSON.stringify(text).slice(1, -1);
+}
+
+export function tableJsonWriter(encoding: ResponseEncoding, columns: string[], rowsOnly: boolean): TableJsonWriter {
+  const values = (row: unknown) => columns.map((column) => (isRecord(row) ? row[column] ?? null : null));
+
+  if (columns.length === 0 && (encoding === 'csv' || encoding === 'markdown')) {
+    return { open: '""', row: () => '', close: '' };
+  }
+
+  switch (encoding) {
+    case 'columnar':
+      return {
+        open: rowsOnly ? '[' : `{"columns":${JSON.stringify(columns)},"rows":[`,
+        row: (row, index) => `${index > 0 ? ',' : ''}${JSON.stringify(values(row))}`,
+        close: rowsOnly ? ']' : ']}',
+      };
+    case 'csv':
+      return {
+        open: `"${jsonStringBody(csvLine(columns))}`,
+        row: (row) => jsonStringBody(csvLine(values(row))),
+        close: '"',
+      };
+    case 'markdown':
+      return {
+        open: `"${jsonStringBody(markdownHeader(columns))}`,
+        row: (row) => jsonStringBody(markdownLine(values(row))),
+        close: '"',
+      };
+    default:
+      return {
+        open: '[',
+        row: (row, index) => `${index > 0 ? ',' : ''}${JSON.stringify(row) ?? 'null'}`,
+        close: ']',
+      };
+  }
+}
@@ -1,5 +1,11 @@
 import getConfig from '../config.js';
+import type { ColumnMetadata } from '../database/types.js';
+import { canStoreResults, resultPageUri, storeResult, type ResultResourceInfo } from '../resources/results.js';
+import { cursorAtOffset } from '../tools/pagination.js';
+import { encodeTable, isTable, tableColumns, tableJsonWriter, type ResponseEncoding, type TableJsonWriter } from './encodings.js';
 import logger from './logger.js';
+import { summarizeRows, type ResultSummary } from './resultSummary.js';
+import { getTokenEstimator, tokenBudget, type TokenEstimator } from './tokens.js';
 
 const config = getConfig();
 
@@ -7,6 +13,7 @@ interface QueryDataShape {
   rows?: Record<string, unknown>[];
   rowCount?: number;
   columns?: string[];
+  columnMetadata?: ColumnMetadata[];
   executionTime?: number;
 }
 
@@ -16,6 +23,17 @@ interface ResponseShape {
   [key: string]: unknown;
 }
 
+interface FitSummary {
+  warning: string;
+  /** Rows left out to fit MCP_MAX_RESPONSE_CHARS and the token budget, after MCP_MAX_ROWS_IN_RESPONSE */
+  droppedRows: number;
+  /** String columns cut below MCP_MAX_STRING_LENGTH, with the new limit and values cut */
+  shortenedColumns?: Record<string, { maxLength: number; shortenedValues: number }>;
+  /** Columns removed because not even one row fit with them */
+  droppedColumns?: string[];
+  remediation: string;
+}
+
 interface Remediation {
   description: string;
   envVars: Record<string, string>;
@@ -24,6 +42,8 @@ interface Remediation {
 
 interface TruncationSummary {
   maxResponseChars: number;
+  /** This tool's token budget, when MCP_TOOL_TOKEN_BUDGETS or MCP_MAX_RESPONSE_TOKENS sets one */
+  maxResponseTokens?: number;
   maxRowsInResponse: number;
   maxStringLength: number;
   originalRows: number;
@@ -31,142 +51,304 @@ interface TruncationSummary {
   droppedRows: number;
   truncatedStringFields: number;
   compactedForTokenEfficiency: boolean;
+  /** Encoding of the returned rows; the counts above are rows and fields in any encoding */
+  encoding: ResponseEncoding;
+  /** Estimated tokens of this response */
+  estimatedTokens: number;
+  /** Estimated tokens of the rows and string parts left out */
+  estimatedTokensSaved: number;
+  tokenEstimator: string;
   dataLossWarning?: string;
+  continuation?: string;
   remediation?: Remediation;
 }
 
+/** How a response's tokens are counted and the most it may use */
+interface TokenBudget {
+  estimator: TokenEstimator;
+  budget?: number;
+}
+
+interface ResponseSize {
+  chars: number;
+  tokens: number;
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-function truncateString(value: string): { value: string; truncated: boolean } {
-  if (value.length <= config.MCP_MAX_STRING_LENGTH) {
+function truncateString(value: string, maxLength = config.MCP_MAX_STRING_LENGTH): { value: string; truncated: boolean } {
+  if (value.length <= maxLength) {
     return { value, truncated: false };
   }
 
-  const removed = value.length - config.MCP_MAX_STRING_LENGTH;
+  const removed = value.length - maxLength;
   return {
-    value: `${value.slice(0, config.MCP_MAX_STRING_LENGTH)}... [truncated ${removed} chars]`,
+    value: `${value.slice(0, maxLength)}... [truncated ${removed} chars]`,
     truncated: true,
   };
 }
 
-function truncateRowStrings(row: Record<string, unknown>): { row: Record<string, unknown>; truncatedCount: number } {
+// Shortest limit a string column is cut to when fitting a response
+const MIN_FIT_STRING_LENGTH = 40;
+
+interface FitPlan {
+  /** Per-column string limits below MCP_MAX_STRING_LENGTH */
+  stringLimits: Map<string, number>;
+  droppedColumns: string[];
+}
+
+function stringLimit(plan: FitPlan, column: string): number {
+  return plan.stringLimits.get(column) ?? config.MCP_MAX_STRING_LENGTH;
+}
+
+/**
+ * Truncate the strings of one row to MCP_MAX_STRING_LENGTH, or to the tighter
+ * limit a fit plan sets for the column, and leave out dropped columns
+ */
+function compactRow(
+  row: unknown,
+  plan: FitPlan,
+  estimator: TokenEstimator
+): { row: unknown; truncatedCount: number; overLimitCount: number; savedTokens: number; shortened: string[] } {
+  if (!isRecord(row)) return { row, truncatedCount: 0, overLimitCount: 0, savedTokens: 0, shortened: [] };
+
   const nextRow: Record<string, unknown> = {};
   let truncatedCount = 0;
+  let overLimitCount = 0;
+  let savedTokens = 0;
+  const shortened: string[] = [];
 
   for (const [key, value] of Object.entries(row)) {
-    if (typeof value === 'string') {
-      const truncated = truncateString(value);
-      nextRow[key] = truncated.value;
-      if (truncated.truncated) {
-        truncatedCount += 1;
-      }
+    if (plan.droppedColumns.includes(key)) continue;
+    if (typeof value !== 'string') {
+      nextRow[key] = value;
       continue;
     }
 
-    nextRow[key] = value;
+    const truncated = truncateString(value, stringLimit(plan, key));
+    nextRow[key] = truncated.value;
+    if (truncated.truncated) {
+      truncatedCount += 1;
+      savedTokens += Math.max(0, estimator.estimate(value) - estimator.estimate(truncated.value));
+      if (value.length > config.MCP_MAX_STRING_LENGTH) overLimitCount += 1;
+      if (plan.stringLimits.has(key)) shortened.push(key);
+    }
   }
 
-  return { row: nextRow, truncatedCount };
+  return { row: nextRow, truncatedCount, overLimitCount, savedTokens, shortened };
 }
 
-function compactArrayData(
-  toolName: string,
-  response: ResponseShape,
-  arr: unknown[]
-): { response: ResponseShape; summary: TruncationSummary } {
-  const originalRows = arr.length;
-  const cappedRows = arr.slice(0, config.MCP_MAX_ROWS_IN_RESPONSE);
-
-  let truncatedStringFields = 0;
-  const compactedRows = cappedRows.map((item) => {
-    if (!isRecord(item)) return item;
-    const { row: nextRow, truncatedCount } = truncateRowStrings(item);
-    truncatedStringFields += truncatedCount;
-    return nextRow;
-  });
+/**
+ * For paginated query_database responses, point nextCursor at the first row
+ * the formatter dropped so the next page picks up exactly where this one ends.
+ */
+function resumePaginationAt(response: ResponseShape, returnedRows: number): ResponseShape {
+  const pagination = response.pagination;
+  if (!isRecord(pagination) || typeof pagination.cursor !== 'string' || typeof pagination.offset !== 'number') {
+    return response;
+  }
+  if (typeof pagination.returnedRows === 'number' && returnedRows >= pagination.returnedRows) {
+    return response;
+  }
 
-  const droppedRows = Math.max(0, originalRows - compactedRows.length);
-  const summary: TruncationSummary = {
-    maxResponseChars: config.MCP_MAX_RESPONSE_CHARS,
-    maxRowsInResponse: config.MCP_MAX_ROWS_IN_RESPONSE,
-    maxStringLength: config.MCP_MAX_STRING_LENGTH,
-    originalRows,
-    returnedRows: compactedRows.length,
-    droppedRows,
-    truncatedStringFields,
-    compactedForTokenEfficiency: true,
+  return {
+    ...response,
+    pagination: {
+      ...pagination,
+      returnedRows,
+      hasMore: true,
+      nextCursor: cursorAtOffset(pagination.cursor, pagination.offset + returnedRows),
+    },
   };
+}
 
-  if (droppedRows > 0 || truncatedStringFields > 0) {
-    summary.dataLossWarning = [
-      droppedRows > 0 ? `${droppedRows} item(s) were dropped (MCP_MAX_ROWS_IN_RESPONSE=${config.MCP_MAX_ROWS_IN_RESPONSE}).` : '',
-      truncatedStringFields > 0 ? `${truncatedStringFields} string field(s) were truncated (MCP_MAX_STRING_LENGTH=${config.MCP_MAX_STRING_LENGTH}).` : '',
-    ].filter(Boolean).join(' ');
-
-    logger.warn('MCP response compacted due to token limits', {
-      tool: toolName,
-      originalRows,
-      returnedRows: compactedRows.length,
-      droppedRows,
-      truncatedStringFields,
-    });
+/**
+ * For responses backed by a stored result (oracle://results), point nextUri
+ * at the first row the formatter did not return.
+ */
+function resumeResultResourceAt(response: ResponseShape, returnedRows: number): ResponseShape {
+  const resource = response.resultResource as ResultResourceInfo | undefined;
+  if (!isRecord(resource) || typeof resource.uri !== 'string' || resource.returnedRows === returnedRows) {
+    return response;
   }
 
+  const nextOffset = resource.offset + returnedRows;
   return {
-    response: { ...response, data: compactedRows, _truncation: summary, _tool: toolName },
-    summary,
+    ...response,
+    resultResource: {
+      ...resource,
+      returnedRows,
+      nextUri: nextOffset < resource.totalRows ? resultPageUri(resource.uri, nextOffset, resource.limit) : null,
+    },
   };
 }
 
-function compactQueryData(
-  toolName: string,
-  response: ResponseShape
-): { response: ResponseShape; summary: TruncationSummary | null } {
-  // Discovery tools return data as a direct array (e.g. listTables → data: TableInfo[])
+/**
+ * The rows a response carries: query rows (data.rows) or a discovery tool's
+ * direct array (data: T[]), capped at MCP_MAX_ROWS_IN_RESPONSE
+ */
+interface RowTable {
+  rows: unknown[];
+  originalRows: number;
+  /** Result columns; empty for a direct array written as JSON, which has no header */
+  columns: string[];
+  queryShape: boolean;
+}
+
+function findRowTable(response: ResponseShape, encoding: ResponseEncoding): RowTable | undefined {
   if (Array.isArray(response.data)) {
-    return compactArrayData(toolName, response, response.data);
+    const rows = response.data.slice(0, config.MCP_MAX_ROWS_IN_RESPONSE);
+    const columns = encoding !== 'json' && isTable(rows) ? tableColumns(rows) : [];
+    return { rows, originalRows: response.data.length, columns, queryShape: false };
   }
 
-  if (!isRecord(response.data) || !Array.isArray(response.data.rows)) {
-    return { response, summary: null };
+  if (isRecord(response.data) && Array.isArray(response.data.rows)) {
+    const rows = response.data.rows.slice(0, config.MCP_MAX_ROWS_IN_RESPONSE);
+    const columns = Array.isArray(response.data.columns) ? (response.data.columns as string[]) : tableColumns(rows.filter(isRecord));
+    return { rows, originalRows: response.data.rows.length, columns, queryShape: true };
   }
 
-  const originalRows = response.data.rows.length;
-  const cappedRows = response.data.rows.slice(0, config.MCP_MAX_ROWS_IN_RESPONSE);
+  return undefined;
+}
 
-  let truncatedStringFields = 0;
-  const compactedRows = cappedRows.map((row) => {
-    const { row: nextRow, truncatedCount } = truncateRowStrings(row);
-    truncatedStringFields += truncatedCount;
-    return nextRow;
-  });
+/**
+ * Rows serialized so far. Serialization stops once the rows alone pass
+ * MCP_MAX_RESPONSE_CHARS or the token budget, so rows that cannot be returned
+ * are never touched.
+ */
+interface StreamedRows {
+  fragments: string[];
+  /** ends[k - 1] is the length of the first k fragments */
+  ends: number[];
+  /** tokenEnds[k - 1] is the estimated tokens of the first k fragments */
+  tokenEnds: number[];
+  truncatedFields: number[];
+  /** Of those, values longer than MCP_MAX_STRING_LENGTH itself */
+  overLimitFields: number[];
+  /** Estimated tokens cut from each row's strings */
+  savedTokens: number[];
+  shortened: string[][];
+  complete: boolean;
+}
 
-  const nextData: QueryDataShape = {
-    ...response.data,
-    rows: compactedRows,
+function streamRows(table: RowTable, plan: FitPlan, writer: TableJsonWriter, tokens: TokenBudget): StreamedRows {
+  const streamed: StreamedRows = {
+    fragments: [],
+    ends: [],
+    tokenEnds: [],
+    truncatedFields: [],
+    overLimitFields: [],
+    savedTokens: [],
+    shortened: [],
+    complete: false,
   };
+  let chars = 0;
+  let tokenCount = 0;
+
+  for (const [index, source] of table.rows.entries()) {
+    const { row, truncatedCount, overLimitCount, savedTokens, shortened } = compactRow(source, plan, tokens.estimator);
+    const fragment = writer.row(row, index);
+    chars += fragment.length;
+    tokenCount += tokens.estimator.estimate(fragment);
+
+    streamed.fragments.push(fragment);
+    streamed.ends.push(chars);
+    streamed.tokenEnds.push(tokenCount);
+    streamed.truncatedFields.push(truncatedCount);
+    streamed.overLimitFields.push(overLimitCount);
+    streamed.savedTokens.push(savedTokens);
+    streamed.shortened.push(shortened);
+
+    if (chars > config.MCP_MAX_RESPONSE_CHARS || (tokens.budget !== undefined && tokenCount > tokens.budget)) break;
+  }
+
+  streamed.complete = streamed.fragments.length === table.rows.length;
+  return streamed;
+}
 
-  const droppedRows = Math.max(0, originalRows - compactedRows.length);
+function sumFirst(values: number[], count: number): number {
+  return values.slice(0, count).reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * The limits a response is held to, for warnings and errors
+ */
+function describeLimits(budget: number | undefined): string {
+  const chars = `MCP_MAX_RESPONSE_CHARS (${config.MCP_MAX_RESPONSE_CHARS})`;
+  return budget === undefined ? chars : `${chars} or its token budget (${budget})`;
+}
+
+/**
+ * Estimated tokens left out of a response returning `returnedRows` rows:
+ * what string truncation cut from those rows, the streamed rows after them,
+ * and rows never serialized (past the stream or MCP_MAX_ROWS_IN_RESPONSE)
+ * counted at the average of the streamed ones
+ */
+function estimateTokensSaved(table: RowTable, streamed: StreamedRows, returnedRows: number): number {
+  const streamedRows = streamed.fragments.length;
+  const streamedTokens = streamedRows > 0 ? streamed.tokenEnds[streamedRows - 1] : 0;
+  const returnedTokens = returnedRows > 0 ? streamed.tokenEnds[returnedRows - 1] : 0;
+  const averageRowTokens = streamedRows > 0 ? streamedTokens / streamedRows : 0;
+
+  return (
+    sumFirst(streamed.savedTokens, returnedRows) +
+    (streamedTokens - returnedTokens) +
+    Math.round((table.originalRows - streamedRows) * averageRowTokens)
+  );
+}
+
+/**
+ * `_truncation` for the first `returnedRows` streamed rows. The data loss
+ * warning covers MCP_MAX_ROWS_IN_RESPONSE and MCP_MAX_STRING_LENGTH; cuts
+ * made to fit MCP_MAX_RESPONSE_CHARS are explained in `_fit`.
+ */
+function truncationSummary(
+  response: ResponseShape,
+  table: RowTable,
+  streamed: StreamedRows,
+  returnedRows: number,
+  encoding: ResponseEncoding,
+  tokens: TokenBudget,
+  estimatedTokens: number
+): TruncationSummary {
+  const cappedRows = table.originalRows - table.rows.length;
+  const droppedRows = table.originalRows - returnedRows;
+  const truncatedStringFields = sumFirst(streamed.truncatedFields, returnedRows);
+  const overLimitStringFields = sumFirst(streamed.overLimitFields, returnedRows);
 
   const summary: TruncationSummary = {
     maxResponseChars: config.MCP_MAX_RESPONSE_CHARS,
+    ...(tokens.budget !== undefined ? { maxResponseTokens: tokens.budget } : {}),
     maxRowsInResponse: config.MCP_MAX_ROWS_IN_RESPONSE,
     maxStringLength: config.MCP_MAX_STRING_LENGTH,
-    originalRows,
-    returnedRows: compactedRows.length,
+    originalRows: table.originalRows,
+    returnedRows,
     droppedRows,
     truncatedStringFields,
     compactedForTokenEfficiency: true,
+    encoding,
+    estimatedTokens,
+    estimatedTokensSaved: estimateTokensSaved(table, streamed, returnedRows),
+    tokenEstimator: tokens.estimator.name,
   };
 
-  if (droppedRows > 0 || truncatedStringFields > 0) {
+  if (cappedRows > 0 || overLimitStringFields > 0) {
+    const noun = table.queryShape ? 'row(s)' : 'item(s)';
     summary.dataLossWarning = [
-      droppedRows > 0 ? `${droppedRows} row(s) were dropped (MCP_MAX_ROWS_IN_RESPONSE=${config.MCP_MAX_ROWS_IN_RESPONSE}).` : '',
-      truncatedStringFields > 0 ? `${truncatedStringFields} string field(s) were truncated (MCP_MAX_STRING_LENGTH=${config.MCP_MAX_STRING_LENGTH}).` : '',
+      cappedRows > 0 ? `${cappedRows} ${noun} were dropped (MCP_MAX_ROWS_IN_RESPONSE=${config.MCP_MAX_ROWS_IN_RESPONSE}).` : '',
+      overLimitStringFields > 0 ? `${overLimitStringFields} string field(s) were truncated (MCP_MAX_STRING_LENGTH=${config.MCP_MAX_STRING_LENGTH}).` : '',
     ].filter(Boolean).join(' ');
+  }
+
+  if (!table.queryShape) return summary;
 
+  if (droppedRows > 0 && isRecord(response.pagination)) {
+    summary.continuation = 'Dropped rows were not lost: call query_database with { "cursor": pagination.nextCursor } to fetch them.';
+  }
+
+  if (summary.dataLossWarning) {
     summary.remediation = {
       description: 'Adjust these environment variables to see more data. Restart the MCP server after changing them.',
       envVars: {
@@ -182,27 +364,64 @@ function compactQueryData(
         MAX_ROWS_PER_QUERY: '500',
       },
     };
-
-    logger.warn('MCP response compacted due to token limits', {
-      tool: toolName,
-      originalRows,
-      returnedRows: compactedRows.length,
-      droppedRows,
-      truncatedStringFields,
-    });
   }
 
-  const nextResponse: ResponseShape = {
-    ...response,
-    data: nextData,
-    _truncation: summary,
-    _tool: toolName,
+  return summary;
+}
+
+function fitSummary(table: RowTable, plan: FitPlan, streamed: StreamedRows, returnedRows: number, budget: number | undefined): FitSummary {
+  const droppedRows = table.rows.length - returnedRows;
+  const fit: FitSummary = {
+    warning:
+      `The response exceeded ${describeLimits(budget)}. ` +
+      [
+        plan.droppedColumns.length > 0 ? `${plan.droppedColumns.length} column(s) were dropped.` : '',
+        plan.stringLimits.size > 0 ? `${plan.stringLimits.size} string column(s) were shortened.` : '',
+        droppedRows > 0 ? `${droppedRows} more row(s) were dropped.` : '',
+      ].filter(Boolean).join(' '),
+    droppedRows,
+    remediation:
+      `Select fewer or narrower columns, lower MCP_MAX_ROWS_IN_RESPONSE (current: ${config.MCP_MAX_ROWS_IN_RESPONSE}) or raise MCP_MAX_RESPONSE_CHARS (current: ${config.MCP_MAX_RESPONSE_CHARS})` +
+      (budget !== undefined ? ` or the tool's token budget in MCP_TOOL_TOKEN_BUDGETS / MCP_MAX_RESPONSE_TOKENS (current: ${budget}).` : '.'),
   };
 
-  return { response: nextResponse, summary };
+  if (plan.stringLimits.size > 0) {
+    const shortenedValues = new Map<string, number>();
+    for (const columns of streamed.shortened.slice(0, returnedRows)) {
+      for (const column of columns) shortenedValues.set(column, (shortenedValues.get(column) ?? 0) + 1);
+    }
+    fit.shortenedColumns = Object.fromEntries(
+      [...plan.stringLimits].map(([column, maxLength]) => [column, { maxLength, shortenedValues: shortenedValues.get(column) ?? 0 }])
+    );
+  }
+  if (plan.droppedColumns.length > 0) fit.droppedColumns = [...plan.droppedColumns];
+
+  return fit;
 }
 
-function buildSummaryPayload(toolName: string, response: ResponseShape, summary: TruncationSummary | null, overLimitChars: number): ResponseShape {
+/**
+ * Re-shape the record arrays inside object data (such as describeTable's
+ * columns and constraints) for a non-JSON encoding
+ */
+function encodeData(data: unknown, encoding: ResponseEncoding): unknown {
+  if (!isRecord(data)) return data;
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, isTable(value) ? encodeTable(value, encoding) : value])
+  );
+}
+
+function serialize(response: ResponseShape, encoding: ResponseEncoding): string {
+  if (encoding === 'json' || response.data === undefined) return JSON.stringify(response);
+  return JSON.stringify({ ...response, data: encodeData(response.data, encoding), _encoding: encoding });
+}
+
+function buildSummaryPayload(
+  toolName: string,
+  response: ResponseShape,
+  summary: TruncationSummary | null,
+  overLimit: ResponseSize,
+  budget: number | undefined
+): ResponseShape {
   const data = isRecord(response.data) ? response.data : undefined;
 
   const remediation: Remediation = {
@@ -212,18 +431,24 @@ function buildSummaryPayload(toolName: string, response: ResponseShape, summary:
       MCP_MAX_ROWS_IN_RESPONSE: `Max rows returned per tool call (current: ${config.MCP_MAX_ROWS_IN_RESPONSE})`,
       MCP_MAX_STRING_LENGTH: `Max characters per string field (current: ${config.MCP_MAX_STRING_LENGTH})`,
       MAX_ROWS_PER_QUERY: `Max rows Oracle fetches per query (current: ${config.MAX_ROWS_PER_QUERY})`,
+      ...(budget !== undefined
+        ? { MCP_TOOL_TOKEN_BUDGETS: `Token budget per tool, else MCP_MAX_RESPONSE_TOKENS (current for ${toolName}: ${budget})` }
+        : {}),
     },
     exampleValues: {
       MCP_MAX_RESPONSE_CHARS: String(config.MCP_MAX_RESPONSE_CHARS * 2),
       MCP_MAX_ROWS_IN_RESPONSE: String(Math.max(10, Math.floor(config.MCP_MAX_ROWS_IN_RESPONSE / 2))),
       MCP_MAX_STRING_LENGTH: String(Math.max(50, Math.floor(config.MCP_MAX_STRING_LENGTH / 2))),
       MAX_ROWS_PER_QUERY: String(Math.max(10, Math.floor(config.MAX_ROWS_PER_QUERY / 2))),
+      ...(budget !== undefined ? { MCP_TOOL_TOKEN_BUDGETS: `${toolName}=${budget * 2}` } : {}),
     },
   };
 
   return {
     success: false,
-    error: `Response for tool '${toolName}' exceeded MCP_MAX_RESPONSE_CHARS (${config.MCP_MAX_RESPONSE_CHARS}). Serialized size was approximately ${overLimitChars} characters. Full data was not returned.`,
+    error:
+      `Response for tool '${toolName}' exceeded ${describeLimits(budget)}. ` +
+      `Serialized size was approximately ${overLimit.chars} characters${budget !== undefined ? ` and ${overLimit.tokens} tokens` : ''}. Full data was not returned.`,
     tool: toolName,
     dataLoss: 'Some or all rows were omitted from this response. Use narrower queries or increase token limits to retrieve full results.',
     remediation,
@@ -232,103 +457,347 @@ function buildSummaryPayload(toolName: string, response: ResponseShape, summary:
       columnCount: Array.isArray(data?.columns) ? data.columns.length : undefined,
       executionTime: typeof data?.executionTime === 'number' ? data.executionTime : undefined,
       columns: Array.isArray(data?.columns) ? data.columns : undefined,
+      columnMetadata: Array.isArray(data?.columnMetadata) ? data.columnMetadata : undefined,
     },
     truncationDetails: summary,
+    ...(isRecord(response.resultResource) ? { resultResource: response.resultResource } : {}),
   };
 }
 
-export function formatToolResponse(toolName: string, result: unknown): string {
-  const baseResponse: ResponseShape = isRecord(result) ? { ...result } : { success: true, data: result };
-  const compacted = compactQueryData(toolName, baseResponse);
+function overLimitResponse(
+  toolName: string,
+  response: ResponseShape,
+  summary: TruncationSummary | null,
+  overLimit: ResponseSize,
+  budget: number | undefined
+): string {
+  logger.error('MCP response exceeded max chars even after fitting rows and columns; returning structured error', {
+    tool: toolName,
+    serializedChars: overLimit.chars,
+    estimatedTokens: overLimit.tokens,
+    limit: config.MCP_MAX_RESPONSE_CHARS,
+    tokenBudget: budget,
+    currentConfig: {
+      MCP_MAX_RESPONSE_CHARS: config.MCP_MAX_RESPONSE_CHARS,
+      MCP_MAX_ROWS_IN_RESPONSE: config.MCP_MAX_ROWS_IN_RESPONSE,
+      MCP_MAX_STRING_LENGTH: config.MCP_MAX_STRING_LENGTH,
+      MAX_ROWS_PER_QUERY: config.MAX_ROWS_PER_QUERY,
+    },
+  });
 
-  let text = JSON.stringify(compacted.response);
-  if (text.length <= config.MCP_MAX_RESPONSE_CHARS) {
-    return text;
-  }
+  return JSON.stringify(buildSummaryPayload(toolName, response, summary, overLimit, budget));
+}
 
-  // Stage 1a: halve a direct array (discovery tools shape: data: T[])
-  if (Array.isArray(compacted.response.data)) {
-    const arr = compacted.response.data;
-    const halvedCount = Math.max(1, Math.floor(arr.length / 2));
-    const droppedByHalving = arr.length - halvedCount;
-
-    logger.warn('MCP array response over limit after compaction; halving item count', {
-      tool: toolName,
-      originalSerializedChars: text.length,
-      limit: config.MCP_MAX_RESPONSE_CHARS,
-      itemsBefore: arr.length,
-      itemsAfter: halvedCount,
-      droppedItems: droppedByHalving,
-      hint: 'Lower MCP_MAX_ROWS_IN_RESPONSE or raise MCP_MAX_RESPONSE_CHARS to avoid this.',
-    });
+/**
+ * Widest string column that can still be cut further, measured in characters
+ * at its current limit
+ */
+function widestShortenableColumn(rows: unknown[], columns: string[], plan: FitPlan): string | undefined {
+  let widest: string | undefined;
+  let widestChars = 0;
+
+  for (const column of columns) {
+    const limit = stringLimit(plan, column);
+    const nextLimit = Math.max(MIN_FIT_STRING_LENGTH, Math.floor(limit / 2));
+    if (nextLimit >= limit || plan.droppedColumns.includes(column)) continue;
+
+    let chars = 0;
+    let cuttable = false;
+    for (const row of rows) {
+      const value = isRecord(row) ? row[column] : undefined;
+      if (typeof value !== 'string') continue;
+      chars += Math.min(value.length, limit);
+      cuttable ||= value.length > nextLimit;
+    }
+    if (cuttable && chars > widestChars) {
+      widest = column;
+      widestChars = chars;
+    }
+  }
 
-    const reducedPayload: ResponseShape = {
-      ...compacted.response,
-      data: arr.slice(0, halvedCount),
-      _halved: {
-        warning: `Item count was halved from ${arr.length} to ${halvedCount} because the response exceeded MCP_MAX_RESPONSE_CHARS (${config.MCP_MAX_RESPONSE_CHARS}).`,
-        droppedItems: droppedByHalving,
-        remediation: `Lower MCP_MAX_ROWS_IN_RESPONSE (current: ${config.MCP_MAX_ROWS_IN_RESPONSE}) or raise MCP_MAX_RESPONSE_CHARS (current: ${config.MCP_MAX_RESPONSE_CHARS}).`,
-      },
-    };
+  return widest;
+}
 
-    text = JSON.stringify(reducedPayload);
-    if (text.length <= config.MCP_MAX_RESPONSE_CHARS) {
-      return text;
+function widestColumn(rows: unknown[], columns: string[], plan: FitPlan): string | undefined {
+  let widest: string | undefined;
+  let widestChars = -1;
+
+  for (const column of columns) {
+    if (plan.droppedColumns.includes(column)) continue;
+    const chars = rows.reduce<number>((sum, row) => {
+      const value = isRecord(row) ? row[column] : undefined;
+      return sum + (value === undefined ? 0 : JSON.stringify(value).length);
+    }, 0);
+    if (chars > widestChars) {
+      widest = column;
+      widestChars = chars;
     }
   }
 
-  // Stage 1b: halve row count for SQL result shape (data: { rows: [...] })
-  if (isRecord(compacted.response.data) && Array.isArray(compacted.response.data.rows)) {
-    const rows = compacted.response.data.rows;
-    const halvedCount = Math.max(1, Math.floor(rows.length / 2));
-    const reducedRows = rows.slice(0, halvedCount);
-    const droppedByHalving = rows.length - halvedCount;
-
-    logger.warn('MCP response over limit after compaction; halving row count', {
-      tool: toolName,
-      originalSerializedChars: text.length,
-      limit: config.MCP_MAX_RESPONSE_CHARS,
-      rowsBefore: rows.length,
-      rowsAfter: halvedCount,
-      droppedRows: droppedByHalving,
-      hint: 'Lower MCP_MAX_ROWS_IN_RESPONSE or MCP_MAX_STRING_LENGTH to avoid this.',
+  return widest;
+}
+
+/**
+ * Largest `count` in [0, total] for which `fits(count)` holds, assuming
+ * responses only grow with more rows. All rows are tried first: leaving any
+ * out adds `_resultSummary`, which can outweigh the rows it replaces.
+ */
+function largestFittingPrefix(total: number, fits: (count: number) => boolean): number {
+  if (fits(total)) return total;
+  if (!fits(0)) return 0;
+
+  let low = 0;
+  let high = total;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(middle)) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+/**
+ * Keep every row of a response that cannot fit as an oracle://results
+ * resource, and answer with its URI and as many rows as fit. Only the rows,
+ * column names and row count are kept in the response; anything else that
+ * made it too large is left out.
+ */
+function spillResponse(
+  toolName: string,
+  response: ResponseShape,
+  table: RowTable,
+  encoding: ResponseEncoding,
+  options: FormatOptions
+): string {
+  const data = table.queryShape ? (response.data as QueryDataShape) : undefined;
+  const rows = data ? data.rows ?? [] : (response.data as unknown[]);
+  const columns = table.columns.length > 0 ? table.columns : tableColumns(rows.filter(isRecord));
+  const uri = storeResult({ tool: toolName, columns, columnMetadata: data?.columnMetadata, rows, sessionId: options.sessionId });
+
+  logger.warn('MCP response over limit; rows kept as a result resource', {
+    tool: toolName,
+    uri,
+    rows: rows.length,
+    limit: config.MCP_MAX_RESPONSE_CHARS,
+  });
+
+  const resultResource: ResultResourceInfo & { warning: string } = {
+    uri,
+    offset: 0,
+    limit: config.MCP_MAX_ROWS_IN_RESPONSE,
+    returnedRows: rows.length,
+    totalRows: rows.length,
+    nextUri: null,
+    warning: `The full response exceeded ${describeLimits(tokenBudget(toolName))}, so its rows are kept for ${config.RESULT_RESOURCE_TTL_MS} ms as this resource. Read further rows with resources/read on nextUri, or any range with ${uri}?offset=N&limit=M.`,
+  };
+  const spilled: ResponseShape = {
+    success: true,
+    data: table.queryShape ? { rows, rowCount: data?.rowCount ?? rows.length, columns } : rows,
+    ...(isRecord(response.pagination) ? { pagination: response.pagination } : {}),
+    resultResource,
+  };
+
+  return formatToolResponse(toolName, spilled, encoding, { ...options, spill: false });
+}
+
+// Stands in for the rows while the rest of the response is serialized
+const ROWS_SLOT = '\u0000rows\u0000';
+const ROWS_SLOT_JSON = JSON.stringify(ROWS_SLOT);
+
+/**
+ * Serialize a response that carries rows, within MCP_MAX_RESPONSE_CHARS and
+ * the tool's token budget.
+ *
+ * Rows are serialized one at a time into JSON fragments and the rest of the
+ * response separately around a placeholder, so the size of any row prefix is
+ * a sum and nothing is serialized twice. When everything does not fit, the
+ * widest string columns are shortened first (halving their limit down to
+ * MIN_FIT_STRING_LENGTH), then the largest prefix of rows that fits is found
+ * by binary search, and if not even one row fits the widest columns are
+ * dropped. What was left out is reported in `_fit` and `_truncation`, and
+ * when query rows are left out `_resultSummary` describes all fetched rows.
+ */
+function formatRows(
+  toolName: string,
+  response: ResponseShape,
+  table: RowTable,
+  encoding: ResponseEncoding,
+  options: FormatOptions
+): string {
+  const plan: FitPlan = { stringLimits: new Map(), droppedColumns: [] };
+  const tokens: TokenBudget = { estimator: getTokenEstimator(), budget: tokenBudget(toolName) };
+  const encodeRows = encoding !== 'json' && (table.queryShape || table.columns.length > 0);
+
+  const keptColumns = () => table.columns.filter((column) => !plan.droppedColumns.includes(column));
+  const writerFor = () => tableJsonWriter(encodeRows ? encoding : 'json', keptColumns(), table.queryShape);
+
+  let writer = writerFor();
+  let streamed = streamRows(table, plan, writer, tokens);
+  let fitted = false;
+
+  // Statistics over every fetched row, attached when query rows are left out
+  let withSummary = table.queryShape;
+  let resultSummary: ResultSummary | undefined;
+  const summaryFor = (count: number): ResultSummary | undefined => {
+    if (!withSummary || count >= table.originalRows) return undefined;
+    const data = response.data as QueryDataShape;
+    resultSummary ??= summarizeRows((data.rows ?? []).filter(isRecord), table.columns, data.columnMetadata);
+    return resultSummary;
+  };
+
+  const envelope = (count: number, estimatedTokens: number): [string, string] => {
+    const data = table.queryShape
+      ? {
+          ...(response.data as QueryDataShape),
+          rows: ROWS_SLOT,
+          ...(plan.droppedColumns.length > 0 ? { columns: keptColumns() } : {}),
+        }
+      : ROWS_SLOT;
+
+    const text = JSON.stringify({
+      ...resumeResultResourceAt(resumePaginationAt(response, count), count),
+      data,
+      _truncation: truncationSummary(response, table, streamed, count, encoding, tokens, estimatedTokens),
+      _resultSummary: summaryFor(count),
+      _tool: toolName,
+      ...(fitted ? { _fit: fitSummary(table, plan, streamed, count, tokens.budget) } : {}),
+      ...(encoding !== 'json' ? { _encoding: encoding } : {}),
     });
+    const slot = text.indexOf(ROWS_SLOT_JSON);
+    return [text.slice(0, slot), text.slice(slot + ROWS_SLOT_JSON.length)];
+  };
 
-    const reducedPayload: ResponseShape = {
-      ...compacted.response,
-      data: {
-        ...compacted.response.data,
-        rows: reducedRows,
-      },
-      _halved: {
-        warning: `Row count was halved from ${rows.length} to ${halvedCount} because the response exceeded MCP_MAX_RESPONSE_CHARS (${config.MCP_MAX_RESPONSE_CHARS}).`,
-        droppedRows: droppedByHalving,
-        remediation: `Lower MCP_MAX_ROWS_IN_RESPONSE (current: ${config.MCP_MAX_ROWS_IN_RESPONSE}) or raise MCP_MAX_RESPONSE_CHARS (current: ${config.MCP_MAX_RESPONSE_CHARS}).`,
-      },
+  // The envelope reports the response's own token estimate, so it is built
+  // around the rows' estimate first and then around the total that gives
+  const measure = (count: number): ResponseSize & { envelope: [string, string] } => {
+    const { estimator } = tokens;
+    const rowTokens = (count > 0 ? streamed.tokenEnds[count - 1] : 0) + estimator.estimate(writer.open + writer.close);
+    const [roughBefore, roughAfter] = envelope(count, rowTokens);
+    const estimated = rowTokens + estimator.estimate(roughBefore) + estimator.estimate(roughAfter);
+    const [before, after] = envelope(count, estimated);
+    return {
+      envelope: [before, after],
+      chars: before.length + writer.open.length + (count > 0 ? streamed.ends[count - 1] : 0) + writer.close.length + after.length,
+      tokens: estimated,
     };
+  };
+  const fits = (count: number) => {
+    const { chars, tokens: estimated } = measure(count);
+    return chars <= config.MCP_MAX_RESPONSE_CHARS && (tokens.budget === undefined || estimated <= tokens.budget);
+  };
 
-    text = JSON.stringify(reducedPayload);
-    if (text.length <= config.MCP_MAX_RESPONSE_CHARS) {
-      return text;
+  const render = (count: number) => {
+    const [before, after] = measure(count).envelope;
+    const truncatedStringFields = sumFirst(streamed.truncatedFields, count);
+    if (count < table.originalRows || truncatedStringFields > 0) {
+      logger.warn('MCP response compacted due to token limits', {
+        tool: toolName,
+        originalRows: table.originalRows,
+        returnedRows: count,
+        droppedRows: table.originalRows - count,
+        truncatedStringFields,
+      });
     }
+    return before + writer.open + streamed.fragments.slice(0, count).join('') + writer.close + after;
+  };
+
+  if (streamed.complete && fits(table.rows.length)) {
+    return render(table.rows.length);
+  }
+
+  const overLimit = measure(streamed.fragments.length);
+  fitted = true;
+
+  // Nothing useful fits: keep the rows server-side if we may, else explain the limits
+  const fail = () =>
+    options.spill !== false && canStoreResults()
+      ? spillResponse(toolName, response, table, encoding, options)
+      : overLimitResponse(
+          toolName,
+          response,
+          truncationSummary(response, table, streamed, 0, encoding, tokens, overLimit.tokens),
+          overLimit,
+          tokens.budget
+        );
+
+  // The rest of the response is too large on its own: leave the summary out,
+  // and give up if that is not enough
+  if (!fits(0)) {
+    withSummary = false;
+    if (!fits(0)) return fail();
+  }
+
+  // Shorten the widest string columns while the rows do not all fit
+  while (!(streamed.complete && fits(table.rows.length))) {
+    const columns = table.columns.length > 0 ? table.columns : tableColumns(table.rows.slice(0, streamed.fragments.length).filter(isRecord));
+    const column = widestShortenableColumn(table.rows.slice(0, streamed.fragments.length), columns, plan);
+    if (!column) break;
+    plan.stringLimits.set(column, Math.max(MIN_FIT_STRING_LENGTH, Math.floor(stringLimit(plan, column) / 2)));
+    streamed = streamRows(table, plan, writer, tokens);
+  }
+
+  // Then keep the longest prefix of rows that fits
+  let count = largestFittingPrefix(streamed.fragments.length, fits);
+
+  // A single row is still too wide: drop the widest columns, keeping at least one
+  const firstRowColumns = isRecord(table.rows[0]) ? Object.keys(table.rows[0]) : [];
+  while (count === 0 && firstRowColumns.length - plan.droppedColumns.length > 1) {
+    const column = widestColumn(table.rows.slice(0, 1), firstRowColumns, plan);
+    if (!column) break;
+    plan.droppedColumns.push(column);
+    writer = writerFor();
+    streamed = streamRows(table, plan, writer, tokens);
+    count = largestFittingPrefix(streamed.fragments.length, fits);
   }
 
-  // Stage 2: emit a structured error with full remediation guidance
-  const overLimitChars = text.length;
+  if (count === 0) {
+    return fail();
+  }
 
-  logger.error('MCP response exceeded max chars even after row reduction; returning structured error', {
+  logger.warn('MCP response over limit after compaction; fitted to MCP_MAX_RESPONSE_CHARS', {
     tool: toolName,
-    serializedChars: overLimitChars,
     limit: config.MCP_MAX_RESPONSE_CHARS,
-    currentConfig: {
-      MCP_MAX_RESPONSE_CHARS: config.MCP_MAX_RESPONSE_CHARS,
-      MCP_MAX_ROWS_IN_RESPONSE: config.MCP_MAX_ROWS_IN_RESPONSE,
-      MCP_MAX_STRING_LENGTH: config.MCP_MAX_STRING_LENGTH,
-      MAX_ROWS_PER_QUERY: config.MAX_ROWS_PER_QUERY,
-    },
+    tokenBudget: tokens.budget,
+    rowsBefore: table.rows.length,
+    rowsAfter: count,
+    shortenedColumns: [...plan.stringLimits.keys()],
+    droppedColumns: plan.droppedColumns,
   });
 
-  const summarized = buildSummaryPayload(toolName, compacted.response, compacted.summary, overLimitChars);
-  return JSON.stringify(summarized);
+  return render(count);
+}
+
+export interface FormatOptions {
+  /** Keep rows that cannot fit as an oracle://results resource (default true) */
+  spill?: boolean;
+  /** MCP session a spilled result belongs to; other sessions cannot read it */
+  sessionId?: string;
+}
+
+/**
+ * Serialize a tool result for the MCP response, within the MCP_MAX_* limits
+ * and the tool's token budget (see tokens.ts). `encoding` picks how tabular
+ * data is written (see encodings.ts).
+ */
+export function formatToolResponse(
+  toolName: string,
+  result: unknown,
+  encoding: ResponseEncoding = config.MCP_RESPONSE_ENCODING,
+  options: FormatOptions = {}
+): string {
+  const baseResponse: ResponseShape = isRecord(result) ? { ...result } : { success: true, data: result };
+
+  const table = findRowTable(baseResponse, encoding);
+  if (table) {
+    return formatRows(toolName, baseResponse, table, encoding, options);
+  }
+
+  const text = serialize(baseResponse, encoding);
+  const budget = tokenBudget(toolName);
+  // Responses without rows are only estimated when a token budget applies
+  const textTokens = budget === undefined ? 0 : getTokenEstimator().estimate(text);
+  if (text.length <= config.MCP_MAX_RESPONSE_CHARS && (budget === undefined || textTokens <= budget)) {
+    return text;
+  }
+  return overLimitResponse(toolName, baseResponse, null, { chars: text.length, tokens: textTokens }, budget);
 }
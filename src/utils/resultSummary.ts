@@ -0,0 +1,160 @@
+/**
+ * Per-column statistics over every fetched row of a query result
+ *
+ * Attached by the response formatter when it has to leave rows out, so the
+ * agent can reason about the rows it cannot see:
+ *
+ *   number  min, max and average
+ *   text    distinct count and the most frequent values
+ *   date    earliest and latest value
+ *   other   LOB previews, binary summaries and the like: null count only
+ *
+ * Every column also gets its null count. Masked columns are summarized as
+ * text without their values.
+ */
+
+import type { ColumnMetadata } from '../database/types.js';
+
+export type ColumnSummary =
+  | { kind: 'number'; nullCount: number; min?: number | string; max?: number | string; avg?: number }
+  | { kind: 'text'; nullCount: number; distinctCount: number; topValues?: Array<{ value: string; count: number }> }
+  | { kind: 'date'; nullCount: number; min?: string; max?: string }
+  | { kind: 'other'; nullCount: number };
+
+export interface ResultSummary {
+  /** Rows the statistics cover: everything fetched, not only the rows returned */
+  rowCount: number;
+  columns: Record<string, ColumnSummary>;
+}
+
+// Most frequent values listed per text column
+const TOP_VALUE_COUNT = 5;
+
+// Characters kept of each listed text value
+const TOP_VALUE_LENGTH = 50;
+
+const NUMBER_TYPE_NAMES = new Set(['NUMBER', 'FLOAT', 'BINARY_FLOAT', 'BINARY_DOUBLE', 'BINARY_INTEGER']);
+
+type ColumnKind = ColumnSummary['kind'];
+
+function columnKind(meta: ColumnMetadata | undefined, sample: unknown): ColumnKind {
+  if (meta) {
+    if (meta.masked) return 'text';
+    if (meta.conversion === 'number-string') return 'number';
+    if (meta.conversion === 'datetime-string') return 'date';
+    if (meta.conversion === 'text-preview' || meta.conversion === 'binary-summary') return 'other';
+    if (NUMBER_TYPE_NAMES.has(meta.type)) return 'number';
+    if (/CHAR|^INTERVAL/.test(meta.type)) return 'text';
+    return 'other';
+  }
+
+  if (typeof sample === 'number') return 'number';
+  if (sample instanceof Date) return 'date';
+  if (typeof sample === 'string') return 'text';
+  return 'other';
+}
+
+function summarizeNumbers(values: unknown[], nullCount: number): ColumnSummary {
+  let min: { value: number | string; number: number } | undefined;
+  let max: { value: number | string; number: number } | undefined;
+  let sum = 0;
+  let count = 0;
+
+  for (const value of values) {
+    // Exact NUMBER text is compared as a number but reported as written
+    const number = Number(value);
+    if (!Number.isFinite(number)) continue;
+    const reported = typeof value === 'string' ? value : number;
+    if (!min || number < min.number) min = { value: reported, number };
+    if (!max || number > max.number) max = { value: reported, number };
+    sum += number;
+    count += 1;
+  }
+
+  if (count === 0) return { kind: 'number', nullCount };
+  return { kind: 'number', nullCount, min: min?.value, max: max?.value, avg: sum / count };
+}
+
+function summarizeText(values: unknown[], nullCount: number, masked: boolean): ColumnSummary {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    counts.set(text, (counts.get(text) ?? 0) + 1);
+  }
+
+  const summary: ColumnSummary = { kind: 'text', nullCount, distinctCount: counts.size };
+  if (masked) return summary;
+
+  // Map keeps first-seen order, so ties go to the value seen first
+  summary.topValues = [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUE_COUNT)
+    .map(([value, count]) => ({
+      value: value.length > TOP_VALUE_LENGTH ? `${value.slice(0, TOP_VALUE_LENGTH)}...` : value,
+      count,
+    }));
+  return summary;
+}
+
+// Instant of a date value for ordering; ISO text with an offset orders by instant
+function dateSortKey(value: unknown): number | string {
+  if (value instanceof Date) return value.getTime();
+  const text = String(value);
+  const parsed = Date.parse(text.replace(' ', 'T'));
+  return Number.isNaN(parsed) ? text : parsed;
+}
+
+function summarizeDates(values: unknown[], nullCount: number): ColumnSummary {
+  let min: { value: unknown; key: number | string } | undefined;
+  let max: { value: unknown; key: number | string } | undefined;
+
+  for (const value of values) {
+    const key = dateSortKey(value);
+    if (!min || key < min.key) min = { value, key };
+    if (!max || key > max.key) max = { value, key };
+  }
+
+  const text = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value));
+  if (!min || !max) return { kind: 'date', nullCount };
+  return { kind: 'date', nullCount, min: text(min.value), max: text(max.value) };
+}
+
+/**
+ * Summarize each of `columns` over all of `rows`. `columnMetadata` (from
+ * executeQuery) decides how a column is treated; without it the first
+ * non-null value does.
+ */
+export function summarizeRows(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  columnMetadata?: ColumnMetadata[]
+): ResultSummary {
+  const summaries: Record<string, ColumnSummary> = {};
+
+  for (const column of columns) {
+    const values: unknown[] = [];
+    for (const row of rows) {
+      const value = row[column];
+      if (value !== null && value !== undefined) values.push(value);
+    }
+
+    const meta = columnMetadata?.find((candidate) => candidate.name === column);
+    const nullCount = rows.length - values.length;
+
+    switch (columnKind(meta, values[0])) {
+      case 'number':
+        summaries[column] = summarizeNumbers(values, nullCount);
+        break;
+      case 'text':
+        summaries[column] = summarizeText(values, nullCount, meta?.masked === true);
+        break;
+      case 'date':
+        summaries[column] = summarizeDates(values, nullCount);
+        break;
+      default:
+        summaries[column] = { kind: 'other', nullCount };
+    }
+  }
+
+  return { rowCount: rows.length, columns: summaries };
+}
@@ -0,0 +1,89 @@
+/**
+ * Token estimates for tool responses (MCP_TOKEN_ESTIMATOR)
+ *
+ *   heuristic  offline approximation of a BPE tokenizer: words of ASCII
+ *              letters at about five characters per token, digits in groups
+ *              of three, CJK at one token per character, other scripts at
+ *              two characters per token, JSON punctuation in small groups
+ *   chars      four characters per token, the old rule of thumb
+ *
+ * Estimates are additive: the estimate of a text is close to the sum of the
+ * estimates of its pieces, so the response formatter can count rows one at a
+ * time. A real tokenizer can be plugged in with setTokenEstimator().
+ */
+
+import getConfig from '../config.js';
+
+const config = getConfig();
+
+export interface TokenEstimator {
+  /** Reported in `_truncation.tokenEstimator` */
+  readonly name: string;
+  estimate(text: string): number;
+}
+
+const RUN_PATTERN = /(\s+)|(\p{N}+)|(\p{L}+)|[^\s\p{L}\p{N}]+/gu;
+const ASCII_PATTERN = /^[\x00-\x7f]*$/;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+function letterTokens(run: string): number {
+  if (ASCII_PATTERN.test(run)) return Math.ceil(run.length / 5);
+  const cjk = run.match(CJK_PATTERN)?.length ?? 0;
+  return cjk + Math.ceil((run.length - cjk) / 2);
+}
+
+function symbolTokens(run: string): number {
+  if (ASCII_PATTERN.test(run)) return Math.ceil(run.length / 3);
+  // Emoji and other non-ASCII symbols take several byte-level tokens each
+  let tokens = 0;
+  for (const char of run) tokens += char.charCodeAt(0) < 0x80 ? 1 / 3 : 2;
+  return Math.ceil(tokens);
+}
+
+export const heuristicTokenEstimator: TokenEstimator = {
+  name: 'heuristic',
+  estimate(text) {
+    let tokens = 0;
+    for (const [run, space, digits, letters] of text.matchAll(RUN_PATTERN)) {
+      if (space) {
+        // A single space is part of the following word's token
+        tokens += space.length > 1 ? Math.ceil(space.length / 4) : 0;
+      } else if (digits) {
+        tokens += Math.ceil(digits.length / 3);
+      } else if (letters) {
+        tokens += letterTokens(letters);
+      } else {
+        tokens += symbolTokens(run);
+      }
+    }
+    return tokens;
+  },
+};
+
+export const charTokenEstimator: TokenEstimator = {
+  name: 'chars',
+  estimate: (text) => Math.ceil(text.length / 4),
+};
+
+let pluggedEstimator: TokenEstimator | undefined;
+
+/**
+ * Use `estimator` for every response from now on; undefined goes back to
+ * MCP_TOKEN_ESTIMATOR
+ */
+export function setTokenEstimator(estimator: TokenEstimator | undefined): void {
+  pluggedEstimator = estimator;
+}
+
+export function getTokenEstimator(): TokenEstimator {
+  if (pluggedEstimator) return pluggedEstimator;
+  return config.MCP_TOKEN_ESTIMATOR === 'chars' ? charTokenEstimator : heuristicTokenEstimator;
+}
+
+/**
+ * Token budget for one tool's responses: its MCP_TOOL_TOKEN_BUDGETS entry,
+ * else MCP_MAX_RESPONSE_TOKENS, else none (MCP_MAX_RESPONSE_CHARS still applies)
+ */
+export function tokenBudget(toolName: string): number | undefined {
+  return config.MCP_TOOL_TOKEN_BUDGETS?.[toolName] ?? config.MCP_MAX_RESPONSE_TOKENS;
+}
@@ -0,0 +1,296 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { getConnection } from '../src/database/oracleConnection.js';
+import { extractSqlReferences } from '../src/database/sqlReferences.js';
+import { AccessPolicy, loadAccessPolicy, type AccessPolicyDefinition } from '../src/policy/accessPolicy.js';
+import { describeTable } from '../src/tools/discovery/describeTable.js';
+import { listTables } from '../src/tools/discovery/listTables.js';
+import { queryDatabase } from '../src/tools/queryDatabase.js';
+import { mockConfig } from './helpers/mocks.js';
+
+const POLICY: AccessPolicyDefinition = {
+  defaultAction: 'allow',
+  rules: [
+    { effect: 'deny', objects: ['HR_*', 'PAYMENT_CARDS', 'FINANCE.*'] },
+    { effect: 'deny', columns: ['*.SSN', 'CUSTOMERS.CARD_NUMBER'] },
+    { effect: 'deny', objects: ['AUDIT_LOG'], tools: ['query_database'] },
+  ],
+};
+
+function writePolicyFile(content: string): string {
+  const file = join(mkdtempSync(join(tmpdir(), 'access-policy-')), 'policy.json');
+  writeFileSync(file, content);
+  return file;
+}
+
+describe('extractSqlReferences', () => {
+  it('finds FROM and JOIN sources with owners and database links', () => {
+    const refs = extractSqlReferences(
+      'SELECT o.id FROM sales.orders o JOIN customers c ON c.id = o.customer_id LEFT JOIN "Mixed" m ON 1 = 1, remote_t@prod'
+    );
+
+    expect(refs.objects).toEqual([
+      { owner: 'SALES', name: 'ORDERS' },
+      { name: 'CUSTOMERS' },
+      { name: 'Mixed' },
+      { name: 'REMOTE_T', dbLink: 'PROD' },
+    ]);
+  });
+
+  it('reads sources inside subqueries and excludes WITH clause names', () => {
+    const refs = extractSqlReferences(
+      'WITH recent AS (SELECT * FROM orders WHERE created > SYSDATE - 1) SELECT r.id FROM recent r WHERE r.id IN (SELECT id FROM refunds)'
+    );
+
+    expect(refs.cteNames).toEqual(['RECENT']);
+    expect(refs.objects.map((ref) => ref.name)).toEqual(['ORDERS', 'REFUNDS']);
+  });
+
+  it('ignores FROM inside EXTRACT / TRIM and IS DISTINCT FROM', () => {
+    const refs = extractSqlReferences(
+      "SELECT EXTRACT(YEAR FROM hired), TRIM(LEADING '0' FROM code) FROM employees WHERE a IS NOT DISTINCT FROM b"
+    );
+
+    expect(refs.objects).toEqual([{ name: 'EMPLOYEES' }]);
+  });
+
+  it('ignores names in literals and comments and skips table functions', () => {
+    const refs = extractSqlReferences(
+      "SELECT 'FROM hr_salaries' AS x /* FROM payment_cards */ FROM TABLE(my_pipelined_fn()) t, dual"
+    );
+
+    expect(refs.objects).toEqual([{ name: 'DUAL' }]);
+  });
+
+  it('reads CROSS APPLY and OUTER APPLY sources', () => {
+    const refs = extractSqlReferences(
+      'SELECT d.dummy FROM dual d CROSS APPLY secret_table s OUTER APPLY (SELECT * FROM hr.staff WHERE id = s.id) x'
+    );
+
+    expect(refs.objects).toEqual([{ name: 'DUAL' }, { name: 'SECRET_TABLE' }, { owner: 'HR', name: 'STAFF' }]);
+    expect(refs.unresolved).toBe(false);
+  });
+
+  it('unwraps parenthesized table references', () => {
+    expect(extractSqlReferences('SELECT * FROM (secret_table)').objects).toEqual([{ name: 'SECRET_TABLE' }]);
+    expect(extractSqlReferences('SELECT * FROM ((app.t1) JOIN t2 ON 1 = 1), ONLY (v)').objects).toEqual([
+      { owner: 'APP', name: 'T1' },
+      { name: 'V' },
+      { name: 'T2' },
+    ]);
+    expect(extractSqlReferences('SELECT * FROM ((SELECT id FROM t3))').objects).toEqual([{ name: 'T3' }]);
+  });
+
+  it('flags sources it cannot name', () => {
+    expect(extractSqlReferences('SELECT * FROM TABLE(my_fn()) t').unresolved).toBe(false);
+    expect(extractSqlReferences('SELECT * FROM CONTAINERS(secret_table)').unresolved).toBe(true);
+    expect(extractSqlReferences('SELECT * FROM dual CROSS APPLY my_fn(1)').unresolved).toBe(true);
+    expect(extractSqlReferences('SELECT * FROM (:source)').unresolved).toBe(true);
+  });
+
+  it.each([
+    "SELECT DBMS_XMLGEN.GETXML('SELECT * FROM hr_salaries') FROM dual",
+    "SELECT sys.dbms_xmlquery.getxml('SELECT * FROM hr_salaries') FROM dual",
+    'SELECT XMLTYPE(CURSOR(SELECT * FROM hr_salaries)) FROM dual',
+    "SELECT DBURITYPE('/APP/HR_SALARIES').getxml() FROM dual",
+  ])('flags dynamic SQL in %s', (sql) => {
+    expect(extractSqlReferences(sql).unresolved).toBe(true);
+  });
+
+  it('does not flag dynamic SQL package names inside literals', () => {
+    expect(extractSqlReferences("SELECT 'DBMS_XMLGEN.GETXML' FROM dual").unresolved).toBe(false);
+  });
+
+  it('detects star selects', () => {
+    expect(extractSqlReferences('SELECT * FROM t').selectsStar).toBe(true);
+    expect(extractSqlReferences('SELECT t.* FROM t').selectsStar).toBe(true);
+    expect(extractSqlReferences('SELECT COUNT(*) FROM t').selectsStar).toBe(false);
+    expect(extractSqlReferences('SELECT a * b FROM t').selectsStar).toBe(false);
+  });
+
+  it.each(['SELECT JSON_OBJECT(*) FROM t', 'SELECT JSON_ARRAY(*) FROM t', 'SELECT JSON_OBJECT(t.*) FROM t'])(
+    'treats * passed to a function as a star select in %s',
+    (sql) => {
+      const refs = extractSqlReferences(sql);
+      expect(refs.selectsStar).toBe(true);
+      expect(refs.wrapsStar).toBe(true);
+    }
+  );
+
+  it('does not count COUNT(*) or subquery select lists as wrapped stars', () => {
+    expect(extractSqlReferences('SELECT COUNT(*) FROM t').wrapsStar).toBe(false);
+    expect(extractSqlReferences('SELECT * FROM (SELECT t.* FROM t)').wrapsStar).toBe(false);
+    expect(extractSqlReferences('SELECT id FROM t WHERE EXISTS (SELECT * FROM u)').wrapsStar).toBe(false);
+  });
+});
+
+describe('AccessPolicy', () => {
+  const policy = new AccessPolicy(POLICY, 'APP');
+
+  it('allows everything without rules', () => {
+    const open = new AccessPolicy();
+    expect(open.isUnrestricted).toBe(true);
+    expect(open.isObjectAllowed('listTables', 'ANYTHING')).toBe(true);
+  });
+
+  it('matches object globs case-insensitively', () => {
+    expect(policy.isObjectAllowed('listTables', 'HR_SALARIES')).toBe(false);
+    expect(policy.isObjectAllowed('listTables', 'hr_salaries')).toBe(false);
+    expect(policy.isObjectAllowed('listTables', 'payment_cards')).toBe(false);
+    expect(policy.isObjectAllowed('listTables', 'ORDERS')).toBe(true);
+  });
+
+  it('applies owner-qualified patterns only to that owner', () => {
+    expect(policy.isObjectAllowed('listTables', 'LEDGER', 'FINANCE')).toBe(false);
+    expect(policy.isObjectAllowed('listTables', 'LEDGER')).toBe(true);
+    expect(new AccessPolicy({ defaultAction: 'allow', rules: [{ effect: 'deny', objects: ['APP.*'] }] }, 'APP')
+      .isObjectAllowed('listTables', 'ORDERS')).toBe(false);
+  });
+
+  it('scopes rules to the listed tools', () => {
+    expect(policy.isObjectAllowed('query_database', 'AUDIT_LOG')).toBe(false);
+    expect(policy.isObjectAllowed('listTables', 'AUDIT_LOG')).toBe(true);
+  });
+
+  it('lets deny rules win over allow rules and defaults to deny when configured', () => {
+    const strict = new AccessPolicy({
+      defaultAction: 'deny',
+      rules: [
+        { effect: 'allow', objects: ['ORDERS', 'ORDER_*'] },
+        { effect: 'deny', objects: ['ORDER_ARCHIVE'] },
+      ],
+    });
+
+    expect(strict.isObjectAllowed('listTables', 'ORDERS')).toBe(true);
+    expect(strict.isObjectAllowed('listTables', 'ORDER_LINES')).toBe(true);
+    expect(strict.isObjectAllowed('listTables', 'ORDER_ARCHIVE')).toBe(false);
+    expect(strict.isObjectAllowed('listTables', 'CUSTOMERS')).toBe(false);
+    expect(strict.isObjectAllowed('listTables', 'DUAL')).toBe(true);
+  });
+
+  it('checks columns against table-qualified and wildcard patterns', () => {
+    expect(policy.isColumnAllowed('describeTable', 'EMPLOYEES', 'SSN')).toBe(false);
+    expect(policy.isColumnAllowed('describeTable', 'CUSTOMERS', 'CARD_NUMBER')).toBe(false);
+    expect(policy.isColumnAllowed('describeTable', 'SUPPLIERS', 'CARD_NUMBER')).toBe(true);
+    expect(policy.isColumnAllowed('describeTable', 'HR_SALARIES', 'AMOUNT')).toBe(false);
+  });
+
+  describe('checkQuery', () => {
+    it.each([
+      ['SELECT id, name FROM customers', undefined],
+      ['SELECT SYSDATE FROM dual', undefined],
+      ["SELECT 'HR_SALARIES' FROM dual", undefined],
+      ['SELECT id, total FROM orders', undefined],
+      ['SELECT * FROM hr_salaries', /objects that are not accessible: HR_SALARIES/],
+      ['SELECT o.id FROM orders o JOIN payment_cards p ON p.order_id = o.id', /PAYMENT_CARDS/],
+      ['SELECT id FROM orders WHERE id IN (SELECT order_id FROM hr_bonus)', /HR_BONUS/],
+      ['SELECT d.dummy FROM dual d CROSS APPLY hr_salaries s', /HR_SALARIES/],
+      ['SELECT d.dummy FROM dual d OUTER APPLY (SELECT amount FROM hr_salaries) s', /HR_SALARIES/],
+      ['SELECT id FROM (hr_salaries)', /HR_SALARIES/],
+      ['SELECT id FROM CONTAINERS(hr_salaries)', /tables cannot be determined/],
+      ['SELECT * FROM finance.ledger', /FINANCE\.LEDGER/],
+      ['SELECT * FROM audit_log', /AUDIT_LOG/],
+      ['SELECT id, ssn FROM employees', /columns of EMPLOYEES that are not accessible: SSN/],
+      ['SELECT id FROM employees WHERE "SSN" LIKE :p', /SSN/],
+      ['SELECT * FROM employees', /SELECT \* is not allowed on EMPLOYEES/],
+      ['SELECT JSON_OBJECT(*) FROM employees', /SELECT \* is not allowed on EMPLOYEES/],
+      ['SELECT JSON_ARRAY(*) FROM employees', /SELECT \* is not allowed on EMPLOYEES/],
+      ["SELECT DBMS_XMLGEN.GETXML('SELECT * FROM hr_salaries') FROM dual", /tables cannot be determined/],
+      ['SELECT XMLTYPE(CURSOR(SELECT amount FROM orders)) FROM dual', /tables cannot be determined/],
+      ['SELECT id, card_number FROM customers', /CARD_NUMBER/],
+      // *.SSN could be any table's column, so * is refused everywhere
+      ['SELECT * FROM orders', /SELECT \* is not allowed on ORDERS/],
+    ])('%s', (sql, expected) => {
+      const check = () => policy.checkQuery('query_database', sql);
+      if (expected) {
+        expect(check).toThrow(expected);
+      } else {
+        expect(check).not.toThrow();
+      }
+    });
+  });
+});
+
+describe('loadAccessPolicy', () => {
+  it('loads a valid file', () => {
+    const policy = loadAccessPolicy(writePolicyFile(JSON.stringify(POLICY)));
+    expect(policy.isObjectAllowed('listTables', 'HR_SALARIES')).toBe(false);
+  });
+
+  it('rejects unreadable files and malformed JSON', () => {
+    expect(() => loadAccessPolicy('/nonexistent/policy.json')).toThrow(/Could not read ACCESS_POLICY_FILE/);
+    expect(() => loadAccessPolicy(writePolicyFile('{ not json'))).toThrow(/Could not read ACCESS_POLICY_FILE/);
+  });
+
+  it('reports schema errors with their path', () => {
+    const file = writePolicyFile(JSON.stringify({ rules: [{ effect: 'deny', columns: ['SSN'] }] }));
+    expect(() => loadAccessPolicy(file)).toThrow(/Invalid ACCESS_POLICY_FILE .*rules\.0\.columns\.0: column patterns must be TABLE\.COLUMN/);
+
+    const unknownEffect = writePolicyFile(JSON.stringify({ rules: [{ effect: 'mask', objects: ['T'] }] }));
+    expect(() => loadAccessPolicy(unknownEffect)).toThrow(/Invalid ACCESS_POLICY_FILE/);
+  });
+});
+
+describe('tools with ACCESS_POLICY_FILE', () => {
+  const execute = vi.fn();
+
+  beforeAll(() => {
+    mockConfig.ACCESS_POLICY_FILE = writePolicyFile(JSON.stringify(POLICY));
+  });
+
+  beforeEach(() => {
+    execute.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn() } as any);
+  });
+
+  it('listTables hides denied tables', async () => {
+    execute.mockResolvedValueOnce({
+      rows: [{ TABLE_NAME: 'CUSTOMERS' }, { TABLE_NAME: 'HR_SALARIES' }, { TABLE_NAME: 'PAYMENT_CARDS' }],
+    });
+
+    const result = await listTables({ includeRowCounts: false });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.map((table) => table.tableName)).toEqual(['CUSTOMERS']);
+  });
+
+  it('describeTable reports denied tables as not found without querying', async () => {
+    const result = await describeTable({ tableName: 'hr_salaries', includeConstraints: false });
+
+    expect(result).toEqual({ success: false, error: 'Table hr_salaries not found or not accessible' });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('describeTable leaves out denied columns', async () => {
+    execute.mockResolvedValueOnce({
+      rows: [
+        { COLUMN_NAME: 'ID', DATA_TYPE: 'NUMBER', NULLABLE: 'N' },
+        { COLUMN_NAME: 'CARD_NUMBER', DATA_TYPE: 'VARCHAR2', NULLABLE: 'Y' },
+      ],
+    });
+
+    const result = await describeTable({ tableName: 'customers', includeConstraints: false });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.columns.map((column) => column.columnName)).toEqual(['ID']);
+  });
+
+  it('query_database rejects denied objects before executing', async () => {
+    const result = await queryDatabase({ query: 'SELECT * FROM payment_cards' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Query references objects that are not accessible: PAYMENT_CARDS');
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractBindPlaceholders,
+  summarizeBinds,
+  toOracleBinds,
+  validateBinds,
+} from '../src/database/binds.js';
+
+const names = (sql: string) => extractBindPlaceholders(sql).map((p) => p.name);
+
+describe('extractBindPlaceholders', () => {
+  it('finds named and numeric placeholders in order', () => {
+    expect(names('SELECT * FROM t WHERE a = :customer_id AND b = :1 AND c = :Name$2')).toEqual([
+      'customer_id',
+      '1',
+      'Name$2',
+    ]);
+  });
+
+  it('counts every occurrence of a repeated placeholder', () => {
+    expect(names('SELECT * FROM t WHERE a = :id OR b = :id')).toEqual(['id', 'id']);
+  });
+
+  it('ignores colons inside string literals', () => {
+    expect(names("SELECT TO_CHAR(d, 'HH24:MI:SS') FROM t WHERE x = :x")).toEqual(['x']);
+  });
+
+  it('handles escaped quotes inside string literals', () => {
+    expect(names("SELECT 'it''s :not' FROM t WHERE x = :x")).toEqual(['x']);
+  });
+
+  it('ignores colons inside q-quoted literals', () => {
+    expect(names("SELECT q'[it's :nope]' FROM t WHERE x = :x")).toEqual(['x']);
+    expect(names("SELECT nq'!:nope!' FROM t WHERE x = :x")).toEqual(['x']);
+  });
+
+  it('ignores colons inside quoted identifiers and comments', () => {
+    expect(names('SELECT "A:B" FROM t -- :nope\nWHERE x = :x /* :nope */')).toEqual(['x']);
+  });
+
+  it('returns nothing for a query without placeholders', () => {
+    expect(names('SELECT 1 FROM DUAL')).toEqual([]);
+  });
+});
+
+describe('validateBinds', () => {
+  it('accepts positional binds matching the placeholder count', () => {
+    expect(() => validateBinds('SELECT * FROM t WHERE a = :1 AND b = :2', [1, 'x'])).not.toThrow();
+  });
+
+  it('rejects positional binds with the wrong count', () => {
+    expect(() => validateBinds('SELECT * FROM t WHERE a = :a', [])).toThrow(
+      'Expected 1 positional bind value(s) for placeholders (:a) but received 0'
+    );
+  });
+
+  it('accepts named binds case-insensitively and with a leading colon', () => {
+    expect(() =>
+      validateBinds('SELECT * FROM t WHERE a = :customer_id OR b = :CUSTOMER_ID', { ':Customer_Id': 1 })
+    ).not.toThrow();
+  });
+
+  it('reports missing and unexpected named binds', () => {
+    expect(() => validateBinds('SELECT * FROM t WHERE a = :a AND b = :b', { a: 1, c: 2 })).toThrow(
+      'missing value(s) for :B; no placeholder(s) for :C'
+    );
+  });
+
+  it('accepts no binds for a query without placeholders', () => {
+    expect(() => validateBinds('SELECT 1 FROM DUAL')).not.toThrow();
+  });
+});
+
+describe('toOracleBinds', () => {
+  it('strips a leading colon from named bind keys', () => {
+    expect(toOracleBinds({ ':a': 1, b: null })).toEqual({ a: 1, b: null });
+  });
+
+  it('passes positional binds through unchanged', () => {
+    const binds = [1, 'x', null];
+    expect(toOracleBinds(binds)).toBe(binds);
+  });
+});
+
+describe('summarizeBinds', () => {
+  it('renders dates as ISO strings and shortens long strings', () => {
+    const summary = summarizeBinds({ d: new Date('2024-01-01T00:00:00Z'), s: 'x'.repeat(150) }, 10) as Record<string, string>;
+    expect(summary.d).toBe('2024-01-01T00:00:00.000Z');
+    expect(summary.s).toBe('xxxxxxxxxx... [150 chars]');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { isCancellation, throwIfCancelled, trackExecution } from '../src/database/cancellation.js';
+import { QueryCancelledError } from '../src/database/errors.js';
+import { audit } from '../src/utils/logger.js';
+
+function makeConnection() {
+  return { break: vi.fn().mockResolvedValue(undefined) } as any;
+}
+
+describe('trackExecution', () => {
+  it('breaks the Oracle call and audits when the request is cancelled', () => {
+    const controller = new AbortController();
+    const connection = makeConnection();
+    const untrack = trackExecution({ requestId: 7, signal: controller.signal }, connection, 'describeTable');
+
+    controller.abort('user cancelled');
+
+    expect(connection.break).toHaveBeenCalledTimes(1);
+    expect(audit).toHaveBeenCalledWith(
+      'Query cancelled by client',
+      expect.objectContaining({ requestId: 7, operation: 'describeTable', reason: 'user cancelled' })
+    );
+    untrack();
+  });
+
+  it('does not break after the execution is untracked', () => {
+    const controller = new AbortController();
+    const connection = makeConnection();
+    trackExecution({ requestId: 8, signal: controller.signal }, connection, 'Query')();
+
+    controller.abort();
+
+    expect(connection.break).not.toHaveBeenCalled();
+  });
+
+  it('throws immediately when the request was already cancelled', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(() => trackExecution({ requestId: 9, signal: controller.signal }, makeConnection(), 'Query')).toThrow(
+      QueryCancelledError
+    );
+  });
+
+  it('is a no-op without a cancellation signal', () => {
+    const connection = makeConnection();
+    trackExecution(undefined, connection, 'Query')();
+    trackExecution({ requestId: 10 }, connection, 'Query')();
+    expect(connection.break).not.toHaveBeenCalled();
+  });
+});
+
+describe('cancellation helpers', () => {
+  it('throwIfCancelled only throws for an aborted signal', () => {
+    const controller = new AbortController();
+    expect(() => throwIfCancelled({ signal: controller.signal }, 'listTables')).not.toThrow();
+    controller.abort();
+    expect(() => throwIfCancelled({ signal: controller.signal }, 'listTables')).toThrow(
+      'listTables was cancelled by the client'
+    );
+  });
+
+  it('isCancellation recognises driver errors raised after an abort', () => {
+    const controller = new AbortController();
+    const driverError = new Error('ORA-01013: user requested cancel of current operation');
+    expect(isCancellation({ signal: controller.signal }, driverError)).toBe(false);
+    controller.abort();
+    expect(isCancellation({ signal: controller.signal }, driverError)).toBe(true);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { configSchema } from '../src/config.js';
+import { BASE_CONFIG } from './helpers/mocks.js';
 
 describe('configSchema', () => {
   it('applies schema defaults when no env vars are provided', () => {
@@ -9,13 +10,35 @@ describe('configSchema', () => {
     expect(result.QUERY_TIMEOUT_MS).toBe(30000);
     expect(result.MAX_ROWS_PER_QUERY).toBe(1000);
     expect(result.MAX_QUERY_LENGTH).toBe(50000);
+    expect(result.QUERY_CURSOR_TTL_MS).toBe(900000);
     expect(result.ENFORCE_READ_ONLY_QUERIES).toBe(true);
+    expect(result.QUERY_COST_GUARD).toBe('off');
+    expect(result.QUERY_MAX_COST).toBe(100000);
+    expect(result.QUERY_MAX_CARDINALITY).toBe(10000000);
+    expect(result.NUMBER_AS_STRING).toBe('auto');
+    expect(result.TEMPORAL_FORMAT).toBe('local');
+    expect(result.LOB_MAX_BYTES).toBe(4096);
+    expect(result.BLOB_PREFIX_BYTES).toBe(0);
+    expect(result.BLOB_HASH_MAX_BYTES).toBe(10485760);
+    expect(result.EXPORT_DIR).toBeUndefined();
+    expect(result.EXPORT_MAX_ROWS).toBe(1000000);
+    expect(result.EXPORT_MAX_BYTES).toBe(1073741824);
     expect(result.MCP_MAX_RESPONSE_CHARS).toBe(50000);
     expect(result.MCP_MAX_ROWS_IN_RESPONSE).toBe(100);
     expect(result.MCP_MAX_STRING_LENGTH).toBe(300);
+    expect(result.MCP_RESPONSE_ENCODING).toBe('json');
+    expect(result.MCP_MAX_RESPONSE_TOKENS).toBeUndefined();
+    expect(result.MCP_TOOL_TOKEN_BUDGETS).toEqual({});
+    expect(result.MCP_TOKEN_ESTIMATOR).toBe('heuristic');
+    expect(result.SCHEMA_WATCH_INTERVAL_MS).toBe(60000);
+    expect(result.RESULT_RESOURCE_TTL_MS).toBe(600000);
+    expect(result.RESULT_RESOURCE_MAX).toBe(20);
     expect(result.LOG_LEVEL).toBe('info');
     expect(result.ENABLE_AUDIT_LOGGING).toBe(true);
     expect(result.MCP_TRANSPORT).toBe('stdio');
+    expect(result.MCP_HTTP_HOST).toBe('127.0.0.1');
+    expect(result.MCP_HTTP_PORT).toBe(3000);
+    expect(result.MCP_HTTP_PATH).toBe('/mcp');
     expect(result.SERVER_NAME).toBe('oracle-mcp-server');
     expect(result.SERVER_VERSION).toBe('1.0.0');
   });
@@ -69,10 +92,42 @@ describe('configSchema', () => {
     expect(() => configSchema.parse({ QUERY_TIMEOUT_MS: '999' })).toThrow();
   });
 
+  it('accepts cost guard modes and rejects unknown ones', () => {
+    const result = configSchema.parse({ QUERY_COST_GUARD: 'reject', QUERY_MAX_COST: '5000' });
+    expect(result.QUERY_COST_GUARD).toBe('reject');
+    expect(result.QUERY_MAX_COST).toBe(5000);
+    expect(() => configSchema.parse({ QUERY_COST_GUARD: 'block' })).toThrow();
+  });
+
   it('rejects MCP_MAX_RESPONSE_CHARS below 500', () => {
     expect(() => configSchema.parse({ MCP_MAX_RESPONSE_CHARS: '499' })).toThrow();
   });
 
+  it('accepts http as MCP_TRANSPORT and coerces MCP_HTTP_PORT', () => {
+    const result = configSchema.parse({ MCP_TRANSPORT: 'http', MCP_HTTP_PORT: '8080' });
+    expect(result.MCP_TRANSPORT).toBe('http');
+    expect(result.MCP_HTTP_PORT).toBe(8080);
+  });
+
+  it('parses per-tool token budgets', () => {
+    const result = configSchema.parse({ MCP_TOOL_TOKEN_BUDGETS: 'query_database=8000, listTables=2000' });
+    expect(result.MCP_TOOL_TOKEN_BUDGETS).toEqual({ query_database: 8000, listTables: 2000 });
+  });
+
+  it('rejects malformed or tiny token budgets', () => {
+    expect(() => configSchema.parse({ MCP_TOOL_TOKEN_BUDGETS: 'query_database' })).toThrow();
+    expect(() => configSchema.parse({ MCP_TOOL_TOKEN_BUDGETS: 'query_database=50' })).toThrow();
+    expect(() => configSchema.parse({ MCP_MAX_RESPONSE_TOKENS: '99' })).toThrow();
+  });
+
+  it('rejects an unknown MCP_TRANSPORT', () => {
+    expect(() => configSchema.parse({ MCP_TRANSPORT: 'websocket' })).toThrow();
+  });
+
+  it('rejects MCP_HTTP_PATH without a leading slash', () => {
+    expect(() => configSchema.parse({ MCP_HTTP_PATH: 'mcp' })).toThrow();
+  });
+
   it('accepts custom credential strings', () => {
     const result = configSchema.parse({
       ORACLE_CONNECTION_STRING: 'localhost:1521/XEPDB1',
@@ -84,3 +139,16 @@ describe('configSchema', () => {
     expect(result.ORACLE_PASSWORD).toBe('secret');
   });
 });
+
+describe('shared test config', () => {
+  it('lists every setting in configSchema and parses as a valid config', () => {
+    expect(Object.keys(BASE_CONFIG).sort()).toEqual(Object.keys(configSchema.shape).sort());
+    expect(() =>
+      configSchema.parse({
+        ...BASE_CONFIG,
+        MCP_TOOL_TOKEN_BUDGETS: '',
+        MCP_HTTP_ALLOWED_HOSTS: '',
+      })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    QUERY_COST_GUARD: 'reject',
+    QUERY_MAX_COST: 1000,
+    QUERY_MAX_CARDINALITY: 100000,
+  })
+);
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { assessPlanCost, findCostliestLines } from '../src/database/costGuard.js';
+import { QueryCostExceededError, QueryTimeoutError } from '../src/database/errors.js';
+import { getConnection } from '../src/database/oracleConnection.js';
+import { executeQuery } from '../src/database/queryExecutor.js';
+import type { PlanNode } from '../src/database/types.js';
+import { queryDatabase } from '../src/tools/queryDatabase.js';
+import { mockConfig } from './helpers/mocks.js';
+
+const node = (id: number, operation: string, extra: Partial<PlanNode> = {}): PlanNode => ({
+  id,
+  operation,
+  children: [],
+  ...extra,
+});
+
+// SELECT ... FROM orders, customers with no join condition
+const CARTESIAN_PLAN = node(0, 'SELECT STATEMENT', {
+  cost: 250000,
+  cardinality: 50000000,
+  children: [
+    node(1, 'MERGE JOIN', {
+      options: 'CARTESIAN',
+      cost: 250000,
+      cardinality: 50000000,
+      children: [
+        node(2, 'TABLE ACCESS', { options: 'FULL', objectOwner: 'APP', objectName: 'CUSTOMERS', cost: 50, cardinality: 10 }),
+        node(3, 'BUFFER', {
+          options: 'SORT',
+          cost: 249950,
+          cardinality: 5000000,
+          children: [
+            node(4, 'TABLE ACCESS', { options: 'FULL', objectOwner: 'APP', objectName: 'ORDERS', cost: 24000, cardinality: 5000000 }),
+          ],
+        }),
+      ],
+    }),
+  ],
+});
+
+const CHEAP_PLAN = node(0, 'SELECT STATEMENT', {
+  cost: 3,
+  cardinality: 1,
+  children: [node(1, 'INDEX', { options: 'UNIQUE SCAN', objectName: 'ORDERS_PK', cost: 3, cardinality: 1 })],
+});
+
+const toPlanRows = (root: PlanNode, parentId: number | null = null): Record<string, unknown>[] => [
+  {
+    ID: root.id,
+    PARENT_ID: parentId,
+    OPERATION: root.operation,
+    OPTIONS: root.options ?? null,
+    OBJECT_OWNER: root.objectOwner ?? null,
+    OBJECT_NAME: root.objectName ?? null,
+    OBJECT_TYPE: null,
+    COST: root.cost ?? null,
+    CARDINALITY: root.cardinality ?? null,
+    BYTES: null,
+    TIME: null,
+    ACCESS_PREDICATES: null,
+    FILTER_PREDICATES: null,
+  },
+  ...root.children.flatMap((child) => toPlanRows(child, root.id)),
+];
+
+function mockConnection(plan: PlanNode | Error) {
+  const connection = {
+    execute: vi.fn(async (sql: string) => {
+      if (sql.startsWith('EXPLAIN PLAN')) {
+        if (plan instanceof Error) throw plan;
+        return {};
+      }
+      if (sql.includes('FROM plan_table')) return { rows: toPlanRows(plan as PlanNode) };
+      if (sql.includes('DBMS_XPLAN')) return { rows: [] };
+      return { rows: [{ ID: 1 }], metaData: [{ name: 'ID' }] };
+    }),
+    getStatementInfo: vi.fn().mockRejectedValue(new Error('ORA-00942: table or view does not exist')),
+    rollback: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    break: vi.fn().mockResolvedValue(undefined),
+    callTimeout: 0,
+  };
+  vi.mocked(getConnection).mockResolvedValue(connection as any);
+  return connection;
+}
+
+const executedQueries = (connection: ReturnType<typeof mockConnection>) =>
+  connection.execute.mock.calls
+    .map(([sql]) => sql)
+    .filter((sql) => !sql.startsWith('EXPLAIN PLAN') && !sql.includes('plan_table') && !sql.includes('DBMS_XPLAN'));
+
+describe('findCostliestLines', () => {
+  it('ranks lines by their own cost and always reports cartesian joins', () => {
+    const lines = findCostliestLines(CARTESIAN_PLAN);
+
+    expect(lines.map((l) => l.id)).toEqual([1, 3, 4]);
+    expect(lines[0]).toMatchObject({ operation: 'MERGE JOIN CARTESIAN', selfCost: 0 });
+    expect(lines[1]).toMatchObject({ operation: 'BUFFER SORT', selfCost: 225950 });
+    expect(lines[2]).toEqual({
+      id: 4,
+      operation: 'TABLE ACCESS FULL',
+      object: 'APP.ORDERS',
+      selfCost: 24000,
+      cost: 24000,
+      cardinality: 5000000,
+    });
+  });
+});
+
+describe('assessPlanCost', () => {
+  it('returns nothing for a plan within thresholds', () => {
+    expect(assessPlanCost(CHEAP_PLAN)).toBeUndefined();
+  });
+
+  it('names both exceeded thresholds and the costliest lines', () => {
+    const estimate = assessPlanCost(CARTESIAN_PLAN)!;
+
+    expect(estimate.message).toContain('estimated cost 250000 exceeds QUERY_MAX_COST (1000)');
+    expect(estimate.message).toContain('estimated 50000000 rows exceeds QUERY_MAX_CARDINALITY (100000)');
+    expect(estimate.message).toContain('#4 TABLE ACCESS FULL APP.ORDERS (cost 24000, ~5000000 rows)');
+    expect(estimate).toMatchObject({ cost: 250000, cardinality: 50000000, maxCost: 1000, maxCardinality: 100000 });
+  });
+});
+
+describe('executeQuery cost guard', () => {
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+    mockConfig.QUERY_COST_GUARD = 'reject';
+  });
+
+  it('rejects an expensive query without running it', async () => {
+    const connection = mockConnection(CARTESIAN_PLAN);
+
+    const error = await executeQuery('SELECT * FROM orders, customers', { costGuard: true }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(QueryCostExceededError);
+    expect(error.costliestLines[0].operation).toBe('MERGE JOIN CARTESIAN');
+    expect(executedQueries(connection)).toEqual([]);
+    expect(connection.close).toHaveBeenCalled();
+  });
+
+  it('runs a query whose plan is within thresholds', async () => {
+    const connection = mockConnection(CHEAP_PLAN);
+
+    const result = await executeQuery('SELECT * FROM orders WHERE id = 1', { costGuard: true });
+
+    expect(result.rows).toEqual([{ ID: 1 }]);
+    expect(result.costWarning).toBeUndefined();
+    expect(executedQueries(connection)).toEqual(['SELECT * FROM orders WHERE id = 1']);
+  });
+
+  it('attaches the estimate instead of rejecting in warn mode', async () => {
+    mockConfig.QUERY_COST_GUARD = 'warn';
+    mockConnection(CARTESIAN_PLAN);
+
+    const result = await executeQuery('SELECT * FROM orders, customers', { costGuard: true });
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.costWarning?.message).toContain('exceeds QUERY_MAX_COST');
+  });
+
+  it('runs the query unchecked when the plan cannot be read', async () => {
+    const connection = mockConnection(new Error('ORA-01031: insufficient privileges'));
+
+    const result = await executeQuery('SELECT * FROM orders', { costGuard: true });
+
+    expect(result.rows).toHaveLength(1);
+    expect(executedQueries(connection)).toEqual(['SELECT * FROM orders']);
+  });
+
+  it('counts the EXPLAIN PLAN against the query timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const connection = mockConnection(CHEAP_PLAN);
+      let rejectExplain: (err: Error) => void = () => {};
+      connection.execute.mockImplementationOnce(() => new Promise((_, reject) => { rejectExplain = reject; }));
+      connection.break.mockImplementation(async () => rejectExplain(new Error('ORA-01013: user requested cancel of current operation')));
+
+      const pending = executeQuery('SELECT * FROM orders', { costGuard: true, timeout: 1000 });
+      const assertion = expect(pending).rejects.toBeInstanceOf(QueryTimeoutError);
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+
+      expect(connection.break).toHaveBeenCalledTimes(1);
+      expect(executedQueries(connection)).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does nothing when the caller does not ask for it or the guard is off', async () => {
+    const connection = mockConnection(CARTESIAN_PLAN);
+    await executeQuery('SELECT * FROM orders, customers');
+
+    mockConfig.QUERY_COST_GUARD = 'off';
+    await executeQuery('SELECT * FROM orders, customers', { costGuard: true });
+
+    expect(connection.execute.mock.calls.every(([sql]) => !sql.startsWith('EXPLAIN PLAN'))).toBe(true);
+  });
+});
+
+describe('query_database cost guard', () => {
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+    mockConfig.QUERY_COST_GUARD = 'reject';
+  });
+
+  it('returns a structured rejection', async () => {
+    mockConnection(CARTESIAN_PLAN);
+
+    const result = await queryDatabase({ query: 'SELECT * FROM orders, customers' });
+
+    expect(result).toMatchObject({
+      success: false,
+      costExceeded: true,
+      estimate: { cost: 250000, cardinality: 50000000 },
+      thresholds: { maxCost: 1000, maxCardinality: 100000 },
+    });
+    expect((result as any).costliestLines.map((l: any) => l.id)).toEqual([1, 3, 4]);
+  });
+});
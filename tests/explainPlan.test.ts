@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { buildPlanTree, explainPlan } from '../src/database/explainPlan.js';
+import { getConnection } from '../src/database/oracleConnection.js';
+import { explainQuery } from '../src/tools/explainQuery.js';
+
+const planRow = (id: number, parentId: number | null, operation: string, extra: Record<string, unknown> = {}) => ({
+  ID: id,
+  PARENT_ID: parentId,
+  OPERATION: operation,
+  OPTIONS: null,
+  OBJECT_OWNER: null,
+  OBJECT_NAME: null,
+  OBJECT_TYPE: null,
+  COST: null,
+  CARDINALITY: null,
+  BYTES: null,
+  TIME: null,
+  ACCESS_PREDICATES: null,
+  FILTER_PREDICATES: null,
+  ...extra,
+});
+
+const PLAN_ROWS = [
+  planRow(0, null, 'SELECT STATEMENT', { COST: 42, CARDINALITY: 1000 }),
+  planRow(1, 0, 'HASH JOIN', { COST: 42, CARDINALITY: 1000, ACCESS_PREDICATES: '"C"."ID"="O"."CUSTOMER_ID"' }),
+  planRow(2, 1, 'TABLE ACCESS', { OPTIONS: 'FULL', OBJECT_OWNER: 'APP', OBJECT_NAME: 'CUSTOMERS', COST: 3, CARDINALITY: 10 }),
+  planRow(3, 1, 'TABLE ACCESS', {
+    OPTIONS: 'FULL', OBJECT_OWNER: 'APP', OBJECT_NAME: 'ORDERS', COST: 38, CARDINALITY: 1000, FILTER_PREDICATES: '"O"."STATUS"=:STATUS',
+  }),
+];
+
+describe('buildPlanTree', () => {
+  it('nests operations under their parents and omits empty columns', () => {
+    const tree = buildPlanTree(PLAN_ROWS);
+
+    expect(tree).toMatchObject({ id: 0, operation: 'SELECT STATEMENT', cost: 42, cardinality: 1000 });
+    expect(tree.children).toHaveLength(1);
+    expect(tree.children[0].children.map((n) => n.objectName)).toEqual(['CUSTOMERS', 'ORDERS']);
+    expect(tree.children[0].children[1]).toEqual({
+      id: 3,
+      operation: 'TABLE ACCESS',
+      options: 'FULL',
+      objectOwner: 'APP',
+      objectName: 'ORDERS',
+      cost: 38,
+      cardinality: 1000,
+      filterPredicates: '"O"."STATUS"=:STATUS',
+      children: [],
+    });
+  });
+
+  it('throws for an empty plan', () => {
+    expect(() => buildPlanTree([])).toThrow('Execution plan is empty');
+  });
+});
+
+describe('explainPlan', () => {
+  const mockConnection = (execute: (sql: string) => unknown) => {
+    const connection = {
+      execute: vi.fn(async (sql: string) => execute(sql)),
+      getStatementInfo: vi.fn().mockResolvedValue({}),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+      break: vi.fn().mockResolvedValue(undefined),
+      callTimeout: 0,
+    };
+    vi.mocked(getConnection).mockResolvedValue(connection as any);
+    return connection;
+  };
+
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+  });
+
+  it('explains into PLAN_TABLE, reads the plan back and rolls back', async () => {
+    const connection = mockConnection((sql) => {
+      if (sql.startsWith('EXPLAIN PLAN')) return {};
+      if (sql.includes('DBMS_XPLAN.DISPLAY(')) return { rows: [{ PLAN_TABLE_OUTPUT: 'Plan hash value: 1' }] };
+      return { rows: PLAN_ROWS };
+    });
+
+    const result = await explainPlan('SELECT * FROM orders o JOIN customers c ON c.id = o.customer_id;');
+
+    const explainSql = connection.execute.mock.calls[0][0];
+    expect(explainSql).toMatch(/^EXPLAIN PLAN SET STATEMENT_ID = 'MCP_[0-9a-f]{24}' FOR\nSELECT \* FROM orders/);
+    expect(explainSql).not.toContain(';');
+    expect(result).toMatchObject({ source: 'PLAN_TABLE', cost: 42, cardinality: 1000, lineCount: 4, text: ['Plan hash value: 1'] });
+    expect(result.plan.children[0].operation).toBe('HASH JOIN');
+    expect(connection.rollback).toHaveBeenCalled();
+    expect(connection.close).toHaveBeenCalled();
+  });
+
+  it('falls back to V$SQL_PLAN when PLAN_TABLE cannot be written', async () => {
+    const connection = mockConnection((sql) => {
+      if (sql.startsWith('EXPLAIN PLAN')) throw new Error('ORA-01031: insufficient privileges');
+      if (sql.includes('FROM v$sql WHERE')) return { rows: [{ SQL_ID: 'abc123', CHILD_NUMBER: 0 }] };
+      if (sql.includes('DISPLAY_CURSOR')) return { rows: [] };
+      return { rows: PLAN_ROWS };
+    });
+
+    const result = await explainPlan('SELECT * FROM orders');
+
+    const parsed = connection.getStatementInfo.mock.calls[0][0];
+    expect(parsed).toMatch(/^\/\* mcp-explain:[0-9a-f-]+ \*\/\nSELECT \* FROM orders$/);
+    const [, cursorBinds] = connection.execute.mock.calls.find(([sql]) => sql.includes('FROM v$sql WHERE'))!;
+    expect((cursorBinds as any).pattern).toBe(`${parsed.split('\n')[0]}%`);
+    const [, planBinds] = connection.execute.mock.calls.find(([sql]) => sql.includes('FROM v$sql_plan'))!;
+    expect(planBinds).toEqual({ sqlId: 'abc123', childNumber: 0 });
+    expect(result.source).toBe('V$SQL_PLAN');
+    expect(result.cost).toBe(42);
+  });
+
+  it('reports both failures when the fallback also fails', async () => {
+    mockConnection((sql) => {
+      if (sql.startsWith('EXPLAIN PLAN')) throw new Error('ORA-00942: table or view does not exist');
+      throw new Error('ORA-00942: table or view does not exist');
+    });
+
+    await expect(explainPlan('SELECT * FROM missing_table')).rejects.toThrow(
+      /EXPLAIN PLAN failed \(ORA-00942.*\) and the V\$SQL_PLAN fallback failed \(ORA-00942/
+    );
+  });
+
+  it('does not fall back for errors in the query itself', async () => {
+    const connection = mockConnection(() => {
+      throw new Error('ORA-00904: "NOPE": invalid identifier');
+    });
+
+    await expect(explainPlan('SELECT nope FROM dual')).rejects.toThrow('Explain plan failed: ORA-00904');
+    expect(connection.getStatementInfo).not.toHaveBeenCalled();
+    expect(connection.close).toHaveBeenCalled();
+  });
+
+  it('rejects non-SELECT statements before connecting', async () => {
+    await expect(explainPlan('DELETE FROM orders')).rejects.toThrow('Only SELECT statements are allowed');
+    expect(getConnection).not.toHaveBeenCalled();
+  });
+});
+
+describe('explain_query tool', () => {
+  it('returns a structured error instead of throwing', async () => {
+    const result = await explainQuery({ query: 'UPDATE t SET a = 1' });
+    expect(result).toEqual({ success: false, error: expect.stringContaining('Only SELECT statements are allowed') });
+  });
+});
@@ -0,0 +1,208 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { asyncBufferFromFile, parquetReadObjects } from 'hyparquet';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    MAX_ROWS_PER_QUERY: 2,
+    BLOB_HASH_MAX_BYTES: 1024,
+    EXPORT_MAX_ROWS: 1000,
+    EXPORT_MAX_BYTES: 1024 * 1024,
+  })
+);
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { getConnection } from '../src/database/oracleConnection.js';
+import { exportFileName } from '../src/export/exportFile.js';
+import { toJsonNumber } from '../src/export/formats.js';
+import { exportQuery } from '../src/tools/exportQuery.js';
+import { mockConfig } from './helpers/mocks.js';
+
+const METADATA = [
+  { name: 'ID', dbTypeName: 'NUMBER', precision: 10, scale: 0 },
+  { name: 'NAME', dbTypeName: 'VARCHAR2' },
+  { name: 'BALANCE', dbTypeName: 'NUMBER', precision: 0, scale: -127 },
+  { name: 'SSN', dbTypeName: 'VARCHAR2' },
+];
+
+const ROWS = [
+  { ID: '1', NAME: 'Smith, "Ann"', BALANCE: '.5', SSN: '123-45-6789' },
+  { ID: '2', NAME: 'Lee', BALANCE: '12345678901234567890.25', SSN: null },
+  { ID: '3', NAME: null, BALANCE: '-7', SSN: '987-65-4321' },
+];
+
+// Stand-in for a driver ResultSet over `rows`
+function fakeResultSet(rows: Record<string, any>[]) {
+  let position = 0;
+  return {
+    getRows: vi.fn(async (count: number) => {
+      const batch = rows.slice(position, position + count);
+      position += batch.length;
+      return batch.map((row) => ({ ...row }));
+    }),
+    close: vi.fn(async () => undefined),
+  };
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('export file names', () => {
+  it('adds the format extension and generates default names', () => {
+    expect(exportFileName('csv', 'customers')).toBe('customers.csv');
+    expect(exportFileName('csv', 'customers.CSV')).toBe('customers.CSV');
+    expect(exportFileName('parquet')).toMatch(/^export-\d{8}T\d{6}Z-[0-9a-f]{8}\.parquet$/);
+  });
+
+  it.each(['../escape', 'nested/file', '.hidden', '', 'a b'])('rejects %j', (name) => {
+    expect(() => exportFileName('csv', name)).toThrow('Invalid export file name');
+  });
+});
+
+describe('toJsonNumber', () => {
+  it.each([
+    ['.5', '0.5'],
+    ['-.5', '-0.5'],
+    ['12345678901234567890', '12345678901234567890'],
+    ['1.5E+40', '1.5e+40'],
+    ['abc', undefined],
+  ])('%s -> %s', (text, expected) => {
+    expect(toJsonNumber(text)).toBe(expected);
+  });
+});
+
+describe('exportQuery', () => {
+  const execute = vi.fn();
+  let exportDir: string;
+
+  beforeAll(() => {
+    const dir = mkdtempSync(join(tmpdir(), 'export-query-'));
+    const policyFile = join(dir, 'policy.json');
+    writeFileSync(
+      policyFile,
+      JSON.stringify({ defaultAction: 'allow', rules: [{ effect: 'mask', columns: ['CUSTOMERS.SSN'], method: 'full' }] })
+    );
+    mockConfig.ACCESS_POLICY_FILE = policyFile;
+  });
+
+  beforeEach(() => {
+    exportDir = mkdtempSync(join(tmpdir(), 'exports-'));
+    mockConfig.EXPORT_DIR = exportDir;
+    mockConfig.EXPORT_MAX_BYTES = 1024 * 1024;
+    execute.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn(), break: vi.fn() } as any);
+  });
+
+  function serve(rows: Record<string, any>[]) {
+    const resultSet = fakeResultSet(rows);
+    execute.mockResolvedValueOnce({ resultSet, metaData: METADATA });
+    return resultSet;
+  }
+
+  it('streams every row to a CSV file beyond MAX_ROWS_PER_QUERY and reports its checksum', async () => {
+    const resultSet = serve(ROWS);
+
+    const result = await exportQuery({
+      query: 'SELECT id, name, balance, ssn FROM customers',
+      format: 'csv',
+      fileName: 'customers',
+    });
+
+    expect(result.success).toBe(true);
+    const data = result.data as Record<string, any>;
+    const content = readFileSync(join(exportDir, 'customers.csv'));
+    expect(content.toString()).toBe(
+      'ID,NAME,BALANCE,SSN\r\n' +
+        '1,"Smith, ""Ann""",0.5,****\r\n' +
+        '2,Lee,12345678901234567890.25,\r\n' +
+        '3,,-7,****\r\n'
+    );
+    expect(data).toMatchObject({
+      path: join(exportDir, 'customers.csv'),
+      format: 'csv',
+      rowCount: 3,
+      truncated: false,
+      byteSize: content.length,
+      sha256: sha256(content),
+      maskedColumns: ['SSN'],
+    });
+    expect(execute.mock.calls[0][2]).toMatchObject({ resultSet: true });
+    expect(resultSet.close).toHaveBeenCalled();
+  });
+
+  it('writes exact NUMBER values as bare JSON numbers in NDJSON', async () => {
+    serve(ROWS.slice(0, 2));
+
+    const result = await exportQuery({ query: 'SELECT * FROM accounts', format: 'ndjson', fileName: 'accounts' });
+
+    expect(result.success).toBe(true);
+    const lines = readFileSync(join(exportDir, 'accounts.ndjson'), 'utf8').trimEnd().split('\n');
+    expect(lines).toEqual([
+      '{"ID":1,"NAME":"Smith, \\"Ann\\"","BALANCE":0.5,"SSN":"123-45-6789"}',
+      '{"ID":2,"NAME":"Lee","BALANCE":12345678901234567890.25,"SSN":null}',
+    ]);
+  });
+
+  it('writes a Parquet file with DOUBLE and text columns', async () => {
+    serve(ROWS);
+
+    const result = await exportQuery({ query: 'SELECT * FROM accounts', format: 'parquet', fileName: 'accounts' });
+
+    expect(result.success).toBe(true);
+    const file = await asyncBufferFromFile(join(exportDir, 'accounts.parquet'));
+    const rows = await parquetReadObjects({ file });
+    expect(rows).toEqual([
+      { ID: 1, NAME: 'Smith, "Ann"', BALANCE: '.5', SSN: '123-45-6789' },
+      { ID: 2, NAME: 'Lee', BALANCE: '12345678901234567890.25', SSN: null },
+      { ID: 3, NAME: null, BALANCE: '-7', SSN: '987-65-4321' },
+    ]);
+  });
+
+  it('stops at maxRows and reports that rows were left', async () => {
+    const resultSet = serve(ROWS);
+
+    const result = await exportQuery({ query: 'SELECT * FROM accounts', maxRows: 2, fileName: 'first-two' });
+
+    expect(result.data).toMatchObject({ rowCount: 2, truncated: true });
+    expect(resultSet.getRows).toHaveBeenNthCalledWith(1, 2);
+    expect(readFileSync(join(exportDir, 'first-two.csv'), 'utf8').trimEnd().split('\r\n')).toHaveLength(3);
+  });
+
+  it('never overwrites an existing file', async () => {
+    writeFileSync(join(exportDir, 'taken.csv'), 'keep me');
+
+    const result = await exportQuery({ query: 'SELECT * FROM accounts', fileName: 'taken.csv' });
+
+    expect(result).toEqual({ success: false, error: 'Export file taken.csv already exists' });
+    expect(readFileSync(join(exportDir, 'taken.csv'), 'utf8')).toBe('keep me');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('removes the partial file when the export exceeds EXPORT_MAX_BYTES', async () => {
+    mockConfig.EXPORT_MAX_BYTES = 30;
+    serve(ROWS);
+
+    const result = await exportQuery({ query: 'SELECT * FROM accounts', fileName: 'too-big' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('EXPORT_MAX_BYTES');
+    expect(existsSync(join(exportDir, 'too-big.csv'))).toBe(false);
+  });
+
+  it('is disabled without EXPORT_DIR', async () => {
+    mockConfig.EXPORT_DIR = undefined;
+
+    const result = await exportQuery({ query: 'SELECT * FROM accounts' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('set EXPORT_DIR');
+    expect(readdirSync(exportDir)).toEqual([]);
+  });
+});
@@ -1,38 +1,12 @@
 import { describe, expect, it, vi } from 'vitest';
 
-vi.mock('oracledb', () => ({ default: { OUT_FORMAT_OBJECT: 4 } }));
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
 
-vi.mock('../src/config.js', () => ({
-  default: () => ({
-    ORACLE_POOL_MIN: 2,
-    ORACLE_POOL_MAX: 10,
-    QUERY_TIMEOUT_MS: 30000,
-    MAX_ROWS_PER_QUERY: 1000,
-    MAX_QUERY_LENGTH: 50000,
-    ENFORCE_READ_ONLY_QUERIES: true,
-    MCP_MAX_RESPONSE_CHARS: 50000,
-    MCP_MAX_ROWS_IN_RESPONSE: 100,
-    MCP_MAX_STRING_LENGTH: 300,
-    LOG_LEVEL: 'info',
-    ENABLE_AUDIT_LOGGING: false,
-    MCP_TRANSPORT: 'stdio',
-    SERVER_NAME: 'oracle-mcp-server',
-    SERVER_VERSION: '1.0.0',
-  }),
-  configSchema: {},
-}));
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
 
-vi.mock('../src/database/oracleConnection.js', () => ({
-  getConnection: vi.fn(),
-  getOrCreatePool: vi.fn(),
-  closePool: vi.fn(),
-}));
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
 
-vi.mock('../src/utils/logger.js', () => ({
-  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
-  audit: vi.fn(),
-  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
-}));
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
 
 import { getDatabaseSchema, GetSchemaSchema } from '../src/tools/getSchema.js';
 
@@ -0,0 +1,134 @@
+/**
+ * Module mocks shared by the test files
+ *
+ * vi.mock calls are hoisted above every import, so a test file wires these up
+ * through an async factory rather than a top-level import:
+ *
+ *   vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule({ MAX_ROWS_PER_QUERY: 2 }));
+ *
+ * Each test file gets its own copy of this module, so `mockConfig` can be
+ * imported and changed inside tests, and `resetMockConfig()` puts back the
+ * file's settings.
+ */
+
+import { vi } from 'vitest';
+import type { Config } from '../../src/config.js';
+
+/**
+ * Every setting in configSchema, at its default unless a test-friendly value
+ * is needed (no audit log, no schema polling, a fixed time zone).
+ * config.test.ts checks that the keys match the schema.
+ */
+export const BASE_CONFIG: Readonly<Config> = Object.freeze({
+  ORACLE_CONNECTION_STRING: 'localhost/XEPDB1',
+  ORACLE_USER: 'app',
+  ORACLE_PASSWORD: 'secret',
+  ORACLE_POOL_MIN: 2,
+  ORACLE_POOL_MAX: 10,
+  QUERY_TIMEOUT_MS: 30000,
+  MAX_ROWS_PER_QUERY: 1000,
+  MAX_QUERY_LENGTH: 50000,
+  QUERY_CURSOR_TTL_MS: 60000,
+  ENFORCE_READ_ONLY_QUERIES: true,
+  QUERY_COST_GUARD: 'off',
+  QUERY_MAX_COST: 100000,
+  QUERY_MAX_CARDINALITY: 10000000,
+  NUMBER_AS_STRING: 'auto',
+  TEMPORAL_FORMAT: 'local',
+  LOB_MAX_BYTES: 4096,
+  BLOB_PREFIX_BYTES: 0,
+  BLOB_HASH_MAX_BYTES: 10 * 1024 * 1024,
+  ACCESS_POLICY_FILE: undefined,
+  REDACTION_HASH_KEY: undefined,
+  EXPORT_DIR: undefined,
+  EXPORT_MAX_ROWS: 1000000,
+  EXPORT_MAX_BYTES: 1024 * 1024 * 1024,
+  MCP_MAX_RESPONSE_CHARS: 50000,
+  MCP_MAX_ROWS_IN_RESPONSE: 100,
+  MCP_MAX_STRING_LENGTH: 300,
+  MCP_RESPONSE_ENCODING: 'json',
+  MCP_MAX_RESPONSE_TOKENS: undefined,
+  MCP_TOOL_TOKEN_BUDGETS: {},
+  MCP_TOKEN_ESTIMATOR: 'heuristic',
+  RESULT_RESOURCE_TTL_MS: 10 * 60 * 1000,
+  RESULT_RESOURCE_MAX: 20,
+  SCHEMA_WATCH_INTERVAL_MS: 0,
+  LOG_LEVEL: 'info',
+  ENABLE_AUDIT_LOGGING: false,
+  ORACLE_TIMEZONE: 'UTC',
+  MCP_TRANSPORT: 'stdio',
+  MCP_HTTP_HOST: '127.0.0.1',
+  MCP_HTTP_PORT: 3000,
+  MCP_HTTP_PATH: '/mcp',
+  MCP_HTTP_SESSION_IDLE_TTL_MS: 30 * 60 * 1000,
+  MCP_HTTP_AUTH_TOKEN: undefined,
+  MCP_HTTP_ALLOWED_HOSTS: [],
+  MCP_HTTP_DNS_REBINDING_PROTECTION: 'on',
+  SERVER_NAME: 'oracle-mcp-server',
+  SERVER_VERSION: '1.0.0',
+});
+
+/**
+ * The object getConfig() returns in the test file
+ */
+export const mockConfig: Config = structuredClone(BASE_CONFIG) as Config;
+
+let fileOverrides: Partial<Config> = {};
+
+/**
+ * Put back the base settings and the file's overrides, after a test changed them
+ */
+export function resetMockConfig(): void {
+  Object.assign(mockConfig, structuredClone(BASE_CONFIG), structuredClone(fileOverrides));
+}
+
+/**
+ * Factory result for vi.mock('../src/config.js'), with settings the whole file shares
+ */
+export function configModule(overrides: Partial<Config> = {}) {
+  fileOverrides = overrides;
+  resetMockConfig();
+  return { default: () => mockConfig, configSchema: {} };
+}
+
+/**
+ * Factory result for vi.mock('oracledb'): the driver constants the sources
+ * read, plus whatever a test adds (createPool, say)
+ */
+export function oracledbModule(extra: Record<string, unknown> = {}) {
+  return {
+    default: {
+      OUT_FORMAT_OBJECT: 4,
+      DB_TYPE_NUMBER: 'NUMBER',
+      DB_TYPE_VARCHAR: 'VARCHAR',
+      DB_TYPE_DATE: 'DATE',
+      DB_TYPE_TIMESTAMP: 'TIMESTAMP',
+      DB_TYPE_TIMESTAMP_TZ: 'TIMESTAMP_TZ',
+      DB_TYPE_TIMESTAMP_LTZ: 'TIMESTAMP_LTZ',
+      DB_TYPE_INTERVAL_DS: 'INTERVAL_DS',
+      DB_TYPE_INTERVAL_YM: 'INTERVAL_YM',
+      ...extra,
+    },
+  };
+}
+
+/**
+ * Factory result for vi.mock('../src/database/oracleConnection.js'); tests
+ * give getConnection a fake connection with vi.mocked(getConnection)
+ */
+export function oracleConnectionModule() {
+  return {
+    getConnection: vi.fn(),
+    getOrCreatePool: vi.fn(),
+    closePool: vi.fn(),
+  };
+}
+
+const logMethods = () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() });
+
+/**
+ * Factory result for vi.mock('../src/utils/logger.js')
+ */
+export function loggerModule() {
+  return { default: logMethods(), audit: vi.fn(), logger: logMethods() };
+}
@@ -0,0 +1,172 @@
+import { createHash } from 'node:crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    LOB_MAX_BYTES: 10,
+    BLOB_HASH_MAX_BYTES: 1024,
+  })
+);
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { clipUtf8, readLobValues } from '../src/database/lobs.js';
+import { getConnection } from '../src/database/oracleConnection.js';
+import { executeQuery } from '../src/database/queryExecutor.js';
+import { getSampleValues } from '../src/tools/discovery/getSampleValues.js';
+import { mockConfig, resetMockConfig } from './helpers/mocks.js';
+
+// Stand-in for a driver Lob: getData(offset, amount) is 1-based like the real one
+function fakeLob(content: string | Buffer) {
+  return {
+    length: content.length,
+    getData: vi.fn(async (offset = 1, amount?: number) =>
+      content.slice(offset - 1, amount === undefined ? undefined : offset - 1 + amount)
+    ),
+    destroy: vi.fn(),
+  };
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('clipUtf8', () => {
+  it('keeps text that fits', () => {
+    expect(clipUtf8('hello', 10)).toBe('hello');
+  });
+
+  it('cuts multi-byte text on a character boundary', () => {
+    // 'é' is two bytes in UTF-8
+    expect(clipUtf8('ééééé', 5)).toBe('éé');
+    // '😀' is a surrogate pair and four bytes
+    expect(clipUtf8('a😀b', 3)).toBe('a');
+  });
+});
+
+describe('readLobValues', () => {
+  beforeEach(() => {
+    resetMockConfig();
+  });
+
+  it('returns undefined when the result has no LOB columns', async () => {
+    const rows = [{ ID: 1 }];
+    expect(await readLobValues(rows, [{ name: 'ID', dbTypeName: 'NUMBER' }])).toBeUndefined();
+    expect(await readLobValues(rows, undefined)).toBeUndefined();
+  });
+
+  it('fetches only the CLOB prefix that fits the budget', async () => {
+    const long = fakeLob('abcdefghijklmnopqrstuvwxyz');
+    const short = fakeLob('short');
+    const rows = [{ BODY: long }, { BODY: short }, { BODY: null }];
+
+    const summary = await readLobValues(rows, [{ name: 'BODY', dbTypeName: 'CLOB' }]);
+
+    expect(rows.map((row) => row.BODY)).toEqual(['abcdefghij', 'short', null]);
+    expect(long.getData).toHaveBeenCalledWith(1, 10);
+    expect(long.destroy).toHaveBeenCalled();
+    expect(summary).toEqual({
+      BODY: { type: 'CLOB', values: 2, truncatedValues: 1, omitted: 16, unit: 'chars' },
+    });
+  });
+
+  it('cuts LONG text that the driver already fetched', async () => {
+    const rows: Record<string, any>[] = [{ NOTES: 'x'.repeat(25) }];
+
+    const summary = await readLobValues(rows, [{ name: 'NOTES', dbTypeName: 'LONG' }]);
+
+    expect(rows[0].NOTES).toBe('x'.repeat(10));
+    expect(summary!.NOTES).toMatchObject({ type: 'LONG', truncatedValues: 1, omitted: 15 });
+  });
+
+  it('summarizes BLOBs with size and hash', async () => {
+    const content = Buffer.from('%PDF-1.7 binary document');
+    const rows: Record<string, any>[] = [{ DOC: fakeLob(content) }];
+
+    const summary = await readLobValues(rows, [{ name: 'DOC', dbTypeName: 'BLOB' }]);
+
+    expect(rows[0].DOC).toEqual({ size: content.length, sha256: sha256(content) });
+    expect(summary!.DOC).toEqual({
+      type: 'BLOB',
+      values: 1,
+      truncatedValues: 1,
+      omitted: content.length,
+      unit: 'bytes',
+    });
+  });
+
+  it('adds a base64 prefix and skips hashing BLOBs over the hash limit', async () => {
+    mockConfig.BLOB_PREFIX_BYTES = 4;
+    mockConfig.BLOB_HASH_MAX_BYTES = 8;
+    const content = Buffer.from('%PDF-1.7 binary document');
+    const lob = fakeLob(content);
+    const rows: Record<string, any>[] = [{ DOC: lob }];
+
+    const summary = await readLobValues(rows, [{ name: 'DOC', dbTypeName: 'BLOB' }]);
+
+    expect(lob.getData).toHaveBeenCalledWith(1, 4);
+    expect(rows[0].DOC).toEqual({ size: content.length, base64Prefix: Buffer.from('%PDF').toString('base64') });
+    expect(summary!.DOC.omitted).toBe(content.length - 4);
+  });
+
+  it('summarizes LONG RAW buffers', async () => {
+    const content = Buffer.from([0, 1, 2, 3]);
+    const rows: Record<string, any>[] = [{ IMG: content }];
+
+    await readLobValues(rows, [{ name: 'IMG', dbTypeName: 'LONG RAW' }]);
+
+    expect(rows[0].IMG).toEqual({ size: 4, sha256: sha256(content) });
+  });
+});
+
+describe('LOB columns in tools', () => {
+  const execute = vi.fn();
+  const close = vi.fn();
+
+  beforeEach(() => {
+    resetMockConfig();
+    execute.mockReset();
+    close.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close, break: vi.fn() } as any);
+  });
+
+  it('executeQuery reads LOBs before releasing the connection and reports omissions', async () => {
+    const lob = fakeLob('a'.repeat(100));
+    lob.getData.mockImplementation(async () => {
+      expect(close).not.toHaveBeenCalled();
+      return 'a'.repeat(10);
+    });
+    execute.mockResolvedValueOnce({
+      rows: [{ ID: 1, BODY: lob }],
+      metaData: [{ name: 'ID', dbTypeName: 'NUMBER' }, { name: 'BODY', dbTypeName: 'CLOB' }],
+    });
+
+    const result = await executeQuery('SELECT id, body FROM documents');
+
+    expect(result.rows).toEqual([{ ID: 1, BODY: 'a'.repeat(10) }]);
+    expect(result.lobColumns).toEqual({
+      BODY: { type: 'CLOB', values: 1, truncatedValues: 1, omitted: 90, unit: 'chars' },
+    });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('getSampleValues previews LOBs without distinct or null counts', async () => {
+    execute.mockResolvedValueOnce({
+      rows: [{ BODY: fakeLob('first document text') }],
+      metaData: [{ name: 'BODY', dbTypeName: 'CLOB' }],
+    });
+
+    const result = await getSampleValues({ tableName: 'documents', columnNames: ['body'], sampleSize: 3 });
+
+    expect(result.data).toEqual([
+      {
+        columnName: 'BODY',
+        sampleValues: ['first docu'],
+        lob: { type: 'CLOB', values: 1, truncatedValues: 1, omitted: 9, unit: 'chars' },
+      },
+    ]);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { convertNumberColumns, isLosslessNumber } from '../src/database/numbers.js';
+import { getConnection } from '../src/database/oracleConnection.js';
+import { executeQuery } from '../src/database/queryExecutor.js';
+import { queryDatabase } from '../src/tools/queryDatabase.js';
+import { mockConfig, resetMockConfig } from './helpers/mocks.js';
+
+const NUMBER_META = [
+  { name: 'ID', dbTypeName: 'NUMBER' },
+  { name: 'AMOUNT', dbTypeName: 'NUMBER' },
+  { name: 'NAME', dbTypeName: 'VARCHAR2' },
+];
+
+describe('isLosslessNumber', () => {
+  it.each([
+    ['0', true],
+    ['42', true],
+    ['-17.25', true],
+    ['.5', true],
+    ['-.5', true],
+    ['0.1', true],
+    ['1.50', true],
+    ['9007199254740991', true],
+    ['1E+40', true],
+    ['9007199254740993', false],
+    ['123456789012345678901234567890', false],
+    ['0.12345678901234567890123', false],
+    ['12345678901234.5678', false],
+    ['abc', false],
+    ['', false],
+  ])('%s -> %s', (text, expected) => {
+    expect(isLosslessNumber(text)).toBe(expected);
+  });
+});
+
+describe('convertNumberColumns', () => {
+  beforeEach(() => {
+    resetMockConfig();
+  });
+
+  it('converts columns back to numbers when every value is exact', () => {
+    const rows = [{ ID: '1', AMOUNT: '10.5', NAME: 'a' }, { ID: '2', AMOUNT: null, NAME: '7' }];
+
+    expect(convertNumberColumns(rows, NUMBER_META)).toEqual([]);
+    expect(rows).toEqual([{ ID: 1, AMOUNT: 10.5, NAME: 'a' }, { ID: 2, AMOUNT: null, NAME: '7' }]);
+  });
+
+  it('keeps the whole column as strings when one value would lose precision', () => {
+    const rows = [{ ID: '1', AMOUNT: '1' }, { ID: '90071992547409931', AMOUNT: '2' }];
+
+    expect(convertNumberColumns(rows, NUMBER_META)).toEqual(['ID']);
+    expect(rows).toEqual([{ ID: '1', AMOUNT: 1 }, { ID: '90071992547409931', AMOUNT: 2 }]);
+  });
+
+  it('keeps every NUMBER column as strings in always mode', () => {
+    mockConfig.NUMBER_AS_STRING = 'always';
+    const rows = [{ ID: '1', AMOUNT: '2.5', NAME: 'x' }];
+
+    expect(convertNumberColumns(rows, NUMBER_META)).toEqual(['ID', 'AMOUNT']);
+    expect(rows).toEqual([{ ID: '1', AMOUNT: '2.5', NAME: 'x' }]);
+  });
+
+  it('keeps the listed columns as strings even when every value is exact', () => {
+    const rows = [{ ID: '1', AMOUNT: '2' }];
+
+    expect(convertNumberColumns(rows, NUMBER_META, ['ID'])).toEqual(['ID']);
+    expect(rows).toEqual([{ ID: '1', AMOUNT: 2 }]);
+  });
+
+  it('leaves rows alone in never mode', () => {
+    mockConfig.NUMBER_AS_STRING = 'never';
+    const rows = [{ ID: 1 }];
+
+    expect(convertNumberColumns(rows, NUMBER_META)).toEqual([]);
+    expect(rows).toEqual([{ ID: 1 }]);
+  });
+});
+
+describe('executeQuery NUMBER handling', () => {
+  const execute = vi.fn();
+
+  beforeEach(() => {
+    resetMockConfig();
+    execute.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn(), break: vi.fn() } as any);
+  });
+
+  it('fetches NUMBER as text and reports stringified columns', async () => {
+    execute.mockResolvedValueOnce({
+      rows: [{ ACCOUNT_ID: '12345678901234567890', BALANCE: '100.25' }],
+      metaData: [
+        { name: 'ACCOUNT_ID', dbTypeName: 'NUMBER' },
+        { name: 'BALANCE', dbTypeName: 'NUMBER' },
+      ],
+    });
+
+    const result = await executeQuery('SELECT account_id, balance FROM accounts');
+
+    const handler = execute.mock.calls[0][2].fetchTypeHandler;
+    expect(handler({ dbType: 'NUMBER' })).toEqual({ type: 'VARCHAR' });
+    expect(result.rows).toEqual([{ ACCOUNT_ID: '12345678901234567890', BALANCE: 100.25 }]);
+    expect(result.stringifiedColumns).toEqual(['ACCOUNT_ID']);
+  });
+
+  it('keeps the driver conversion in never mode', async () => {
+    mockConfig.NUMBER_AS_STRING = 'never';
+    execute.mockResolvedValueOnce({ rows: [{ N: 1 }], metaData: [{ name: 'N', dbTypeName: 'NUMBER' }] });
+
+    const result = await executeQuery('SELECT 1 AS n FROM dual');
+
+    const handler = execute.mock.calls[0][2].fetchTypeHandler;
+    expect(handler({ dbType: 'NUMBER' })).toBeUndefined();
+    expect(result.stringifiedColumns).toBeUndefined();
+  });
+});
+
+describe('query_database NUMBER handling across pages', () => {
+  const execute = vi.fn();
+
+  beforeEach(() => {
+    resetMockConfig();
+    execute.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn(), break: vi.fn() } as any);
+  });
+
+  it('keeps a column stringified by the first page as strings on later pages', async () => {
+    const metaData = [{ name: 'ID', dbTypeName: 'NUMBER' }];
+    execute
+      .mockResolvedValueOnce({ rows: [{ ID: '90071992547409931' }, { ID: '2' }], metaData })
+      .mockResolvedValueOnce({ rows: [{ ID: '2' }], metaData });
+
+    const first: any = await queryDatabase({ query: 'SELECT id FROM accounts ORDER BY id', pageSize: 1 });
+    const second: any = await queryDatabase({ cursor: first.pagination.nextCursor });
+
+    expect(first.data.rows).toEqual([{ ID: '90071992547409931' }]);
+    expect(second.data.rows).toEqual([{ ID: '2' }]);
+    expect(second.data.stringifiedColumns).toEqual(['ID']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+import {
+  buildPageQuery,
+  createCursor,
+  cursorAtOffset,
+  decodeCursor,
+  encodeCursor,
+  orderingWarning,
+  resolveCursor,
+} from '../src/tools/pagination.js';
+
+describe('cursor tokens', () => {
+  it('round-trips id and offset', () => {
+    expect(decodeCursor(encodeCursor('abc', 200))).toEqual({ id: 'abc', offset: 200 });
+  });
+
+  it('rejects tampered or foreign tokens', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid cursor');
+    expect(() => decodeCursor(Buffer.from('{"c":"x","o":-1}').toString('base64url'))).toThrow('Invalid cursor');
+  });
+
+  it('cursorAtOffset keeps the id and replaces the offset', () => {
+    expect(decodeCursor(cursorAtOffset(encodeCursor('abc', 100), 42))).toEqual({ id: 'abc', offset: 42 });
+  });
+
+  it('resolves a stored cursor', () => {
+    const id = createCursor({ query: 'SELECT 1 FROM DUAL', pageSize: 10 });
+    const resolved = resolveCursor(encodeCursor(id, 10));
+    expect(resolved.offset).toBe(10);
+    expect(resolved.state.query).toBe('SELECT 1 FROM DUAL');
+  });
+
+  it('resolves a cursor only for the session that created it', () => {
+    const id = createCursor({ query: 'SELECT 1 FROM DUAL', pageSize: 10, sessionId: 'session-a' });
+    const token = encodeCursor(id, 10);
+
+    expect(resolveCursor(token, 'session-a').state.query).toBe('SELECT 1 FROM DUAL');
+    expect(() => resolveCursor(token, 'session-b')).toThrow('Cursor expired or unknown');
+    expect(() => resolveCursor(token)).toThrow('Cursor expired or unknown');
+  });
+
+  it('reports unknown or expired cursors', () => {
+    expect(() => resolveCursor(encodeCursor('missing', 0))).toThrow('Cursor expired or unknown');
+  });
+});
+
+describe('buildPageQuery', () => {
+  it('appends a row limiting clause to a plain query', () => {
+    expect(buildPageQuery('SELECT a.id, b.id FROM a JOIN b ON a.id = b.a_id ORDER BY a.id;', 100, 51)).toBe(
+      'SELECT a.id, b.id FROM a JOIN b ON a.id = b.a_id ORDER BY a.id\nOFFSET 100 ROWS FETCH NEXT 51 ROWS ONLY'
+    );
+  });
+
+  it('wraps a query that already limits rows', () => {
+    expect(buildPageQuery('SELECT * FROM t ORDER BY id FETCH FIRST 500 ROWS ONLY', 100, 51)).toBe(
+      'SELECT * FROM (\nSELECT * FROM t ORDER BY id FETCH FIRST 500 ROWS ONLY\n) OFFSET 100 ROWS FETCH NEXT 51 ROWS ONLY'
+    );
+    expect(buildPageQuery('SELECT * FROM t OFFSET :skip ROWS', 0, 10)).toMatch(/^SELECT \* FROM \(/);
+  });
+
+  it('ignores row limiting keywords inside literals and comments', () => {
+    expect(buildPageQuery("SELECT 'FETCH FIRST' AS s FROM t -- OFFSET 5 ROWS\n", 0, 10)).toBe(
+      "SELECT 'FETCH FIRST' AS s FROM t -- OFFSET 5 ROWS\nOFFSET 0 ROWS FETCH NEXT 10 ROWS ONLY"
+    );
+  });
+});
+
+describe('orderingWarning', () => {
+  it('warns only when the query has no ORDER BY', () => {
+    expect(orderingWarning('SELECT * FROM t')).toContain('ORDER BY');
+    expect(orderingWarning('SELECT * FROM t ORDER BY id')).toBeUndefined();
+    expect(orderingWarning("SELECT 'ORDER BY' AS s FROM t")).toContain('ORDER BY');
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+vi.mock('../src/tools/discovery/describeTable.js', () => ({ describeTable: vi.fn() }));
+vi.mock('../src/tools/discovery/getTableRelations.js', () => ({ getTableRelations: vi.fn() }));
+vi.mock('../src/tools/discovery/getSampleValues.js', () => ({ getSampleValues: vi.fn() }));
+vi.mock('../src/tools/explainQuery.js', () => ({ explainQuery: vi.fn() }));
+
+import { createPromptRegistry } from '../src/prompts/index.js';
+import { describeTable } from '../src/tools/discovery/describeTable.js';
+import { getSampleValues } from '../src/tools/discovery/getSampleValues.js';
+import { getTableRelations } from '../src/tools/discovery/getTableRelations.js';
+import { explainQuery } from '../src/tools/explainQuery.js';
+
+const CUSTOMERS = {
+  success: true,
+  data: {
+    tableName: 'CUSTOMERS',
+    columns: [
+      { columnName: 'ID', dataType: 'NUMBER', nullable: false },
+      { columnName: 'EMAIL', dataType: 'VARCHAR2', nullable: true, comments: 'Primary contact address' },
+    ],
+    constraints: [{ constraintName: 'PK_CUSTOMERS', constraintType: 'PRIMARY_KEY', columns: ['ID'] }],
+  },
+};
+
+describe('createPromptRegistry', () => {
+  const registry = createPromptRegistry();
+
+  beforeEach(() => {
+    vi.mocked(describeTable).mockReset().mockResolvedValue(CUSTOMERS as any);
+    vi.mocked(getTableRelations).mockReset().mockResolvedValue({
+      success: true,
+      data: { tableName: 'CUSTOMERS', foreignKeys: [], referencedBy: [] },
+    });
+    vi.mocked(getSampleValues).mockReset().mockResolvedValue({
+      success: true,
+      data: [{ columnName: 'EMAIL', sampleValues: ['ann@example.com'] }],
+    });
+    vi.mocked(explainQuery).mockReset().mockResolvedValue({ success: true, data: { steps: [{ operation: 'TABLE ACCESS FULL' }] } } as any);
+  });
+
+  it('advertises the workflows with their arguments', () => {
+    const prompts = registry.list();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'explore_table',
+      'write_join',
+      'investigate_slow_query',
+      'profile_column',
+    ]);
+    expect(prompts.find((prompt) => prompt.name === 'write_join')?.arguments).toEqual([
+      { name: 'leftTable', description: 'First table of the join', required: true },
+      { name: 'rightTable', description: 'Second table of the join', required: true },
+      { name: 'question', description: 'What the joined result should answer (optional)', required: false },
+    ]);
+  });
+
+  it('embeds describeTable, getTableRelations and getSampleValues output in explore_table', async () => {
+    const signal = new AbortController().signal;
+
+    const result = await registry.get('explore_table', { tableName: 'customers' }, { requestId: 7, signal });
+    const text = result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('Oracle table CUSTOMERS');
+    expect(text).toContain('Primary contact address');
+    expect(text).toContain('"referencedBy":[]');
+    expect(text).toContain('ann@example.com');
+    expect(describeTable).toHaveBeenCalledWith({ tableName: 'CUSTOMERS', includeConstraints: true }, { requestId: 7, signal });
+    expect(getSampleValues).toHaveBeenCalledWith({ tableName: 'CUSTOMERS', sampleSize: 3 }, { requestId: 7, signal });
+  });
+
+  it('describes the unqualified tables a slow query reads, next to its plan', async () => {
+    const query = 'WITH recent AS (SELECT * FROM orders) SELECT * FROM recent r JOIN customers c ON c.id = r.customer_id JOIN hr.staff s ON 1 = 1';
+
+    const result = await registry.get('investigate_slow_query', { query });
+    const text = result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+
+    expect(text).toContain('TABLE ACCESS FULL');
+    expect(text).toContain(query);
+    expect(vi.mocked(describeTable).mock.calls.map(([input]) => input.tableName)).toEqual(['ORDERS', 'CUSTOMERS']);
+  });
+
+  it('embeds only the profiled column definition', async () => {
+    const result = await registry.get('profile_column', { tableName: 'customers', columnName: 'email' });
+    const text = result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+
+    expect(text).toContain('CUSTOMERS.EMAIL');
+    expect(text).toContain('Primary contact address');
+    expect(text).not.toContain('PK_CUSTOMERS');
+    expect(getSampleValues).toHaveBeenCalledWith({ tableName: 'CUSTOMERS', columnNames: ['EMAIL'], sampleSize: 10 }, {});
+  });
+
+  it('rejects unknown prompts and missing arguments', async () => {
+    await expect(registry.get('nope', {})).rejects.toThrow('Unknown prompt: nope');
+    await expect(registry.get('write_join', { leftTable: 'ORDERS' })).rejects.toThrow();
+    expect(describeTable).not.toHaveBeenCalled();
+  });
+});
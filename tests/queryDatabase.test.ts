@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    MCP_MAX_ROWS_IN_RESPONSE: 2,
+  })
+);
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { getConnection } from '../src/database/oracleConnection.js';
+import { queryDatabase, QueryDatabaseSchema } from '../src/tools/queryDatabase.js';
+
+const ALL_ROWS = Array.from({ length: 5 }, (_, i) => ({ ID: i + 1 }));
+
+// Serves ALL_ROWS, honouring an appended OFFSET n ROWS clause and maxRows
+function mockTable() {
+  const execute = vi.fn(async (sql: string, _binds: unknown, options: { maxRows: number }) => {
+    const offset = Number(/OFFSET (\d+) ROWS/.exec(sql)?.[1] ?? 0);
+    return { rows: ALL_ROWS.slice(offset, offset + options.maxRows), metaData: [{ name: 'ID' }] };
+  });
+  vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn(), break: vi.fn() } as any);
+  return execute;
+}
+
+describe('QueryDatabaseSchema', () => {
+  it('requires exactly one of query or cursor', () => {
+    expect(() => QueryDatabaseSchema.parse({})).toThrow('Provide either query or cursor');
+    expect(() => QueryDatabaseSchema.parse({ query: 'SELECT 1 FROM DUAL', cursor: 'abc' })).toThrow(
+      'Provide either query or cursor'
+    );
+  });
+
+  it('rejects binds together with a cursor', () => {
+    expect(() => QueryDatabaseSchema.parse({ cursor: 'abc', binds: [1] })).toThrow('binds cannot be combined with cursor');
+  });
+
+  it('is idempotent for typed date binds', () => {
+    const once = QueryDatabaseSchema.parse({
+      query: 'SELECT * FROM t WHERE d > :d',
+      binds: { d: { type: 'date', value: '2024-01-01T00:00:00Z' } },
+    });
+    expect(QueryDatabaseSchema.parse(once)).toEqual(once);
+  });
+});
+
+describe('queryDatabase pagination', () => {
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+  });
+
+  it('returns the first page with a cursor to the next one', async () => {
+    const execute = mockTable();
+
+    const result: any = await queryDatabase({ query: 'SELECT id FROM t ORDER BY id' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.rows).toEqual([{ ID: 1 }, { ID: 2 }]);
+    expect(result.data.rowCount).toBe(2);
+    expect(result.pagination).toMatchObject({ offset: 0, pageSize: 2, returnedRows: 2, hasMore: true });
+    expect(result.pagination.warning).toBeUndefined();
+    // The first page runs the query unchanged and fetches one extra row
+    expect(execute.mock.calls[0][0]).toBe('SELECT id FROM t ORDER BY id');
+    expect(execute.mock.calls[0][2].maxRows).toBe(3);
+  });
+
+  it('pages through the full result set with nextCursor', async () => {
+    const execute = mockTable();
+
+    const seen: number[] = [];
+    let result: any = await queryDatabase({ query: 'SELECT id FROM t ORDER BY id' });
+    seen.push(...result.data.rows.map((r: any) => r.ID));
+
+    while (result.pagination.nextCursor) {
+      result = await queryDatabase({ cursor: result.pagination.nextCursor });
+      seen.push(...result.data.rows.map((r: any) => r.ID));
+    }
+
+    expect(seen).toEqual([1, 2, 3, 4, 5]);
+    expect(result.pagination.hasMore).toBe(false);
+    expect(execute.mock.calls[1][0]).toContain('OFFSET 2 ROWS FETCH NEXT 3 ROWS ONLY');
+  });
+
+  it('stops at maxRows across pages', async () => {
+    mockTable();
+
+    const first: any = await queryDatabase({ query: 'SELECT id FROM t ORDER BY id', maxRows: 3 });
+    const second: any = await queryDatabase({ cursor: first.pagination.nextCursor });
+
+    expect(second.data.rows).toEqual([{ ID: 3 }]);
+    expect(second.pagination.hasMore).toBe(false);
+    expect(second.pagination.nextCursor).toBeNull();
+  });
+
+  it('warns about unordered paging', async () => {
+    mockTable();
+
+    const result: any = await queryDatabase({ query: 'SELECT id FROM t' });
+
+    expect(result.pagination.warning).toContain('ORDER BY');
+  });
+
+  it('binds typed dates as Date objects', async () => {
+    const execute = mockTable();
+
+    await queryDatabase({
+      query: 'SELECT id FROM t WHERE created > :since',
+      binds: { since: { type: 'date', value: '2024-01-01T00:00:00Z' } },
+    });
+
+    expect(execute.mock.calls[0][1]).toEqual({ since: new Date('2024-01-01T00:00:00Z') });
+  });
+
+  it('rejects write statements without issuing a cursor', async () => {
+    const result: any = await queryDatabase({ query: 'DELETE FROM t' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Only SELECT statements are allowed');
+    expect(getConnection).not.toHaveBeenCalled();
+  });
+
+  it('reports an unknown cursor', async () => {
+    const result: any = await queryDatabase({ cursor: Buffer.from('{"c":"gone","o":2}').toString('base64url') });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Cursor expired or unknown');
+  });
+});
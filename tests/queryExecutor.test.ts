@@ -1,46 +1,24 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 // Mocks must be declared before any module imports that trigger side-effects.
-vi.mock('oracledb', () => ({ default: { OUT_FORMAT_OBJECT: 4 } }));
-
-vi.mock('../src/config.js', () => ({
-  default: () => ({
-    ORACLE_POOL_MIN: 2,
-    ORACLE_POOL_MAX: 10,
-    QUERY_TIMEOUT_MS: 30000,
-    MAX_ROWS_PER_QUERY: 1000,
-    MAX_QUERY_LENGTH: 50000,
-    ENFORCE_READ_ONLY_QUERIES: true,
-    MCP_MAX_RESPONSE_CHARS: 50000,
-    MCP_MAX_ROWS_IN_RESPONSE: 100,
-    MCP_MAX_STRING_LENGTH: 300,
-    LOG_LEVEL: 'info',
-    ENABLE_AUDIT_LOGGING: false,
-    MCP_TRANSPORT: 'stdio',
-    SERVER_NAME: 'oracle-mcp-server',
-    SERVER_VERSION: '1.0.0',
-  }),
-  configSchema: {},
-}));
-
-vi.mock('../src/database/oracleConnection.js', () => ({
-  getConnection: vi.fn(),
-  getOrCreatePool: vi.fn(),
-  closePool: vi.fn(),
-}));
-
-vi.mock('../src/utils/logger.js', () => ({
-  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
-  audit: vi.fn(),
-  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
-}));
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
 
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { QueryCancelledError, QueryTimeoutError } from '../src/database/errors.js';
 import { getConnection } from '../src/database/oracleConnection.js';
 import {
   ensureReadOnlyQuery,
+  executeQuery,
   getSchema,
+  resolveQueryTimeout,
   stripLeadingCommentsAndWhitespace,
 } from '../src/database/queryExecutor.js';
+import { splitStatements, tokenizeSql } from '../src/database/sqlLexer.js';
 
 describe('stripLeadingCommentsAndWhitespace', () => {
   it('returns the query unchanged when there are no leading comments or whitespace', () => {
@@ -154,6 +132,222 @@ describe('ensureReadOnlyQuery', () => {
   });
 });
 
+describe('tokenizeSql', () => {
+  const significant = (sql: string) =>
+    tokenizeSql(sql)
+      .filter((t) => t.type !== 'whitespace' && t.type !== 'comment')
+      .map((t) => [t.type, t.text]);
+
+  it('splits words, numbers, binds and punctuation', () => {
+    expect(significant('SELECT a.id, 1.5e3 FROM t WHERE x = :id')).toEqual([
+      ['word', 'SELECT'],
+      ['word', 'a'],
+      ['punct', '.'],
+      ['word', 'id'],
+      ['punct', ','],
+      ['number', '1.5e3'],
+      ['word', 'FROM'],
+      ['word', 't'],
+      ['word', 'WHERE'],
+      ['word', 'x'],
+      ['punct', '='],
+      ['bind', ':id'],
+    ]);
+  });
+
+  it('keeps doubled quotes inside a string literal', () => {
+    expect(significant("SELECT 'it''s; DROP' FROM dual")[1]).toEqual(['string', "'it''s; DROP'"]);
+  });
+
+  it.each([
+    ["q'[a ] b]'", "q'[a ] b]'"],
+    ["Q'{x}'", "Q'{x}'"],
+    ["q'<it's>'", "q'<it's>'"],
+    ["q'(;)'", "q'(;)'"],
+    ["q'!a'b!'", "q'!a'b!'"],
+    ["nq'#x#'", "nq'#x#'"],
+    ["N'national'", "N'national'"],
+  ])('lexes %s as a single string token', (literal, expected) => {
+    expect(significant(`SELECT ${literal} FROM dual`)[1]).toEqual(['string', expected]);
+  });
+
+  it('treats identifiers ending in q or n as words, not quote prefixes', () => {
+    expect(significant("SELECT seq FROM t WHERE n = 'x'").map(([type]) => type)).toEqual([
+      'word', 'word', 'word', 'word', 'word', 'word', 'punct', 'string',
+    ]);
+  });
+
+  it('lexes quoted identifiers', () => {
+    expect(significant('SELECT "FOR UPDATE" FROM "my;table"')).toEqual([
+      ['word', 'SELECT'],
+      ['quoted_identifier', '"FOR UPDATE"'],
+      ['word', 'FROM'],
+      ['quoted_identifier', '"my;table"'],
+    ]);
+  });
+
+  it('closes a block comment at the first terminator, as Oracle does', () => {
+    const tokens = tokenizeSql('/* outer /* inner */ DELETE */');
+    expect(tokens[0]).toMatchObject({ type: 'comment', text: '/* outer /* inner */' });
+    expect(significant('/* outer /* inner */ DELETE */')[0]).toEqual(['word', 'DELETE']);
+  });
+
+  it('ends a line comment at the newline', () => {
+    expect(significant('-- SELECT ; DELETE\nSELECT 1 FROM dual')[0]).toEqual(['word', 'SELECT']);
+  });
+
+  it('flags unterminated strings, identifiers and comments', () => {
+    expect(tokenizeSql("SELECT 'abc").at(-1)?.unterminated).toBe(true);
+    expect(tokenizeSql('SELECT "abc').at(-1)?.unterminated).toBe(true);
+    expect(tokenizeSql("SELECT q'[abc").at(-1)?.unterminated).toBe(true);
+    expect(tokenizeSql('SELECT 1 /* abc').at(-1)?.unterminated).toBe(true);
+  });
+
+  it('does not treat the assignment operator as a bind', () => {
+    expect(tokenizeSql('x := 1').some((t) => t.type === 'bind')).toBe(false);
+  });
+
+  it('records token offsets', () => {
+    const tokens = tokenizeSql('SELECT :a FROM dual');
+    expect(tokens.find((t) => t.type === 'bind')?.start).toBe(7);
+  });
+});
+
+describe('splitStatements', () => {
+  const count = (sql: string) => splitStatements(tokenizeSql(sql)).length;
+
+  it('ignores a trailing semicolon', () => {
+    expect(count('SELECT 1 FROM dual;')).toBe(1);
+    expect(count('SELECT 1 FROM dual ;  -- done\n')).toBe(1);
+  });
+
+  it('splits on semicolons outside literals', () => {
+    expect(count('SELECT 1 FROM dual; SELECT 2 FROM dual')).toBe(2);
+    expect(count("SELECT ';' FROM dual")).toBe(1);
+    expect(count('SELECT 1 AS ";" FROM dual')).toBe(1);
+    expect(count('SELECT 1 FROM dual /* ; */')).toBe(1);
+  });
+
+  it('treats a slash alone on a line as a separator', () => {
+    expect(count('SELECT 1 FROM dual\n/\nSELECT 2 FROM dual')).toBe(2);
+    expect(count('SELECT 4 / 2 FROM dual')).toBe(1);
+  });
+});
+
+describe('ensureReadOnlyQuery corpus', () => {
+  it.each([
+    ['lowercase select', 'select * from employees'],
+    ['mixed-case select', 'SeLeCt id FrOm orders'],
+    ['select across lines', 'SELECT id,\n       name\n  FROM employees\n WHERE id = 1'],
+    ['leading block comment', '/* report */ SELECT 1 FROM dual'],
+    ['optimizer hint', 'SELECT /*+ INDEX(e emp_idx) */ e.id FROM employees e'],
+    ['trailing semicolon', 'SELECT 1 FROM dual;'],
+    ['trailing semicolon and comment', 'SELECT 1 FROM dual; -- done'],
+    ['CTE', 'WITH recent AS (SELECT * FROM orders WHERE created > SYSDATE - 7) SELECT * FROM recent'],
+    ['multiple CTEs', 'WITH a AS (SELECT 1 x FROM dual), b AS (SELECT x FROM a) SELECT * FROM b'],
+    ['recursive CTE', 'WITH t (n) AS (SELECT 1 FROM dual UNION ALL SELECT n + 1 FROM t WHERE n < 5) SELECT n FROM t'],
+    ['lowercase CTE after a comment', '-- cte\nwith x as (select 1 from dual) select * from x'],
+    ['parenthesized select', '(SELECT 1 FROM dual)'],
+    ['parenthesized union', '(SELECT 1 FROM dual) UNION (SELECT 2 FROM dual)'],
+    ['nested parentheses', '((SELECT 1 FROM dual))'],
+    ['FOR UPDATE inside a string literal', "SELECT 'FOR UPDATE' AS txt FROM dual"],
+    ['FOR UPDATE inside a q-quoted literal', "SELECT q'[x FOR UPDATE]' FROM dual"],
+    ['FOR UPDATE inside a quoted identifier', 'SELECT 1 AS "FOR UPDATE" FROM dual'],
+    ['FOR UPDATE inside a comment', 'SELECT 1 FROM dual -- FOR UPDATE'],
+    ['FOR UPDATE inside a block comment', 'SELECT 1 /* FOR UPDATE */ FROM dual'],
+    ['DML keywords inside literals', "SELECT 'DELETE FROM t; DROP TABLE t' FROM dual"],
+    ['semicolon in a string literal', "SELECT 'a;b' FROM dual"],
+    ['semicolon in a q-quoted literal', "SELECT q'{a; DELETE FROM t}' FROM dual"],
+    ['escaped quote in literal', "SELECT 'it''s; fine' FROM dual"],
+    ['q-quote with an embedded apostrophe', "SELECT q'[it's]' FROM dual"],
+    ['national literal', "SELECT N'café' FROM dual"],
+    ['column named like a keyword', 'SELECT updated_at, deleted FROM audit_log'],
+    ['FOR in a different clause', "SELECT * FROM t PIVOT (SUM(v) FOR k IN ('a' AS a))"],
+    ['bind variables', 'SELECT * FROM t WHERE id = :id AND status = :1'],
+    ['database link', 'SELECT * FROM employees@remote_db'],
+    ['division, not a separator', 'SELECT a / b FROM t'],
+    ['flashback query', "SELECT * FROM t AS OF TIMESTAMP SYSTIMESTAMP - INTERVAL '1' HOUR"],
+    ['row limiting clause', 'SELECT * FROM t ORDER BY id FETCH FIRST 10 ROWS ONLY'],
+  ])('allows %s', (_label, sql) => {
+    expect(() => ensureReadOnlyQuery(sql)).not.toThrow();
+  });
+
+  it.each([
+    ['INSERT', 'insert into t values (1)'],
+    ['MERGE', 'MERGE INTO t USING s ON (t.id = s.id) WHEN MATCHED THEN UPDATE SET t.v = s.v'],
+    ['CREATE', 'CREATE TABLE t (id NUMBER)'],
+    ['ALTER', 'ALTER SESSION SET NLS_DATE_FORMAT = \'YYYY\''],
+    ['GRANT', 'GRANT SELECT ON t TO public'],
+    ['LOCK TABLE', 'LOCK TABLE t IN EXCLUSIVE MODE'],
+    ['EXPLAIN PLAN', 'EXPLAIN PLAN FOR SELECT 1 FROM dual'],
+    ['DML after a leading comment', '/* SELECT */ DELETE FROM t'],
+    ['DML after a line comment', '-- SELECT\nDELETE FROM t'],
+    ['DML hidden by a "nested" comment opener', '/* outer /* inner */ DELETE FROM t'],
+    ['DML inside parentheses', '(DELETE FROM t)'],
+    ['quoted SELECT identifier', '"SELECT" FROM t'],
+    ['string literal statement', "'SELECT 1 FROM dual'"],
+  ])('rejects %s as not a SELECT', (_label, sql) => {
+    expect(() => ensureReadOnlyQuery(sql)).toThrow('Only SELECT statements are allowed');
+  });
+
+  it.each([
+    ['two selects', 'SELECT 1 FROM dual; SELECT 2 FROM dual'],
+    ['select then delete', 'SELECT 1 FROM dual; DELETE FROM t'],
+    ['select then drop without spaces', 'SELECT 1 FROM dual;DROP TABLE t'],
+    ['separator after a literal containing a quote', "SELECT 'x''' FROM dual; DELETE FROM t"],
+    ['separator after a q-quoted literal', "SELECT q'[;]' FROM dual; DELETE FROM t"],
+    ['separator after a comment', 'SELECT 1 FROM dual /* ; */ ; DELETE FROM t'],
+    ['SQL*Plus slash separator', 'SELECT 1 FROM dual\n/\nDELETE FROM t'],
+    ['CTE followed by DML', 'WITH x AS (SELECT 1 FROM dual) SELECT * FROM x; UPDATE t SET a = 1'],
+  ])('rejects multiple statements: %s', (_label, sql) => {
+    expect(() => ensureReadOnlyQuery(sql)).toThrow('Multiple SQL statements are not allowed');
+  });
+
+  it.each([
+    ['anonymous block', 'BEGIN DELETE FROM t; END;'],
+    ['declare block', 'DECLARE n NUMBER; BEGIN SELECT 1 INTO n FROM dual; END;'],
+    ['lowercase block after a comment', '-- run\nbegin null; end;'],
+    ['CALL', 'CALL my_proc()'],
+    ['EXEC', 'EXEC my_proc'],
+    ['EXECUTE', 'EXECUTE my_proc'],
+    ['WITH FUNCTION', 'WITH FUNCTION f RETURN NUMBER IS BEGIN RETURN 1; END; SELECT f FROM dual'],
+    ['WITH PROCEDURE', 'WITH PROCEDURE p IS BEGIN NULL; END; SELECT 1 FROM dual'],
+  ])('rejects PL/SQL: %s', (_label, sql) => {
+    expect(() => ensureReadOnlyQuery(sql)).toThrow('PL/SQL blocks and procedure calls are not allowed');
+  });
+
+  it.each([
+    ['lowercase', 'select * from t for update'],
+    ['split across lines', 'SELECT * FROM t\nFOR\n  UPDATE'],
+    ['with a comment between the keywords', 'SELECT * FROM t FOR /* lock */ UPDATE'],
+    ['with NOWAIT', 'SELECT * FROM t FOR UPDATE NOWAIT'],
+    ['with OF column list', 'SELECT * FROM t FOR UPDATE OF t.a SKIP LOCKED'],
+    ['in a CTE query', 'WITH x AS (SELECT * FROM t) SELECT * FROM x FOR UPDATE'],
+    ['after a string that mentions it', "SELECT 'FOR UPDATE' FROM t FOR UPDATE"],
+  ])('rejects FOR UPDATE %s', (_label, sql) => {
+    expect(() => ensureReadOnlyQuery(sql)).toThrow('FOR UPDATE is not allowed');
+  });
+
+  it.each([
+    ['string literal', "SELECT 'abc FROM dual"],
+    ['q-quoted literal', "SELECT q'[abc FROM dual"],
+    ['quoted identifier', 'SELECT "abc FROM dual'],
+    ['block comment', 'SELECT 1 FROM dual /* trailing'],
+    ['literal hiding a second statement', "SELECT 'x FROM dual; DELETE FROM t"],
+  ])('rejects an unterminated %s', (_label, sql) => {
+    expect(() => ensureReadOnlyQuery(sql)).toThrow('unterminated');
+  });
+
+  it.each([
+    ['semicolons only', ';;'],
+    ['comment and semicolon', '-- nothing\n;'],
+    ['unterminated block comment only', '/* nothing'],
+    ['SQL*Plus slash only', '/'],
+  ])('rejects an empty query: %s', (_label, sql) => {
+    expect(() => ensureReadOnlyQuery(sql)).toThrow('Query cannot be empty');
+  });
+});
+
 describe('getSchema SQL injection prevention', () => {
   function makeMockConnection() {
     const calls: { sql: string; binds: unknown }[] = [];
@@ -219,3 +413,196 @@ describe('getSchema SQL injection prevention', () => {
     expect((binds as unknown[]).length).toBe(0);
   });
 });
+
+describe('executeQuery bind variables', () => {
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+  });
+
+  it('passes named binds to the driver', async () => {
+    const execute = vi.fn().mockResolvedValue({ rows: [], metaData: [] });
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn() } as any);
+
+    const since = new Date('2024-01-01T00:00:00Z');
+    await executeQuery('SELECT * FROM orders WHERE customer_id = :customer_id AND created >= :since', {
+      binds: { ':customer_id': 42, since },
+    });
+
+    expect(execute.mock.calls[0][1]).toEqual({ customer_id: 42, since });
+  });
+
+  it('rejects mismatched binds before acquiring a connection', async () => {
+    await expect(
+      executeQuery('SELECT * FROM orders WHERE customer_id = :customer_id', { binds: { id: 42 } })
+    ).rejects.toThrow('Bind variables do not match query placeholders');
+    expect(getConnection).not.toHaveBeenCalled();
+  });
+});
+
+describe('executeQuery timeouts', () => {
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+  });
+
+  it('defaults to QUERY_TIMEOUT_MS and caps larger per-call timeouts', () => {
+    expect(resolveQueryTimeout()).toBe(30000);
+    expect(resolveQueryTimeout(5000)).toBe(5000);
+    expect(resolveQueryTimeout(120000)).toBe(30000);
+  });
+
+  it('applies the per-call timeout as the connection callTimeout and restores it before release', async () => {
+    const connection = { execute: vi.fn(), close: vi.fn(), callTimeout: 30000 };
+    let during: number | undefined;
+    let atRelease: number | undefined;
+    connection.execute.mockImplementation(async () => {
+      during = connection.callTimeout;
+      return { rows: [], metaData: [] };
+    });
+    connection.close.mockImplementation(async () => {
+      atRelease = connection.callTimeout;
+    });
+    vi.mocked(getConnection).mockResolvedValue(connection as any);
+
+    await executeQuery('SELECT 1 FROM DUAL', { timeout: 2500 });
+
+    expect(during).toBe(2500);
+    expect(atRelease).toBe(30000);
+  });
+
+  it('restores callTimeout when the query fails', async () => {
+    const connection = {
+      execute: vi.fn().mockRejectedValue(new Error('ORA-00942: table or view does not exist')),
+      close: vi.fn(),
+      callTimeout: 30000,
+    };
+    vi.mocked(getConnection).mockResolvedValue(connection as any);
+
+    await expect(executeQuery('SELECT * FROM missing', { timeout: 2500 })).rejects.toThrow('ORA-00942');
+
+    expect(connection.callTimeout).toBe(30000);
+  });
+
+  it('breaks the statement at the deadline and throws QueryTimeoutError', async () => {
+    vi.useFakeTimers();
+    try {
+      let rejectExecute: (err: Error) => void = () => {};
+      const connection = {
+        execute: vi.fn(() => new Promise((_, reject) => { rejectExecute = reject; })),
+        break: vi.fn(async () => rejectExecute(new Error('ORA-01013: user requested cancel of current operation'))),
+        close: vi.fn(),
+        callTimeout: 0,
+      };
+      vi.mocked(getConnection).mockResolvedValue(connection as any);
+
+      const pending = executeQuery('SELECT * FROM big_table', { timeout: 1000 });
+      const assertion = expect(pending).rejects.toBeInstanceOf(QueryTimeoutError);
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+
+      expect(connection.break).toHaveBeenCalledTimes(1);
+      expect(connection.close).toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('maps a driver call timeout error to QueryTimeoutError', async () => {
+    const connection = {
+      execute: vi.fn().mockRejectedValue(new Error('NJS-123: call timeout of 1000 ms exceeded')),
+      close: vi.fn(),
+      callTimeout: 0,
+    };
+    vi.mocked(getConnection).mockResolvedValue(connection as any);
+
+    const err = await executeQuery('SELECT 1 FROM DUAL', { timeout: 1000 }).catch((e) => e);
+    expect(err).toBeInstanceOf(QueryTimeoutError);
+    expect(err.timeoutMs).toBe(1000);
+    expect(err.message).toMatch(/^Query timed out after \d+ ms \(timeout: 1000 ms\)$/);
+  });
+});
+
+describe('executeQuery cancellation', () => {
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+  });
+
+  it('breaks the statement, releases the connection and throws QueryCancelledError on abort', async () => {
+    let rejectExecute: (err: Error) => void = () => {};
+    const connection = {
+      execute: vi.fn(() => new Promise((_, reject) => { rejectExecute = reject; })),
+      break: vi.fn(async () => rejectExecute(new Error('ORA-01013: user requested cancel of current operation'))),
+      close: vi.fn(),
+      callTimeout: 0,
+    };
+    vi.mocked(getConnection).mockResolvedValue(connection as any);
+
+    const controller = new AbortController();
+    const pending = executeQuery('SELECT * FROM big_table', { context: { requestId: 3, signal: controller.signal } });
+    await vi.waitFor(() => expect(connection.execute).toHaveBeenCalled());
+
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(connection.break).toHaveBeenCalledTimes(1);
+    expect(connection.close).toHaveBeenCalled();
+  });
+
+  it('does not run the statement when the request is already cancelled', async () => {
+    const connection = { execute: vi.fn(), break: vi.fn(), close: vi.fn(), callTimeout: 0 };
+    vi.mocked(getConnection).mockResolvedValue(connection as any);
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      executeQuery('SELECT 1 FROM DUAL', { context: { requestId: 4, signal: controller.signal } })
+    ).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(connection.execute).not.toHaveBeenCalled();
+    expect(connection.close).toHaveBeenCalled();
+  });
+});
+
+describe('executeQuery column metadata', () => {
+  beforeEach(() => {
+    vi.mocked(getConnection).mockReset();
+  });
+
+  it('describes each column with its type, size and conversion', async () => {
+    const execute = vi.fn().mockResolvedValue({
+      rows: [{ ID: 1, NAME: 'Ada', CREATED: '2024-01-01 09:30:00', PRICE: 9.99, NOTES: 'x' }],
+      metaData: [
+        { name: 'ID', dbTypeName: 'NUMBER', nullable: false, precision: 10, scale: 0 },
+        { name: 'NAME', dbTypeName: 'VARCHAR2', nullable: true, byteSize: 100 },
+        { name: 'CREATED', dbTypeName: 'TIMESTAMP', nullable: true, precision: 6 },
+        { name: 'PRICE', dbTypeName: 'NUMBER', nullable: true, precision: 0, scale: -127 },
+        { name: 'NOTES', dbTypeName: 'CLOB', nullable: true },
+      ],
+    });
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn() } as any);
+
+    const result = await executeQuery('SELECT id, name, created, price, notes FROM products');
+
+    expect(result.columns).toEqual(['ID', 'NAME', 'CREATED', 'PRICE', 'NOTES']);
+    expect(result.columnMetadata).toEqual([
+      { name: 'ID', type: 'NUMBER', nullable: false, precision: 10, scale: 0 },
+      { name: 'NAME', type: 'VARCHAR2', nullable: true, byteSize: 100 },
+      { name: 'CREATED', type: 'TIMESTAMP', nullable: true, precision: 6, conversion: 'datetime-string' },
+      { name: 'PRICE', type: 'NUMBER', nullable: true },
+      { name: 'NOTES', type: 'CLOB', nullable: true, conversion: 'text-preview' },
+    ]);
+  });
+
+  it('marks NUMBER columns returned as strings', async () => {
+    const execute = vi.fn().mockResolvedValue({
+      rows: [{ ACCOUNT_ID: '123456789012345678901' }],
+      metaData: [{ name: 'ACCOUNT_ID', dbTypeName: 'NUMBER', precision: 38, scale: 0 }],
+    });
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn() } as any);
+
+    const result = await executeQuery('SELECT account_id FROM accounts');
+
+    expect(result.columnMetadata).toEqual([
+      { name: 'ACCOUNT_ID', type: 'NUMBER', precision: 38, scale: 0, conversion: 'number-string' },
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    REDACTION_HASH_KEY: 'test-key-0123456789abcdef',
+  })
+);
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { getConnection } from '../src/database/oracleConnection.js';
+import { AccessPolicy, type AccessPolicyDefinition } from '../src/policy/accessPolicy.js';
+import { maskValue, redactRows } from '../src/policy/redaction.js';
+import { getSampleValues } from '../src/tools/discovery/getSampleValues.js';
+import { queryDatabase } from '../src/tools/queryDatabase.js';
+import { mockConfig } from './helpers/mocks.js';
+
+const POLICY: AccessPolicyDefinition = {
+  defaultAction: 'allow',
+  rules: [
+    { effect: 'mask', columns: ['*.SSN'], method: 'partial', keepLast: 4 },
+    { effect: 'mask', columns: ['CUSTOMERS.EMAIL'], method: 'hash', keepLast: 4 },
+    { effect: 'mask', columns: ['CUSTOMERS.CARD_NUMBER'], method: 'full', keepLast: 4 },
+    { effect: 'mask', columns: ['CUSTOMERS.BIRTH_DATE'], method: 'null', keepLast: 4 },
+  ],
+};
+
+describe('maskValue', () => {
+  it('replaces the whole value with the full method', () => {
+    expect(maskValue('4111 1111 1111 1234', { method: 'full', keepLast: 4 })).toBe('****');
+    expect(maskValue(12345, { method: 'full', keepLast: 4 })).toBe('****');
+  });
+
+  it('keeps separators and the last characters with the partial method', () => {
+    expect(maskValue('123-45-6789', { method: 'partial', keepLast: 4 })).toBe('***-**-6789');
+    expect(maskValue('4111 1111 1111 1234', { method: 'partial', keepLast: 4 })).toBe('**** **** **** 1234');
+  });
+
+  it('fully masks values too short to hide with the partial method', () => {
+    expect(maskValue('12345678', { method: 'partial', keepLast: 4 })).toBe('****');
+  });
+
+  it('fully masks binary and structured values with the partial method', () => {
+    const blob = { size: 2048, sha256: 'ab'.repeat(32), base64Prefix: 'JVBERi0xLjQK' };
+
+    expect(maskValue(blob, { method: 'partial', keepLast: 4 })).toBe('****');
+    expect(maskValue(Buffer.from('4111111111111234'), { method: 'partial', keepLast: 4 })).toBe('****');
+  });
+
+  it('hashes values stably', () => {
+    const first = maskValue('ana@example.com', { method: 'hash', keepLast: 4 });
+    expect(first).toMatch(/^[0-9a-f]{16}$/);
+    expect(maskValue('ana@example.com', { method: 'hash', keepLast: 4 })).toBe(first);
+    expect(maskValue('bob@example.com', { method: 'hash', keepLast: 4 })).not.toBe(first);
+    expect(maskValue({ size: 1 }, { method: 'hash', keepLast: 4 })).not.toBe(maskValue({ size: 2 }, { method: 'hash', keepLast: 4 }));
+  });
+
+  it('nulls values with the null method and leaves NULLs alone', () => {
+    expect(maskValue(new Date(), { method: 'null', keepLast: 4 })).toBeNull();
+    expect(maskValue(null, { method: 'full', keepLast: 4 })).toBeNull();
+  });
+});
+
+describe('redactRows', () => {
+  it('masks only the listed columns and does not modify the input', () => {
+    const rows = [{ ID: 1, SSN: '123-45-6789' }];
+    const masked = redactRows(rows, new Map([['SSN', { method: 'full' as const, keepLast: 4 }]]));
+
+    expect(masked).toEqual([{ ID: 1, SSN: '****' }]);
+    expect(rows[0].SSN).toBe('123-45-6789');
+  });
+});
+
+describe('AccessPolicy.resultMasks', () => {
+  const policy = new AccessPolicy(POLICY, 'APP');
+
+  it('applies table-qualified rules only when the query reads that table', () => {
+    const customers = policy.resultMasks('query_database', 'SELECT id, email FROM customers', ['ID', 'EMAIL']);
+    const suppliers = policy.resultMasks('query_database', 'SELECT id, email FROM suppliers', ['ID', 'EMAIL']);
+
+    expect([...customers.keys()]).toEqual(['EMAIL']);
+    expect(suppliers.size).toBe(0);
+  });
+
+  it('applies wildcard rules to any table', () => {
+    const masks = policy.resultMasks('query_database', 'SELECT e.ssn FROM employees e', ['SSN']);
+    expect(masks.get('SSN')).toEqual({ method: 'partial', keepLast: 4 });
+  });
+
+  it.each([
+    ['SELECT ssn AS tax_id FROM employees', ['TAX_ID']],
+    ['SELECT SUBSTR(ssn, 1, 3) AS prefix FROM employees', ['PREFIX']],
+    ["SELECT id FROM employees WHERE ssn LIKE '123%'", ['ID']],
+  ])('rejects %s because the masked column is not returned as itself', (sql, columns) => {
+    expect(() => policy.resultMasks('query_database', sql, columns)).toThrow(
+      /masked columns without returning them under their own name: SSN/
+    );
+  });
+
+  it('applies rules to tables read through CROSS and OUTER APPLY', () => {
+    const cross = policy.resultMasks('query_database', 'SELECT d.dummy, c.email FROM dual d CROSS APPLY customers c', ['DUMMY', 'EMAIL']);
+    const outer = policy.resultMasks(
+      'query_database',
+      'SELECT d.dummy, c.email FROM dual d OUTER APPLY (SELECT email FROM customers) c',
+      ['DUMMY', 'EMAIL']
+    );
+
+    expect([...cross.keys()]).toEqual(['EMAIL']);
+    expect([...outer.keys()]).toEqual(['EMAIL']);
+  });
+
+  it.each(['SELECT JSON_OBJECT(*) FROM customers', 'SELECT JSON_ARRAY(c.*) FROM customers c'])(
+    'rejects %s because * folds masked columns into one value',
+    (sql) => {
+      expect(() => policy.resultMasks('query_database', sql, ['DOC'])).toThrow(
+        /passes \* to a function on CUSTOMERS, which has masked columns/
+      );
+    }
+  );
+
+  it('allows * passed to a function on tables without masked columns', () => {
+    const customersOnly = new AccessPolicy(
+      { defaultAction: 'allow', rules: [{ effect: 'mask', columns: ['CUSTOMERS.EMAIL'], method: 'hash', keepLast: 4 }] },
+      'APP'
+    );
+    expect(customersOnly.resultMasks('query_database', 'SELECT JSON_OBJECT(*) AS doc FROM suppliers', ['DOC']).size).toBe(0);
+  });
+
+  it('accepts a masked column used in WHERE when it is also selected', () => {
+    expect(() =>
+      policy.resultMasks('query_database', 'SELECT id, ssn FROM employees WHERE ssn IS NOT NULL', ['ID', 'SSN'])
+    ).not.toThrow();
+  });
+});
+
+describe('tools with mask rules', () => {
+  const execute = vi.fn();
+
+  beforeAll(() => {
+    const file = join(mkdtempSync(join(tmpdir(), 'redaction-policy-')), 'policy.json');
+    writeFileSync(file, JSON.stringify(POLICY));
+    mockConfig.ACCESS_POLICY_FILE = file;
+  });
+
+  beforeEach(() => {
+    execute.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn() } as any);
+  });
+
+  it('query_database masks rows before returning them', async () => {
+    execute.mockResolvedValueOnce({
+      rows: [
+        { ID: 1, CARD_NUMBER: '4111111111111234', BIRTH_DATE: new Date('1990-01-01'), SSN: '123-45-6789' },
+        { ID: 2, CARD_NUMBER: null, BIRTH_DATE: null, SSN: null },
+      ],
+      metaData: [{ name: 'ID' }, { name: 'CARD_NUMBER' }, { name: 'BIRTH_DATE' }, { name: 'SSN' }],
+    });
+
+    const result = await queryDatabase({ query: 'SELECT id, card_number, birth_date, ssn FROM customers' });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.rows).toEqual([
+      { ID: 1, CARD_NUMBER: '****', BIRTH_DATE: null, SSN: '***-**-6789' },
+      { ID: 2, CARD_NUMBER: null, BIRTH_DATE: null, SSN: null },
+    ]);
+    expect(result.data!.maskedColumns).toEqual(['CARD_NUMBER', 'BIRTH_DATE', 'SSN']);
+    expect(result.data!.columnMetadata!.filter((column) => column.masked).map((column) => column.name)).toEqual([
+      'CARD_NUMBER',
+      'BIRTH_DATE',
+      'SSN',
+    ]);
+  });
+
+  it('query_database refuses aliased masked columns', async () => {
+    execute.mockResolvedValueOnce({
+      rows: [{ CARD: '4111111111111234' }],
+      metaData: [{ name: 'CARD' }],
+    });
+
+    const result = await queryDatabase({ query: 'SELECT card_number AS card FROM customers' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('CARD_NUMBER');
+    expect(JSON.stringify(result)).not.toContain('4111111111111234');
+  });
+
+  it('getSampleValues masks sample values', async () => {
+    execute
+      .mockResolvedValueOnce({ rows: [{ SSN: '123-45-6789' }, { SSN: '987-65-4321' }] })
+      .mockResolvedValueOnce({ rows: [{ DISTINCT_COUNT: 2 }] })
+      .mockResolvedValueOnce({ rows: [{ NULL_COUNT: 0 }] });
+
+    const result = await getSampleValues({ tableName: 'employees', columnNames: ['ssn'], sampleSize: 3 });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      { columnName: 'SSN', sampleValues: ['***-**-6789', '***-**-4321'], distinctCount: 2, nullCount: 0, masked: true },
+    ]);
+  });
+});
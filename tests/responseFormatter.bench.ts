@@ -0,0 +1,45 @@
+import { beforeAll, bench, describe, vi } from 'vitest';
+
+// Run with `npm run bench`; `npm test` only picks up *.test.ts files
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule({ RESULT_RESOURCE_MAX: 0 }));
+
+import { formatToolResponse } from '../src/utils/responseFormatter.js';
+import { mockConfig } from './helpers/mocks.js';
+
+const ROW_COUNT = 100_000;
+const COLUMNS = ['ID', 'NAME', 'EMAIL', 'NOTE'];
+
+const rows = Array.from({ length: ROW_COUNT }, (_, i) => ({
+  ID: i,
+  NAME: `customer-${i}`,
+  EMAIL: `c${i}@example.com`,
+  NOTE: 'N'.repeat(15),
+}));
+
+const result = { success: true, data: { rows, rowCount: ROW_COUNT, columns: COLUMNS } };
+
+describe('formatToolResponse, 100k rows over a 50k character budget', () => {
+  beforeAll(() => {
+    mockConfig.MCP_MAX_ROWS_IN_RESPONSE = ROW_COUNT;
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 50000;
+  });
+
+  bench('json', () => {
+    formatToolResponse('query_database', result, 'json');
+  });
+});
+
+describe('formatToolResponse, 100k rows that fit', () => {
+  beforeAll(() => {
+    mockConfig.MCP_MAX_ROWS_IN_RESPONSE = ROW_COUNT;
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 20_000_000;
+  });
+
+  for (const encoding of ['json', 'columnar', 'csv', 'markdown'] as const) {
+    bench(encoding, () => {
+      formatToolResponse('query_database', result, encoding);
+    });
+  }
+});
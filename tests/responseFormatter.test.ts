@@ -1,31 +1,22 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 // Mocks must be hoisted before module imports.
-vi.mock('../src/utils/logger.js', () => ({
-  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
-  audit: vi.fn(),
-  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
-}));
-
-// vi.hoisted ensures the value is available inside the vi.mock factory,
-// which is hoisted to run before any top-level code.
-const MOCK_CONFIG = vi.hoisted(() => ({
-  MCP_MAX_STRING_LENGTH: 20,
-  MCP_MAX_ROWS_IN_RESPONSE: 3,
-  MCP_MAX_RESPONSE_CHARS: 10000,
-  MAX_ROWS_PER_QUERY: 1000,
-  ORACLE_POOL_MIN: 2,
-  ORACLE_POOL_MAX: 10,
-  ENFORCE_READ_ONLY_QUERIES: true,
-  ENABLE_AUDIT_LOGGING: false,
-}));
-
-vi.mock('../src/config.js', () => ({
-  default: () => MOCK_CONFIG,
-  configSchema: {},
-}));
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
 
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    // Oversized responses are checked here without spilling to result resources
+    RESULT_RESOURCE_MAX: 0,
+    MCP_MAX_STRING_LENGTH: 20,
+    MCP_MAX_ROWS_IN_RESPONSE: 3,
+    MCP_MAX_RESPONSE_CHARS: 10000,
+  })
+);
+
+import { decodeCursor, encodeCursor } from '../src/tools/pagination.js';
 import { formatToolResponse } from '../src/utils/responseFormatter.js';
+import { setTokenEstimator } from '../src/utils/tokens.js';
+import { mockConfig, resetMockConfig } from './helpers/mocks.js';
 
 describe('formatToolResponse', () => {
   it('returns a valid JSON string for a simple result', () => {
@@ -121,4 +112,364 @@ describe('formatToolResponse', () => {
     expect(parsed.data.rows[0].active).toBe(true);
     expect(parsed.data.rows[0].value).toBeNull();
   });
+
+  it('moves a paginated nextCursor back to the first dropped row', () => {
+    const rows = Array.from({ length: 10 }, (_, i) => ({ id: i }));
+    const result = formatToolResponse('query_database', {
+      success: true,
+      data: { rows, rowCount: 10, columns: ['id'] },
+      pagination: {
+        cursor: encodeCursor('c1', 20),
+        offset: 20,
+        pageSize: 10,
+        returnedRows: 10,
+        hasMore: false,
+        nextCursor: null,
+      },
+    });
+    const parsed = JSON.parse(result);
+    expect(parsed.data.rows).toHaveLength(3);
+    expect(parsed.pagination.returnedRows).toBe(3);
+    expect(parsed.pagination.hasMore).toBe(true);
+    expect(decodeCursor(parsed.pagination.nextCursor)).toEqual({ id: 'c1', offset: 23 });
+    expect(parsed._truncation.continuation).toContain('cursor');
+  });
+});
+
+describe('formatToolResponse encodings', () => {
+  const queryResult = {
+    success: true,
+    data: {
+      rows: [
+        { ID: 1, NAME: 'Smith, Ann', NOTE: 'a|b' },
+        { ID: 2, NAME: null, NOTE: 'line1\nline2' },
+      ],
+      rowCount: 2,
+      columns: ['ID', 'NAME', 'NOTE'],
+    },
+  };
+
+  afterEach(() => {
+    resetMockConfig();
+  });
+
+  it('writes columnar rows as value arrays in result column order', () => {
+    const parsed = JSON.parse(formatToolResponse('query_database', queryResult, 'columnar'));
+    expect(parsed.data.columns).toEqual(['ID', 'NAME', 'NOTE']);
+    expect(parsed.data.rows).toEqual([
+      [1, 'Smith, Ann', 'a|b'],
+      [2, null, 'line1\nline2'],
+    ]);
+    expect(parsed._encoding).toBe('columnar');
+    expect(parsed._truncation.encoding).toBe('columnar');
+  });
+
+  it('writes rows as CSV text', () => {
+    const parsed = JSON.parse(formatToolResponse('query_database', queryResult, 'csv'));
+    expect(parsed.data.rows).toBe('ID,NAME,NOTE\r\n1,"Smith, Ann",a|b\r\n2,,"line1\nline2"\r\n');
+  });
+
+  it('writes rows as a Markdown table', () => {
+    const parsed = JSON.parse(formatToolResponse('query_database', queryResult, 'markdown'));
+    expect(parsed.data.rows).toBe(
+      '| ID | NAME | NOTE |\n| --- | --- | --- |\n| 1 | Smith, Ann | a\\|b |\n| 2 |  | line1<br>line2 |\n'
+    );
+  });
+
+  it('uses MCP_RESPONSE_ENCODING when the call does not choose', () => {
+    mockConfig.MCP_RESPONSE_ENCODING = 'csv';
+    const parsed = JSON.parse(formatToolResponse('query_database', queryResult));
+    expect(typeof parsed.data.rows).toBe('string');
+  });
+
+  it('encodes discovery arrays and the record lists inside objects', () => {
+    const tables = [{ tableName: 'ORDERS', rowCount: 10 }, { tableName: 'CUSTOMERS', comments: 'People' }];
+    const listed = JSON.parse(formatToolResponse('listTables', { success: true, data: tables }, 'columnar'));
+    expect(listed.data).toEqual({
+      columns: ['tableName', 'rowCount', 'comments'],
+      rows: [
+        ['ORDERS', 10, null],
+        ['CUSTOMERS', null, 'People'],
+      ],
+    });
+
+    const described = JSON.parse(
+      formatToolResponse(
+        'describeTable',
+        { success: true, data: { tableName: 'ORDERS', columns: [{ columnName: 'ID', dataType: 'NUMBER' }], constraints: [] } },
+        'csv'
+      )
+    );
+    expect(described.data).toEqual({ tableName: 'ORDERS', columns: 'columnName,dataType\r\nID,NUMBER\r\n', constraints: [] });
+  });
+
+  it('keeps truncation accounting for text encodings', () => {
+    const rows = Array.from({ length: 10 }, (_, i) => ({ id: i, text: 'Y'.repeat(100) }));
+    const parsed = JSON.parse(
+      formatToolResponse('query_database', { success: true, data: { rows, rowCount: 10, columns: ['id', 'text'] } }, 'markdown')
+    );
+    expect(parsed._truncation).toMatchObject({ droppedRows: 7, returnedRows: 3, truncatedStringFields: 3, encoding: 'markdown' });
+    expect(parsed.data.rows.trimEnd().split('\n')).toHaveLength(5);
+  });
+});
+
+describe('formatToolResponse fitting to MCP_MAX_RESPONSE_CHARS', () => {
+  afterEach(() => {
+    resetMockConfig();
+  });
+
+  it('keeps the largest prefix of rows that fits and reports the rest', () => {
+    mockConfig.MCP_MAX_ROWS_IN_RESPONSE = 100;
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 2000;
+    const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, name: `customer-${i}` }));
+
+    const result = formatToolResponse('query_database', { success: true, data: { rows, rowCount: 100, columns: ['id', 'name'] } });
+    const parsed = JSON.parse(result);
+    const returned = parsed.data.rows.length;
+
+    expect(result.length).toBeLessThanOrEqual(2000);
+    // One more row (about 35 characters) would not have fit
+    expect(result.length).toBeGreaterThan(2000 - 40);
+    expect(parsed.data.rows).toEqual(rows.slice(0, returned));
+    expect(parsed._fit).toMatchObject({ droppedRows: 100 - returned });
+    expect(parsed._fit.shortenedColumns).toBeUndefined();
+    expect(parsed._truncation).toMatchObject({ originalRows: 100, returnedRows: returned, droppedRows: 100 - returned });
+  });
+
+  it('shortens the widest string column before dropping rows', () => {
+    mockConfig.MCP_MAX_STRING_LENGTH = 500;
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 1500;
+    const rows = Array.from({ length: 3 }, (_, i) => ({ id: i, name: `name-${i}`, body: 'B'.repeat(400) }));
+
+    const parsed = JSON.parse(
+      formatToolResponse('query_database', { success: true, data: { rows, rowCount: 3, columns: ['id', 'name', 'body'] } })
+    );
+
+    expect(parsed.data.rows).toHaveLength(3);
+    expect(parsed.data.rows[0].name).toBe('name-0');
+    const { maxLength } = parsed._fit.shortenedColumns.body;
+    expect(maxLength).toBeLessThan(400);
+    expect(parsed.data.rows[0].body).toBe(`${'B'.repeat(maxLength)}... [truncated ${400 - maxLength} chars]`);
+    expect(parsed._fit).toMatchObject({ droppedRows: 0, shortenedColumns: { body: { shortenedValues: 3 } } });
+    expect(parsed._truncation).toMatchObject({ returnedRows: 3, truncatedStringFields: 3 });
+  });
+
+  it('drops the widest column when not even one row fits with it', () => {
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 1000;
+    const rows = [{ ID: 1, PAYLOAD: { size: 1, parts: Array.from({ length: 200 }, (_, i) => i) } }];
+
+    const parsed = JSON.parse(
+      formatToolResponse('query_database', { success: true, data: { rows, rowCount: 1, columns: ['ID', 'PAYLOAD'] } })
+    );
+
+    expect(parsed.data.rows).toEqual([{ ID: 1 }]);
+    expect(parsed.data.columns).toEqual(['ID']);
+    expect(parsed._fit).toMatchObject({ droppedColumns: ['PAYLOAD'], droppedRows: 0 });
+  });
+
+  it('moves a paginated nextCursor to the first row left out by fitting', () => {
+    mockConfig.MCP_MAX_ROWS_IN_RESPONSE = 100;
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 1500;
+    const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, label: `row-${i}` }));
+
+    const result = {
+      success: true,
+      data: { rows, rowCount: 100, columns: ['id', 'label'] },
+      pagination: { cursor: encodeCursor('c1', 0), offset: 0, pageSize: 100, returnedRows: 100, hasMore: false, nextCursor: null },
+    };
+
+    const parsed = JSON.parse(formatToolResponse('query_database', result, 'columnar'));
+    const returned = parsed.data.rows.length;
+
+    expect(returned).toBeGreaterThan(0);
+    expect(returned).toBeLessThan(100);
+    expect(parsed.pagination).toMatchObject({ returnedRows: returned, hasMore: true });
+    expect(decodeCursor(parsed.pagination.nextCursor)).toEqual({ id: 'c1', offset: returned });
+    expect(parsed._truncation.continuation).toContain('cursor');
+  });
+});
+
+describe('formatToolResponse result summaries', () => {
+  const columnMetadata = [
+    { name: 'ID', type: 'NUMBER' },
+    { name: 'STATUS', type: 'VARCHAR2' },
+    { name: 'CREATED', type: 'DATE', conversion: 'datetime-string' },
+  ];
+  const rows = Array.from({ length: 10 }, (_, i) => ({
+    ID: i + 1,
+    STATUS: i < 6 ? 'OPEN' : 'CLOSED',
+    CREATED: `2024-01-${String(10 - i).padStart(2, '0')} 00:00:00`,
+  }));
+
+  it('summarizes every fetched row when rows are dropped', () => {
+    const parsed = JSON.parse(
+      formatToolResponse('query_database', {
+        success: true,
+        data: { rows, rowCount: 10, columns: ['ID', 'STATUS', 'CREATED'], columnMetadata },
+      })
+    );
+
+    expect(parsed.data.rows).toHaveLength(3);
+    expect(parsed._resultSummary).toEqual({
+      rowCount: 10,
+      columns: {
+        ID: { kind: 'number', nullCount: 0, min: 1, max: 10, avg: 5.5 },
+        STATUS: {
+          kind: 'text',
+          nullCount: 0,
+          distinctCount: 2,
+          topValues: [
+            { value: 'OPEN', count: 6 },
+            { value: 'CLOSED', count: 4 },
+          ],
+        },
+        CREATED: { kind: 'date', nullCount: 0, min: '2024-01-01 00:00:00', max: '2024-01-10 00:00:00' },
+      },
+    });
+  });
+
+  it('leaves the summary out when every row is returned', () => {
+    const parsed = JSON.parse(
+      formatToolResponse('query_database', {
+        success: true,
+        data: { rows: rows.slice(0, 3), rowCount: 3, columns: ['ID', 'STATUS', 'CREATED'], columnMetadata },
+      })
+    );
+
+    expect(parsed._resultSummary).toBeUndefined();
+  });
+});
+
+describe('formatToolResponse token budgets', () => {
+  const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, name: `customer-${i}` }));
+  const result = { success: true, data: { rows, rowCount: 100, columns: ['id', 'name'] } };
+
+  afterEach(() => {
+    resetMockConfig();
+    setTokenEstimator(undefined);
+  });
+
+  it('reports estimated tokens used and saved', () => {
+    const parsed = JSON.parse(formatToolResponse('query_database', result));
+
+    expect(parsed._truncation).toMatchObject({ returnedRows: 3, tokenEstimator: 'heuristic' });
+    expect(parsed._truncation.maxResponseTokens).toBeUndefined();
+    expect(parsed._truncation.estimatedTokens).toBeGreaterThan(0);
+    // 97 rows left out by MCP_MAX_ROWS_IN_RESPONSE, at several tokens each
+    expect(parsed._truncation.estimatedTokensSaved).toBeGreaterThan(97 * 3);
+  });
+
+  it('keeps the rows that fit a tool token budget', () => {
+    mockConfig.MCP_MAX_ROWS_IN_RESPONSE = 100;
+    mockConfig.MCP_TOOL_TOKEN_BUDGETS = { query_database: 400 };
+
+    const parsed = JSON.parse(formatToolResponse('query_database', result));
+    const returned = parsed.data.rows.length;
+
+    expect(returned).toBeGreaterThan(0);
+    expect(returned).toBeLessThan(100);
+    expect(parsed.data.rows).toEqual(rows.slice(0, returned));
+    expect(parsed._truncation).toMatchObject({ maxResponseTokens: 400, returnedRows: returned });
+    expect(parsed._truncation.estimatedTokens).toBeLessThanOrEqual(400);
+    expect(parsed._fit.warning).toContain('token budget (400)');
+
+    // Other tools fall back to MCP_MAX_RESPONSE_TOKENS, unset here
+    const other = JSON.parse(formatToolResponse('other_tool', result));
+    expect(other.data.rows).toHaveLength(100);
+  });
+
+  it('counts with a plugged-in estimator', () => {
+    mockConfig.MCP_MAX_RESPONSE_TOKENS = 3000;
+    setTokenEstimator({ name: 'one-per-char', estimate: (text) => text.length });
+
+    const text = formatToolResponse('query_database', result);
+    const parsed = JSON.parse(text);
+
+    expect(parsed._truncation.tokenEstimator).toBe('one-per-char');
+    expect(text.length).toBeLessThanOrEqual(3000);
+    // The estimate covers the whole response, including the estimate itself
+    expect(Math.abs(parsed._truncation.estimatedTokens - text.length)).toBeLessThanOrEqual(4);
+  });
+
+  it('returns a structured error when a response without rows is over budget', () => {
+    mockConfig.MCP_MAX_RESPONSE_TOKENS = 100;
+
+    const parsed = JSON.parse(formatToolResponse('describeTable', { success: true, data: { comment: 'word '.repeat(500) } }));
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error).toContain('token budget (100)');
+    expect(parsed.remediation.exampleValues.MCP_TOOL_TOKEN_BUDGETS).toBe('describeTable=200');
+  });
+});
+
+describe('formatToolResponse with 100k-row inputs', () => {
+  const ROW_COUNT = 100_000;
+
+  afterEach(() => {
+    resetMockConfig();
+  });
+
+  function wideRows(): Record<string, unknown>[] {
+    return Array.from({ length: ROW_COUNT }, (_, i) => ({
+      ID: i,
+      NAME: `customer-${i}`,
+      EMAIL: `c${i}@example.com`,
+      NOTE: 'N'.repeat(15),
+    }));
+  }
+
+  it('stops serializing once the character budget is used up and summarizes every row', () => {
+    mockConfig.MCP_MAX_ROWS_IN_RESPONSE = ROW_COUNT;
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 50000;
+    const rows = wideRows();
+    // The summary reads every row once; any further read of a row past the
+    // budget means it was serialized
+    let reads = 0;
+    Object.defineProperty(rows[ROW_COUNT / 2], 'NAME', {
+      enumerable: true,
+      get: () => {
+        reads += 1;
+        if (reads > 1) throw new Error('row past the budget was serialized');
+        return `customer-${ROW_COUNT / 2}`;
+      },
+    });
+
+    const result = formatToolResponse('query_database', {
+      success: true,
+      data: { rows, rowCount: ROW_COUNT, columns: ['ID', 'NAME', 'EMAIL', 'NOTE'] },
+    });
+
+    const parsed = JSON.parse(result);
+    expect(result.length).toBeLessThanOrEqual(50000);
+    expect(parsed.data.rows).toEqual(rows.slice(0, parsed.data.rows.length));
+    expect(parsed._truncation).toMatchObject({ originalRows: ROW_COUNT, droppedRows: ROW_COUNT - parsed.data.rows.length });
+    expect(parsed._resultSummary.columns.ID).toEqual({ kind: 'number', nullCount: 0, min: 0, max: ROW_COUNT - 1, avg: (ROW_COUNT - 1) / 2 });
+    expect(reads).toBe(1);
+  });
+
+  it.each(['json', 'columnar', 'csv', 'markdown'] as const)('serializes each of 100k rows once as %s when they fit', (encoding) => {
+    mockConfig.MCP_MAX_ROWS_IN_RESPONSE = ROW_COUNT;
+    mockConfig.MCP_MAX_RESPONSE_CHARS = 20_000_000;
+    const rows = wideRows();
+    // Reads of one row's value; a second read means the row was serialized again
+    let reads = 0;
+    Object.defineProperty(rows[ROW_COUNT - 1], 'NAME', {
+      enumerable: true,
+      get: () => {
+        reads += 1;
+        return `customer-${ROW_COUNT - 1}`;
+      },
+    });
+
+    const result = formatToolResponse(
+      'query_database',
+      { success: true, data: { rows, rowCount: ROW_COUNT, columns: ['ID', 'NAME', 'EMAIL', 'NOTE'] } },
+      encoding
+    );
+
+    const parsed = JSON.parse(result);
+    expect(parsed._truncation).toMatchObject({ returnedRows: ROW_COUNT, droppedRows: 0 });
+    expect(parsed._fit).toBeUndefined();
+    expect(reads).toBe(1);
+  });
 });
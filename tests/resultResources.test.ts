@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    MCP_MAX_STRING_LENGTH: 50,
+    MCP_MAX_ROWS_IN_RESPONSE: 3,
+    MCP_MAX_RESPONSE_CHARS: 10000,
+    RESULT_RESOURCE_TTL_MS: 60000,
+    RESULT_RESOURCE_MAX: 2,
+  })
+);
+
+import { listResults, readResultPage, storeResult } from '../src/resources/results.js';
+import { formatToolResponse } from '../src/utils/responseFormatter.js';
+import { mockConfig, resetMockConfig } from './helpers/mocks.js';
+
+const ROWS = Array.from({ length: 8 }, (_, i) => ({ ID: i + 1, NAME: `name-${i + 1}` }));
+
+// A result whose non-row part alone is over MCP_MAX_RESPONSE_CHARS
+const OVERSIZED = {
+  success: true,
+  data: { rows: ROWS, rowCount: 8, columns: ['ID', 'NAME'], columnMetadata: [{ name: 'ID', type: 'NUMBER', note: 'M'.repeat(12000) }] },
+};
+
+describe('spilling oversized results to oracle://results', () => {
+  afterEach(() => {
+    resetMockConfig();
+  });
+
+  it('answers with a resource URI and the first rows instead of an error', () => {
+    const parsed = JSON.parse(formatToolResponse('query_database', OVERSIZED, 'json', { sessionId: 's1' }));
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data.rows).toEqual(ROWS.slice(0, 3));
+    expect(parsed.data.columnMetadata).toBeUndefined();
+    expect(parsed.resultResource).toMatchObject({ offset: 0, limit: 3, returnedRows: 3, totalRows: 8 });
+    expect(parsed.resultResource.uri).toMatch(/^oracle:\/\/results\/[0-9a-f-]{36}$/);
+    expect(parsed.resultResource.nextUri).toBe(`${parsed.resultResource.uri}?offset=3&limit=3`);
+  });
+
+  it('serves ranges of the stored rows to the session that produced them', () => {
+    const { resultResource } = JSON.parse(formatToolResponse('query_database', OVERSIZED, 'json', { sessionId: 's1' }));
+
+    const page = readResultPage(resultResource.nextUri, 's1');
+    expect(page.data.rows).toEqual(ROWS.slice(3, 6));
+    expect(page.data.columnMetadata).toEqual(OVERSIZED.data.columnMetadata);
+    expect(page.resultResource).toMatchObject({ offset: 3, returnedRows: 3, totalRows: 8 });
+    expect(readResultPage(`${resultResource.uri}?offset=6&limit=100`, 's1').resultResource).toMatchObject({
+      limit: 3,
+      returnedRows: 2,
+      nextUri: null,
+    });
+
+    expect(() => readResultPage(resultResource.uri, 's2')).toThrow('expired or unknown');
+    expect(listResults('s1').map((resource) => resource.uri)).toContain(resultResource.uri);
+    expect(listResults('s2').map((resource) => resource.uri)).not.toContain(resultResource.uri);
+  });
+
+  it('moves nextUri back when a resource page is fitted', () => {
+    const wide = { VALUES: Array.from({ length: 1000 }, (_, i) => i) };
+    const uri = storeResult({ tool: 'query_database', columns: ['VALUES'], rows: [wide, wide, wide] });
+
+    const parsed = JSON.parse(formatToolResponse('resources/read', readResultPage(uri), 'json', { spill: false }));
+
+    expect(parsed.data.rows).toHaveLength(2);
+    expect(parsed.resultResource).toMatchObject({ returnedRows: 2, nextUri: `${uri}?offset=2&limit=3` });
+  });
+
+  it.each(['?offset=-1', '?limit=abc'])('rejects %s', (query) => {
+    const uri = storeResult({ tool: 'query_database', columns: ['ID'], rows: ROWS });
+    expect(() => readResultPage(`${uri}${query}`)).toThrow('expected a non-negative integer');
+  });
+
+  it('keeps the structured error when RESULT_RESOURCE_MAX is 0', () => {
+    mockConfig.RESULT_RESOURCE_MAX = 0;
+
+    const parsed = JSON.parse(formatToolResponse('query_database', OVERSIZED));
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error).toContain('MCP_MAX_RESPONSE_CHARS');
+    expect(parsed.resultResource).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { ColumnMetadata } from '../src/database/types.js';
+import { summarizeRows } from '../src/utils/resultSummary.js';
+
+describe('summarizeRows', () => {
+  it('keeps exact NUMBER text for min and max', () => {
+    const rows = [{ AMOUNT: '12345678901234567890.5' }, { AMOUNT: '-.25' }, { AMOUNT: null }];
+    const metadata: ColumnMetadata[] = [{ name: 'AMOUNT', type: 'NUMBER', conversion: 'number-string' }];
+
+    const summary = summarizeRows(rows, ['AMOUNT'], metadata);
+
+    expect(summary.columns.AMOUNT).toMatchObject({
+      kind: 'number',
+      nullCount: 1,
+      min: '-.25',
+      max: '12345678901234567890.5',
+    });
+  });
+
+  it('lists at most five top values, cut to 50 characters', () => {
+    const rows = [
+      ...['A', 'A', 'A', 'B', 'B', 'C', 'D', 'E', 'F'].map((code) => ({ CODE: code })),
+      { CODE: 'X'.repeat(80) },
+    ];
+
+    const summary = summarizeRows(rows, ['CODE']);
+
+    expect(summary.columns.CODE).toEqual({
+      kind: 'text',
+      nullCount: 0,
+      distinctCount: 7,
+      topValues: [
+        { value: 'A', count: 3 },
+        { value: 'B', count: 2 },
+        { value: 'C', count: 1 },
+        { value: 'D', count: 1 },
+        { value: 'E', count: 1 },
+      ],
+    });
+    expect(summarizeRows([{ CODE: 'X'.repeat(80) }], ['CODE']).columns.CODE).toMatchObject({
+      topValues: [{ value: `${'X'.repeat(50)}...`, count: 1 }],
+    });
+  });
+
+  it('orders ISO timestamps with offsets by instant', () => {
+    const rows = [{ AT: '2024-03-01T10:00:00+05:00' }, { AT: '2024-03-01T06:00:00+00:00' }];
+    const metadata: ColumnMetadata[] = [{ name: 'AT', type: 'TIMESTAMP WITH TIME ZONE', conversion: 'datetime-string' }];
+
+    expect(summarizeRows(rows, ['AT'], metadata).columns.AT).toEqual({
+      kind: 'date',
+      nullCount: 0,
+      min: '2024-03-01T10:00:00+05:00',
+      max: '2024-03-01T06:00:00+00:00',
+    });
+  });
+
+  it('reports only counts for masked and binary columns', () => {
+    const rows = [{ SSN: '****', PHOTO: { size: 10, sha256: 'ab' } }, { SSN: '****', PHOTO: null }];
+    const metadata: ColumnMetadata[] = [
+      { name: 'SSN', type: 'VARCHAR2', masked: true },
+      { name: 'PHOTO', type: 'BLOB', conversion: 'binary-summary' },
+    ];
+
+    const summary = summarizeRows(rows, ['SSN', 'PHOTO'], metadata);
+
+    expect(summary.columns).toEqual({
+      SSN: { kind: 'text', nullCount: 0, distinctCount: 1 },
+      PHOTO: { kind: 'other', nullCount: 1 },
+    });
+  });
+});
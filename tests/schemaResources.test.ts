@@ -0,0 +1,136 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { getConnection } from '../src/database/oracleConnection.js';
+import { isSchemaUri, listSchemaResources, readSchemaResource, SCHEMA_INDEX_URI } from '../src/resources/schema.js';
+import { schemaCache } from '../src/tools/discovery/cache.js';
+import { formatToolResponse } from '../src/utils/responseFormatter.js';
+import { mockConfig } from './helpers/mocks.js';
+
+const OBJECTS = [
+  { OBJECT_NAME: 'CUSTOMERS', OBJECT_TYPE: 'TABLE', COMMENTS: 'One row per customer' },
+  { OBJECT_NAME: 'PAYROLL', OBJECT_TYPE: 'TABLE', COMMENTS: null },
+  { OBJECT_NAME: 'V_ACTIVE_CUSTOMERS', OBJECT_TYPE: 'VIEW', COMMENTS: null },
+];
+
+describe('schema resources', () => {
+  const execute = vi.fn();
+
+  beforeAll(() => {
+    const dir = mkdtempSync(join(tmpdir(), 'schema-resources-'));
+    const policyFile = join(dir, 'policy.json');
+    writeFileSync(policyFile, JSON.stringify({ defaultAction: 'allow', rules: [{ effect: 'deny', objects: ['PAYROLL'] }] }));
+    mockConfig.ACCESS_POLICY_FILE = policyFile;
+  });
+
+  beforeEach(() => {
+    schemaCache.clear();
+    execute.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn(), break: vi.fn() } as any);
+  });
+
+  it('lists the index and every accessible table and view, once per cache lifetime', async () => {
+    execute.mockResolvedValueOnce({ rows: OBJECTS });
+
+    const resources = await listSchemaResources();
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      'oracle://schema',
+      'oracle://schema/CUSTOMERS',
+      'oracle://schema/V_ACTIVE_CUSTOMERS',
+    ]);
+    expect(resources[1].description).toBe('One row per customer');
+    expect(resources[2].description).toContain('View V_ACTIVE_CUSTOMERS');
+
+    await listSchemaResources();
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the index as a list of objects', async () => {
+    execute.mockResolvedValueOnce({ rows: OBJECTS });
+
+    const result = await readSchemaResource(SCHEMA_INDEX_URI);
+
+    expect(result.data).toEqual([
+      { name: 'CUSTOMERS', type: 'TABLE', comments: 'One row per customer', uri: 'oracle://schema/CUSTOMERS' },
+      { name: 'V_ACTIVE_CUSTOMERS', type: 'VIEW', uri: 'oracle://schema/V_ACTIVE_CUSTOMERS' },
+    ]);
+  });
+
+  it('pages an index larger than MCP_MAX_ROWS_IN_RESPONSE without losing objects', async () => {
+    const many = Array.from({ length: 250 }, (_, i) => ({
+      OBJECT_NAME: `T${String(i).padStart(3, '0')}`,
+      OBJECT_TYPE: 'TABLE',
+      COMMENTS: null,
+    }));
+    execute.mockResolvedValueOnce({ rows: many });
+
+    const names: string[] = [];
+    const pages: unknown[] = [];
+    let uri: string | null = SCHEMA_INDEX_URI;
+    while (uri) {
+      // The same formatting resources/read applies
+      const parsed = JSON.parse(formatToolResponse('resources/read', await readSchemaResource(uri), undefined, { spill: false }));
+      names.push(...parsed.data.map((object: { name: string }) => object.name));
+      pages.push(parsed.page);
+      uri = parsed.page.nextUri;
+    }
+
+    expect(names).toEqual(many.map((row) => row.OBJECT_NAME));
+    expect(pages).toEqual([
+      { offset: 0, limit: 100, returnedObjects: 100, totalObjects: 250, nextUri: 'oracle://schema?offset=100&limit=100' },
+      { offset: 100, limit: 100, returnedObjects: 100, totalObjects: 250, nextUri: 'oracle://schema?offset=200&limit=100' },
+      { offset: 200, limit: 100, returnedObjects: 50, totalObjects: 250, nextUri: null },
+    ]);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads an index range and caps the limit at MCP_MAX_ROWS_IN_RESPONSE', async () => {
+    execute.mockResolvedValueOnce({ rows: OBJECTS });
+
+    const range = await readSchemaResource('oracle://schema?offset=1&limit=500');
+
+    expect(range.data).toEqual([{ name: 'V_ACTIVE_CUSTOMERS', type: 'VIEW', uri: 'oracle://schema/V_ACTIVE_CUSTOMERS' }]);
+    expect(range.page).toMatchObject({ offset: 1, limit: 100, totalObjects: 2, nextUri: null });
+    await expect(readSchemaResource('oracle://schema?offset=-1')).rejects.toThrow('Invalid offset "-1"');
+  });
+
+  it('reads a table as its describeTable output', async () => {
+    execute
+      .mockResolvedValueOnce({
+        rows: [{ COLUMN_NAME: 'ID', DATA_TYPE: 'NUMBER', NULLABLE: 'N', DATA_PRECISION: 10, COMMENTS: 'Customer key' }],
+      })
+      .mockResolvedValueOnce({ rows: [{ CONSTRAINT_NAME: 'PK_CUSTOMERS', CONSTRAINT_TYPE: 'P', COLUMN_NAME: 'ID', POSITION: 1 }] });
+
+    const result = await readSchemaResource('oracle://schema/customers');
+
+    expect(result.data).toEqual({
+      tableName: 'CUSTOMERS',
+      columns: [{ columnName: 'ID', dataType: 'NUMBER', nullable: false, dataPrecision: 10, comments: 'Customer key' }],
+      constraints: [{ constraintName: 'PK_CUSTOMERS', constraintType: 'PRIMARY_KEY', columns: ['ID'] }],
+    });
+  });
+
+  it('reports denied tables like missing ones', async () => {
+    await expect(readSchemaResource('oracle://schema/PAYROLL')).rejects.toThrow('not found or not accessible');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('recognizes only schema URIs', () => {
+    expect(isSchemaUri('oracle://schema')).toBe(true);
+    expect(isSchemaUri('oracle://schema?offset=100&limit=100')).toBe(true);
+    expect(isSchemaUri('oracle://schema/CUSTOMERS')).toBe(true);
+    expect(isSchemaUri('oracle://schemas')).toBe(false);
+    expect(isSchemaUri('oracle://results/abc')).toBe(false);
+  });
+});
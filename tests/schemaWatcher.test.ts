@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { getConnection } from '../src/database/oracleConnection.js';
+import { pollSchemaChanges, stopSchemaWatcher, watchSchemaChanges } from '../src/resources/schemaWatcher.js';
+import { schemaCache } from '../src/tools/discovery/cache.js';
+
+const ddlRows = (times: Record<string, string>) =>
+  Object.entries(times).map(([name, time]) => ({ OBJECT_NAME: name, LAST_DDL_TIME: time }));
+
+describe('schema change watcher', () => {
+  const execute = vi.fn();
+
+  beforeEach(() => {
+    stopSchemaWatcher();
+    schemaCache.clear();
+    execute.mockReset();
+    vi.mocked(getConnection).mockResolvedValue({ execute, close: vi.fn(), break: vi.fn() } as any);
+  });
+
+  it('records a baseline on the first poll and reports nothing', async () => {
+    const listener = vi.fn();
+    const unwatch = watchSchemaChanges(listener);
+    execute.mockResolvedValue({ rows: ddlRows({ CUSTOMERS: '2026-01-01 10:00:00' }) });
+
+    expect(await pollSchemaChanges()).toBeUndefined();
+    expect(await pollSchemaChanges()).toEqual({ changed: [], created: [], dropped: [] });
+    expect(listener).not.toHaveBeenCalled();
+    unwatch();
+  });
+
+  it('reports changed, created and dropped objects to listeners', async () => {
+    const listener = vi.fn();
+    const unwatch = watchSchemaChanges(listener);
+    execute
+      .mockResolvedValueOnce({ rows: ddlRows({ CUSTOMERS: '2026-01-01 10:00:00', ORDERS: '2026-01-01 10:00:00', OLD_LOG: '2026-01-01 10:00:00' }) })
+      .mockResolvedValueOnce({ rows: ddlRows({ CUSTOMERS: '2026-01-02 09:30:00', ORDERS: '2026-01-01 10:00:00', INVOICES: '2026-01-02 09:31:00' }) });
+
+    await pollSchemaChanges();
+    const changes = await pollSchemaChanges();
+
+    expect(changes).toEqual({ changed: ['CUSTOMERS'], created: ['INVOICES'], dropped: ['OLD_LOG'] });
+    expect(listener).toHaveBeenCalledWith(changes);
+    unwatch();
+  });
+
+  it('drops stale cache entries for changed objects and every listing', async () => {
+    execute
+      .mockResolvedValueOnce({ rows: ddlRows({ CUSTOMERS: '2026-01-01 10:00:00', ORDERS: '2026-01-01 10:00:00' }) })
+      .mockResolvedValueOnce({ rows: ddlRows({ CUSTOMERS: '2026-01-02 09:30:00', ORDERS: '2026-01-01 10:00:00' }) });
+    await pollSchemaChanges();
+
+    for (const key of [
+      'describeTable:CUSTOMERS:true',
+      'describeTable:ORDERS:true',
+      'tableRelations:ORDERS',
+      'listTables:false',
+      'schemaResources:index',
+    ]) {
+      schemaCache.set(key, {});
+    }
+    await pollSchemaChanges();
+
+    expect(schemaCache.keys()).toEqual(['describeTable:ORDERS:true']);
+  });
+
+  it('keeps the cache when nothing changed', async () => {
+    execute.mockResolvedValue({ rows: ddlRows({ CUSTOMERS: '2026-01-01 10:00:00' }) });
+    await pollSchemaChanges();
+    schemaCache.set('describeTable:CUSTOMERS:true', {});
+
+    await pollSchemaChanges();
+
+    expect(schemaCache.has('describeTable:CUSTOMERS:true')).toBe(true);
+  });
+});
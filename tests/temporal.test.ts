@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const driver = vi.hoisted(() => ({
+  connection: { execute: vi.fn(), close: vi.fn(), break: vi.fn() },
+  createPool: vi.fn(),
+}));
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule({ createPool: driver.createPool }));
+
+vi.mock('../src/config.js', async () =>
+  (await import('./helpers/mocks.js')).configModule({
+    ORACLE_USER: 'reader',
+    ORACLE_TIMEZONE: 'America/New_York',
+    TEMPORAL_FORMAT: 'iso',
+    NUMBER_AS_STRING: 'never',
+  })
+);
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { getOrCreatePool } from '../src/database/oracleConnection.js';
+import { executeQuery } from '../src/database/queryExecutor.js';
+import { formatIsoInstant, formatIsoText, formatIsoWallClock, intervalToIso, temporalFetchType } from '../src/database/temporal.js';
+import { mockConfig, resetMockConfig } from './helpers/mocks.js';
+
+describe('intervalToIso', () => {
+  it.each([
+    [{ days: 1, hours: 2, minutes: 3, seconds: 4, fseconds: 500000000 }, 'P1DT2H3M4.5S'],
+    [{ days: 0, hours: 0, minutes: 0, seconds: 0, fseconds: 123 }, 'PT0.000000123S'],
+    [{ days: 3, hours: 0, minutes: 0, seconds: 0, fseconds: 0 }, 'P3D'],
+    [{ days: 0, hours: -1, minutes: -30, seconds: 0, fseconds: 0 }, '-PT1H30M'],
+    [{ days: 0, hours: 0, minutes: 0, seconds: 0, fseconds: 0 }, 'PT0S'],
+    [{ years: 1, months: 2 }, 'P1Y2M'],
+    [{ years: -2, months: 0 }, '-P2Y'],
+    [{ years: 0, months: 0 }, 'P0M'],
+  ])('%o -> %s', (value, expected) => {
+    expect(intervalToIso(value)).toBe(expected);
+  });
+
+  it('keeps NULL', () => {
+    expect(intervalToIso(null)).toBeNull();
+  });
+});
+
+describe('formatIsoWallClock', () => {
+  it('prints the local fields the driver built the Date from', () => {
+    const value = new Date(2024, 2, 1, 14, 5, 9, 123);
+
+    expect(formatIsoWallClock(value, 0)).toBe('2024-03-01T14:05:09');
+    expect(formatIsoWallClock(value, 6)).toBe('2024-03-01T14:05:09.123');
+    expect(formatIsoWallClock(value, 2)).toBe('2024-03-01T14:05:09.12');
+    expect(formatIsoWallClock(null)).toBeNull();
+  });
+});
+
+describe('formatIsoInstant', () => {
+  it.each([
+    ['2024-01-15T17:00:00.000Z', 'America/New_York', 0, '2024-01-15T12:00:00-05:00'],
+    ['2024-07-15T16:00:00.250Z', 'America/New_York', 6, '2024-07-15T12:00:00.250-04:00'],
+    ['2024-03-10T07:30:00.000Z', 'America/New_York', 0, '2024-03-10T03:30:00-04:00'],
+    ['2024-07-15T06:30:00.000Z', 'Asia/Kolkata', 0, '2024-07-15T12:00:00+05:30'],
+    ['2024-07-15T12:00:00.000Z', 'UTC', 3, '2024-07-15T12:00:00.000+00:00'],
+  ])('%s in %s -> %s', (instant, zone, precision, expected) => {
+    expect(formatIsoInstant(new Date(instant), zone, precision)).toBe(expected);
+  });
+});
+
+describe('formatIsoText', () => {
+  it.each([
+    ['2024-03-01T14:05:09.123456000', 6, '2024-03-01T14:05:09.123456'],
+    ['2024-03-01T14:05:09.123456789', 9, '2024-03-01T14:05:09.123456789'],
+    ['2024-03-01T14:05:09.500000000', 0, '2024-03-01T14:05:09'],
+    ['2024-03-01T14:05:09.123456000+05:30', 6, '2024-03-01T14:05:09.123456+05:30'],
+    ['2024-03-01T14:05:09.120000000-03:00', 2, '2024-03-01T14:05:09.12-03:00'],
+    ['2024-03-01T14:05:09.123456789', undefined, '2024-03-01T14:05:09.123456'],
+  ])('%s at precision %s -> %s', (text, precision, expected) => {
+    expect(formatIsoText(text, precision)).toBe(expected);
+  });
+
+  it('keeps NULL', () => {
+    expect(formatIsoText(null)).toBeNull();
+  });
+});
+
+describe('temporalFetchType', () => {
+  beforeEach(() => {
+    resetMockConfig();
+  });
+
+  it('formats dates from the driver Date in iso mode', () => {
+    const value = new Date(2024, 2, 1, 14, 5, 9, 500);
+
+    expect(temporalFetchType({ dbType: 'DATE' })!.type).toBeUndefined();
+    expect(temporalFetchType({ dbType: 'DATE' })!.converter(value)).toBe('2024-03-01T14:05:09');
+  });
+
+  it('fetches timestamps as text with microseconds', () => {
+    const { type, converter } = temporalFetchType({ dbType: 'TIMESTAMP', precision: 6 })!;
+
+    expect(type).toBe('VARCHAR');
+    expect(converter('2024-03-01T14:05:09.123456000')).toBe('2024-03-01T14:05:09.123456');
+  });
+
+  it('keeps the stored offset and microseconds of TIMESTAMP WITH TIME ZONE', () => {
+    const { type, converter } = temporalFetchType({ dbType: 'TIMESTAMP_TZ', precision: 6 })!;
+
+    expect(type).toBe('VARCHAR');
+    expect(converter('2024-07-15T19:00:00.123456000+05:30')).toBe('2024-07-15T19:00:00.123456+05:30');
+    expect(converter('2024-07-15T09:30:00.000001000-04:00')).toBe('2024-07-15T09:30:00.000001-04:00');
+    expect(converter(null)).toBeNull();
+  });
+
+  it('shows local time zone timestamps in ORACLE_TIMEZONE with its offset', () => {
+    const { type, converter } = temporalFetchType({ dbType: 'TIMESTAMP_LTZ', precision: 6 })!;
+
+    expect(type).toBeUndefined();
+    expect(converter(new Date('2024-07-15T13:30:00.123Z'))).toBe('2024-07-15T09:30:00.123-04:00');
+    expect(converter(null)).toBeNull();
+  });
+
+  it('converts intervals without changing the fetch type', () => {
+    const handler = temporalFetchType({ dbType: 'INTERVAL_YM' })!;
+    expect(handler.type).toBeUndefined();
+    expect(handler.converter({ years: 1, months: 6 })).toBe('P1Y6M');
+  });
+
+  it('keeps the local format and leaves intervals alone in local mode', () => {
+    mockConfig.TEMPORAL_FORMAT = 'local';
+    const { converter } = temporalFetchType({ dbType: 'TIMESTAMP' })!;
+
+    expect(converter(new Date('2024-07-15T13:30:00.789Z'))).toBe('2024-07-15 09:30:00');
+    expect(temporalFetchType({ dbType: 'INTERVAL_DS' })).toBeUndefined();
+  });
+
+  it('ignores other types', () => {
+    expect(temporalFetchType({ dbType: 'VARCHAR' })).toBeUndefined();
+  });
+});
+
+describe('iso mode queries', () => {
+  const SESSION_FORMATS = [
+    { PARAMETER: 'NLS_TIMESTAMP_FORMAT', VALUE: 'DD-MON-RR HH.MI.SSXFF AM' },
+    { PARAMETER: 'NLS_TIMESTAMP_TZ_FORMAT', VALUE: 'DD-MON-RR HH.MI.SSXFF AM TZR' },
+  ];
+
+  // Answers the session format lookup and ALTER SESSION; `queryResult` answers the query itself
+  function mockSession(queryResult: unknown) {
+    driver.connection.execute.mockImplementation(async (sql: string) => {
+      if (sql.includes('nls_session_parameters')) return { rows: SESSION_FORMATS };
+      if (sql.startsWith('ALTER SESSION')) return {};
+      return queryResult;
+    });
+  }
+
+  const executedSql = () => driver.connection.execute.mock.calls.map((call) => call[0] as string);
+
+  beforeEach(() => {
+    driver.connection.execute.mockReset();
+    driver.connection.close.mockReset();
+    driver.createPool.mockResolvedValue({ getConnection: async () => driver.connection, close: vi.fn() });
+  });
+
+  it('switches the timestamp formats for the call only and leaves the date format alone', async () => {
+    const sql = "SELECT id FROM employees WHERE hire_date > '2024-01-01'";
+    mockSession({ rows: [{ ID: 1 }], metaData: [{ name: 'ID', dbTypeName: 'NUMBER' }] });
+
+    await getOrCreatePool();
+    const result = await executeQuery(sql);
+
+    expect(driver.createPool.mock.calls[0][0].sessionCallback).toBeUndefined();
+    const [lookup, apply, query, restore] = executedSql();
+    expect(lookup).toContain('nls_session_parameters');
+    expect(apply).toBe(
+      `ALTER SESSION SET NLS_TIMESTAMP_FORMAT = 'YYYY-MM-DD"T"HH24:MI:SS.FF9' NLS_TIMESTAMP_TZ_FORMAT = 'YYYY-MM-DD"T"HH24:MI:SS.FF9TZH:TZM'`
+    );
+    expect(query).toBe(sql);
+    expect(restore).toBe(
+      "ALTER SESSION SET NLS_TIMESTAMP_FORMAT = 'DD-MON-RR HH.MI.SSXFF AM' NLS_TIMESTAMP_TZ_FORMAT = 'DD-MON-RR HH.MI.SSXFF AM TZR'"
+    );
+    expect(executedSql().join('\n')).not.toContain('NLS_DATE_FORMAT');
+    expect(driver.connection.close).toHaveBeenCalledWith(undefined);
+    expect(result.rows).toEqual([{ ID: 1 }]);
+  });
+
+  it('returns microseconds and the stored offset', async () => {
+    mockSession({
+      rows: [{ LOGGED: '2024-03-01T14:05:09.123456000', SEEN: '2024-03-01T14:05:09.123456000+05:30' }],
+      metaData: [
+        { name: 'LOGGED', dbTypeName: 'TIMESTAMP', precision: 6 },
+        { name: 'SEEN', dbTypeName: 'TIMESTAMP WITH TIME ZONE', precision: 6 },
+      ],
+    });
+
+    await executeQuery('SELECT logged, seen FROM events');
+
+    const { fetchTypeHandler } = driver.connection.execute.mock.calls[2][2];
+    const logged = fetchTypeHandler({ dbType: 'TIMESTAMP', precision: 6 });
+    const seen = fetchTypeHandler({ dbType: 'TIMESTAMP_TZ', precision: 6 });
+    expect(logged.converter('2024-03-01T14:05:09.123456000')).toBe('2024-03-01T14:05:09.123456');
+    expect(seen.converter('2024-03-01T14:05:09.123456000+05:30')).toBe('2024-03-01T14:05:09.123456+05:30');
+  });
+
+  it('restores the formats when the query fails', async () => {
+    driver.connection.execute.mockImplementation(async (sql: string) => {
+      if (sql.includes('nls_session_parameters')) return { rows: SESSION_FORMATS };
+      if (sql.startsWith('ALTER SESSION')) return {};
+      throw new Error('ORA-00942: table or view does not exist');
+    });
+
+    await expect(executeQuery('SELECT * FROM missing')).rejects.toThrow('ORA-00942');
+
+    expect(executedSql().at(-1)).toContain("NLS_TIMESTAMP_FORMAT = 'DD-MON-RR HH.MI.SSXFF AM'");
+    expect(driver.connection.close).toHaveBeenCalledWith(undefined);
+  });
+
+  it('drops the connection from the pool when the formats cannot be restored', async () => {
+    let alters = 0;
+    driver.connection.execute.mockImplementation(async (sql: string) => {
+      if (sql.includes('nls_session_parameters')) return { rows: SESSION_FORMATS };
+      if (sql.startsWith('ALTER SESSION') && ++alters === 2) throw new Error('ORA-03113: end-of-file on communication channel');
+      return { rows: [], metaData: [] };
+    });
+
+    await executeQuery('SELECT 1 FROM dual');
+
+    expect(driver.connection.close).toHaveBeenCalledWith({ drop: true });
+  });
+
+  it('describes interval columns as ISO durations', async () => {
+    mockSession({
+      rows: [{ STARTED: '2024-03-01T14:05:09.123+01:00', SPAN: 'P1DT2H' }],
+      metaData: [
+        { name: 'STARTED', dbTypeName: 'TIMESTAMP WITH TIME ZONE', precision: 3 },
+        { name: 'SPAN', dbTypeName: 'INTERVAL DAY TO SECOND' },
+      ],
+    });
+
+    const result = await executeQuery('SELECT started, span FROM jobs');
+
+    expect(result.columnMetadata).toEqual([
+      { name: 'STARTED', type: 'TIMESTAMP WITH TIME ZONE', precision: 3, conversion: 'datetime-string' },
+      { name: 'SPAN', type: 'INTERVAL DAY TO SECOND', conversion: 'interval-duration' },
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+import { charTokenEstimator, getTokenEstimator, heuristicTokenEstimator, setTokenEstimator, tokenBudget } from '../src/utils/tokens.js';
+import { mockConfig, resetMockConfig } from './helpers/mocks.js';
+
+describe('heuristicTokenEstimator', () => {
+  it.each([
+    ['hello world', 2],
+    ['{"ID":12345}', 6],
+    ['数据库', 3],
+    ['', 0],
+  ])('estimates %j as %i tokens', (text, tokens) => {
+    expect(heuristicTokenEstimator.estimate(text)).toBe(tokens);
+  });
+
+  it('counts digit-heavy JSON above the four-characters-per-token rule', () => {
+    const text = JSON.stringify(Array.from({ length: 50 }, (_, i) => ({ ID: 1000 + i, AMOUNT: 12.5 * i })));
+    expect(heuristicTokenEstimator.estimate(text)).toBeGreaterThan(charTokenEstimator.estimate(text));
+  });
+
+  it('is close to additive over row fragments', () => {
+    const fragments = Array.from({ length: 20 }, (_, i) => `{"NAME":"customer-${i}","CITY":"Zürich"},`);
+    const separately = fragments.reduce((sum, fragment) => sum + heuristicTokenEstimator.estimate(fragment), 0);
+    const together = heuristicTokenEstimator.estimate(fragments.join(''));
+    expect(Math.abs(separately - together)).toBeLessThanOrEqual(fragments.length);
+  });
+});
+
+describe('token estimator selection and budgets', () => {
+  afterEach(() => {
+    resetMockConfig();
+    setTokenEstimator(undefined);
+  });
+
+  it('follows MCP_TOKEN_ESTIMATOR until an estimator is plugged in', () => {
+    expect(getTokenEstimator()).toBe(heuristicTokenEstimator);
+    mockConfig.MCP_TOKEN_ESTIMATOR = 'chars';
+    expect(getTokenEstimator()).toBe(charTokenEstimator);
+
+    const plugged = { name: 'words', estimate: (text: string) => text.split(/\s+/).length };
+    setTokenEstimator(plugged);
+    expect(getTokenEstimator()).toBe(plugged);
+  });
+
+  it('prefers a tool entry over MCP_MAX_RESPONSE_TOKENS', () => {
+    expect(tokenBudget('query_database')).toBeUndefined();
+
+    mockConfig.MCP_MAX_RESPONSE_TOKENS = 4000;
+    mockConfig.MCP_TOOL_TOKEN_BUDGETS = { listTables: 1000 };
+    expect(tokenBudget('listTables')).toBe(1000);
+    expect(tokenBudget('query_database')).toBe(4000);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('oracledb', async () => (await import('./helpers/mocks.js')).oracledbModule());
+
+vi.mock('../src/config.js', async () => (await import('./helpers/mocks.js')).configModule());
+
+vi.mock('../src/database/oracleConnection.js', async () => (await import('./helpers/mocks.js')).oracleConnectionModule());
+
+vi.mock('../src/utils/logger.js', async () => (await import('./helpers/mocks.js')).loggerModule());
+
+import { createToolRegistry, defineTool, ToolRegistry, type ToolDefinition } from '../src/tools/index.js';
+
+describe('createToolRegistry', () => {
+  const registry = createToolRegistry();
+  const tools = registry.list();
+  const byName = (name: string) => tools.find((t) => t.name === name)!;
+
+  it('advertises every built-in tool', () => {
+    expect(tools.map((t) => t.name)).toEqual([
+      'query_database',
+      'export_query',
+      'explain_query',
+      'get_database_schema',
+      'listTables',
+      'describeTable',
+      'getTableRelations',
+      'getSampleValues',
+      'suggestRelatedTables',
+    ]);
+  });
+
+  it('registers every tool definition exported from src/tools', () => {
+    const modules = import.meta.glob<Record<string, unknown>>('../src/tools/**/*.ts', { eager: true });
+    const exported = new Set<string>();
+    for (const exports of Object.values(modules)) {
+      for (const value of Object.values(exports)) {
+        const candidate = value as Partial<ToolDefinition> | null;
+        if (candidate && typeof candidate === 'object' && candidate.inputSchema instanceof z.ZodType && typeof candidate.handler === 'function') {
+          exported.add(candidate.name!);
+        }
+      }
+    }
+
+    expect(exported.size).toBeGreaterThan(0);
+    expect([...exported].sort()).toEqual(tools.map((t) => t.name).sort());
+  });
+
+  it('generates object input schemas without a $schema key', () => {
+    for (const tool of tools) {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.inputSchema).not.toHaveProperty('$schema');
+    }
+  });
+
+  it('marks fields without defaults as required', () => {
+    expect(byName('describeTable').inputSchema.required).toEqual(['tableName']);
+    expect(byName('getSampleValues').inputSchema.required).toEqual(['tableName']);
+    expect(byName('listTables').inputSchema.required ?? []).toEqual([]);
+  });
+
+  it('carries field descriptions and bounds from the zod schema', () => {
+    const props = byName('getSampleValues').inputSchema.properties as Record<string, any>;
+    expect(props.columnNames.type).toBe('array');
+    expect(props.columnNames.items).toEqual({ type: 'string' });
+    expect(props.sampleSize.maximum).toBe(10);
+    expect(props.sampleSize.default).toBe(3);
+    expect(props.sampleSize.description).toContain('1-10');
+  });
+
+  it('unwraps refined object schemas', () => {
+    const props = byName('query_database').inputSchema.properties as Record<string, any>;
+    expect(Object.keys(props)).toEqual(['query', 'cursor', 'binds', 'pageSize', 'maxRows', 'timeout', 'encoding']);
+  });
+
+  it('marks every tool except export_query read-only', () => {
+    for (const tool of tools) {
+      expect(tool.annotations?.readOnlyHint).toBe(tool.name !== 'export_query');
+      expect(tool.annotations?.destructiveHint).toBe(false);
+    }
+  });
+});
+
+describe('ToolRegistry', () => {
+  const echoTool = defineTool({
+    name: 'echo',
+    description: 'Echo the input back',
+    inputSchema: z.object({ value: z.string(), repeat: z.number().int().default(1) }),
+    handler: async (input) => input.value.repeat(input.repeat),
+  });
+
+  it('validates arguments and applies schema defaults before calling the handler', async () => {
+    const registry = new ToolRegistry([echoTool]);
+    await expect(registry.call('echo', { value: 'ab' })).resolves.toBe('ab');
+    await expect(registry.call('echo', { value: 'ab', repeat: 2 })).resolves.toBe('abab');
+  });
+
+  it('rejects arguments that fail validation', async () => {
+    const registry = new ToolRegistry([echoTool]);
+    await expect(registry.call('echo', { value: 42 })).rejects.toThrow();
+  });
+
+  it('throws for an unknown tool', async () => {
+    const registry = new ToolRegistry([echoTool]);
+    await expect(registry.call('nope', {})).rejects.toThrow('Unknown tool: nope');
+  });
+
+  it('refuses duplicate tool names', () => {
+    expect(() => new ToolRegistry([echoTool, echoTool])).toThrow('Tool already registered: echo');
+  });
+});